@@ -1,11 +1,37 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { PlantInfo, GroundingSource, HistoryEntry, Preparation, DiseaseInfo, ComparisonInfo, SuggestedPlant, CareGuideInfo, ToxicityInfo, ActiveCompound } from './types';
-import { identifyPlantFromImage, identifyPlantFromText, diagnosePlantDiseaseFromImage, comparePlants, findPlantsByUsage, generateCareGuide, findLocalPlants } from './services/geminiService';
+import { PlantInfo, GroundingSource, HistoryEntry, Preparation, DiseaseInfo, ComparisonInfo, SuggestedPlant, CareGuideInfo, ToxicityInfo, ActiveCompound, IdentificationCandidate, PlantOrgan, SpecimenPhoto, CaptureLocation, HerbDrugInteraction, InteractionReport, SafetyProfile, TrackedPlant, TreatmentKind, PendingAnalysis } from './types';
+import { identifyPlantFromImage, identifyPlantFromText, diagnosePlantDiseaseFromImage, comparePlants, findPlantsByUsage, generateCareGuide, findLocalPlants, checkInteractions } from './services/geminiService';
+import { loadEntries, saveEntries, EntryCollection, loadTrackedPlants, saveTrackedPlants, loadPendingAnalyses, savePendingAnalyses } from './services/plantRepository';
+import { createHerbariumArchive, parseHerbariumArchive, mergeEntries } from './services/herbariumArchive';
+import { createDarwinCoreArchive, getOccurrenceEntries } from './services/darwinCoreExport';
+import { readExif, locationFromExif } from './services/exif';
+import { RequestCancelledError, RequestTimeoutError, isCancellation } from './services/requestControl';
+import { ApiKeysExhaustedError } from './services/retry';
+import { normalizeQuery } from './services/responseCache';
+import { TOXICITY_LEVELS } from './services/schemas';
+import { discardTranslations, localizeEntry, needsTranslation, translateEntries, translateEntry } from './services/entryTranslation';
+import { interactionsForPlant, loadMedications, plantKey, plantLabel, saveMedications } from './services/interactions';
+import { getSafetyProfileKey, isGatedToxicity, isSafetyProfileEmpty, loadSafetyProfile, saveSafetyProfile } from './services/safetyProfile';
 import { Icon } from './components/Icons';
 import { ApiKeyModal } from './components/ApiKeyModal';
 import { ManualModal } from './components/ManualModal';
+import { ObservationMapModal } from './components/ObservationMapModal';
+import { UsageModal } from './components/UsageModal';
+import { TranslationNotice } from './components/TranslationNotice';
+import { InteractionForm, InteractionReportView, PreparationInteractions } from './components/Interactions';
+import { DoseCalculator } from './components/DoseCalculator';
+import { CareRemindersProps, MyPlantsModal, TrackPlantControl, TreatmentList } from './components/MyPlants';
+import { addPlantPhoto, attachEntry, createTrackedPlant, recordTreatment } from './services/trackedPlants';
+import { getCareSchedule } from './services/careSchedule';
+import { createPendingAnalysis, isConnectionError, isOffline, nextPendingAnalysis, toSpecimenImages } from './services/offline';
+import { Route, currentRoute, formatRoute, navigate, onRouteChange, routeUrl, stepBack } from './services/router';
+import { CareReminder, areRemindersSupported, disableReminders, enableReminders, loadRemindersEnabled, publishReminders, startReminderChecks } from './services/careReminders';
+import { SafetyProfileModal } from './components/SafetyProfileModal';
+import { SafetyBanners } from './components/SafetyBanners';
+import { PendingAnalysisList, PendingAnalysisListProps } from './components/PendingAnalyses';
 import { useApiKey } from './contexts/ApiKeyContext';
-import { useLanguage } from './contexts/LanguageContext';
+import { useAiProvider } from './contexts/AiProviderContext';
+import { useLanguage, SUPPORTED_LANGUAGES } from './contexts/LanguageContext';
 
 declare global {
   interface Window { jspdf: any; html2canvas: any; }
@@ -24,9 +50,16 @@ const triggerHapticFeedback = (pattern: number | number[] = 50) => {
 };
 
 
-type MainMode = 'identify' | 'diagnose' | 'remedy' | 'discover';
+type MainMode = 'identify' | 'diagnose' | 'remedy' | 'interactions' | 'discover';
 type AppView = 'main' | 'comparator';
 type Theme = 'light' | 'dark';
+type StoredCollection = EntryCollection | 'trackedPlants' | 'pendingAnalyses';
+
+// A photo picked by the user but not analyzed yet.
+interface SelectedImage { file: File; src: string; mimeType: string; organ: PlantOrgan; }
+
+const MAX_SPECIMEN_PHOTOS = 5;
+const PLANT_ORGANS: PlantOrgan[] = ['whole', 'leaf', 'flower', 'fruit', 'bark', 'other'];
 
 const fileToBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
   const reader = new FileReader();
@@ -62,6 +95,18 @@ const createPlaceholderImage = (text: string): string => {
   return `data:image/svg+xml;base64,${base64Svg}`;
 };
 
+// Saves a file through a temporary link, which is how browsers let a page offer a download.
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
 // Creates a compressed thumbnail from a data URL to save storage space.
 const createThumbnail = (dataUrl: string, maxSize = 400): Promise<string> => {
     return new Promise((resolve) => {
@@ -114,6 +159,18 @@ const createThumbnail = (dataUrl: string, maxSize = 400): Promise<string> => {
     });
 };
 
+// Text searches record none of what photos bring; entries from before the photo hash was kept are
+// told apart by that.
+const isPhotoEntry = (entry: HistoryEntry): boolean => !!(entry.photoHash || entry.photos || entry.exif || entry.location);
+
+// History keeps small copies of an entry's images.
+const withThumbnails = async (entry: HistoryEntry): Promise<HistoryEntry> => ({
+    ...entry,
+    imageSrc: await createThumbnail(entry.imageSrc),
+    mapaDistribucionSrc: entry.mapaDistribucionSrc ? await createThumbnail(entry.mapaDistribucionSrc) : undefined,
+    photos: entry.photos ? await Promise.all(entry.photos.map(async (photo) => ({ ...photo, src: await createThumbnail(photo.src) }))) : undefined,
+});
+
 // --- NOTIFICATION COMPONENT ---
 const Notification: React.FC<{ message: string; onClose: () => void; }> = ({ message, onClose }) => {
   useEffect(() => {
@@ -154,7 +211,7 @@ const SearchInput: React.FC<{ onSearch: (query: string) => void; isLoading: bool
   );
 };
 
-const MainInput: React.FC<{ onImageSelect: (file: File) => void; isLoading: boolean; onTextSearch: (query: string) => void; onRemedySearch: (query: string, useGeo: boolean) => void; onError: (message: string) => void; mode: MainMode; onModeChange: (mode: MainMode) => void; }> = ({ onImageSelect, isLoading, onTextSearch, onRemedySearch, onError, mode, onModeChange }) => {
+const MainInput: React.FC<{ onImagesSelect: (files: File[]) => void; isLoading: boolean; onTextSearch: (query: string) => void; onRemedySearch: (query: string, useGeo: boolean) => void; onError: (message: string) => void; mode: MainMode; onModeChange: (mode: MainMode) => void; medications: string[]; onMedicationsChange: (medications: string[]) => void; herbariumPlants: PlantInfo[]; onCheckInteractions: (plants: string[]) => void; }> = ({ onImagesSelect, isLoading, onTextSearch, onRemedySearch, onError, mode, onModeChange, medications, onMedicationsChange, herbariumPlants, onCheckInteractions }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { t } = useLanguage();
@@ -162,10 +219,10 @@ const MainInput: React.FC<{ onImageSelect: (file: File) => void; isLoading: bool
   const [useGeolocation, setUseGeolocation] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) { onError('The selected file is not an image. Please choose a JPG, PNG, WEBP, etc.'); if (event.target) event.target.value = ''; return; }
-      onImageSelect(file);
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (files.length > 0) {
+      if (files.some(file => !file.type.startsWith('image/'))) { onError('The selected file is not an image. Please choose a JPG, PNG, WEBP, etc.'); if (event.target) event.target.value = ''; return; }
+      onImagesSelect(files);
     }
     if (event.target) event.target.value = '';
   };
@@ -182,6 +239,7 @@ const MainInput: React.FC<{ onImageSelect: (file: File) => void; isLoading: bool
     identify: { icon: 'leaf', titleKey: 'appName', buttonTextKey: 'identifyPlant', descriptionKey: 'identifyPlantTitle' },
     diagnose: { icon: 'bug', titleKey: 'diseaseDiagnostic', buttonTextKey: 'diagnosePlant', descriptionKey: 'diagnosePlantTitle' },
     remedy: { icon: 'mortar-pestle', titleKey: 'findRemedy', buttonTextKey: 'findRemedy', descriptionKey: 'remedySearchTitle' },
+    interactions: { icon: 'shield', titleKey: 'interactionsTitle', buttonTextKey: 'interactionsTab', descriptionKey: 'interactionsDescription' },
     discover: { icon: 'compass', titleKey: 'discoverTitle', buttonTextKey: 'discover', descriptionKey: 'discoverDescription' },
   };
 
@@ -189,9 +247,9 @@ const MainInput: React.FC<{ onImageSelect: (file: File) => void; isLoading: bool
     <div className="w-full max-w-md p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg border border-green-200 dark:border-emerald-700 text-center">
       <div className="flex w-full bg-green-100 dark:bg-slate-700 rounded-full p-1 mb-6 transition-colors">
         {Object.entries(modeConfig).map(([key, config]) => (
-          <button key={key} onClick={() => { onModeChange(key as MainMode); triggerHapticFeedback(); }} className={`w-1/4 py-2 px-1 rounded-full text-xs sm:text-sm font-semibold transition-all duration-300 flex items-center justify-center gap-1 sm:gap-2 ${mode === key ? 'bg-white dark:bg-slate-800 shadow text-green-800 dark:text-emerald-200' : 'text-green-700 dark:text-slate-300'}`}>
-            <Icon name={config.icon} className="w-5 h-5" />
-            {t(config.buttonTextKey)}
+          <button key={key} onClick={() => { onModeChange(key as MainMode); triggerHapticFeedback(); }} className={`w-1/5 min-w-0 py-2 px-1 rounded-full text-xs sm:text-sm font-semibold transition-all duration-300 flex items-center justify-center gap-1 sm:gap-2 ${mode === key ? 'bg-white dark:bg-slate-800 shadow text-green-800 dark:text-emerald-200' : 'text-green-700 dark:text-slate-300'}`} title={t(config.buttonTextKey)}>
+            <Icon name={config.icon} className="w-5 h-5 flex-shrink-0" />
+            <span className="truncate">{t(config.buttonTextKey)}</span>
           </button>
         ))}
       </div>
@@ -223,13 +281,15 @@ const MainInput: React.FC<{ onImageSelect: (file: File) => void; isLoading: bool
         </form>
       )}
 
+      {mode === 'interactions' && <InteractionForm medications={medications} onMedicationsChange={onMedicationsChange} herbariumPlants={herbariumPlants} isLoading={isLoading} onCheck={(plants) => { onCheckInteractions(plants); triggerHapticFeedback(); }} />}
+
       {(mode === 'identify' || mode === 'diagnose') && (
         <div className="flex flex-col sm:flex-row gap-4 mt-6">
             <input type="file" accept="image/*" capture="environment" ref={cameraInputRef} onChange={handleFileChange} className="hidden" disabled={isLoading} />
             <button onClick={() => { cameraInputRef.current?.click(); triggerHapticFeedback(); }} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 bg-green-600 dark:bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 dark:hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-green-500 dark:focus:ring-emerald-500 focus:ring-offset-2 transition-transform transform hover:scale-105">
             <Icon name="camera" className="w-5 h-5" />{t('takePhoto')}
             </button>
-            <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" disabled={isLoading} />
+            <input type="file" accept="image/*" multiple={mode === 'identify'} ref={fileInputRef} onChange={handleFileChange} className="hidden" disabled={isLoading} />
             <button onClick={() => { fileInputRef.current?.click(); triggerHapticFeedback(); }} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 bg-white dark:bg-slate-700 text-green-700 dark:text-emerald-300 font-semibold rounded-lg shadow-md border border-green-300 dark:border-slate-600 hover:bg-green-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-green-500 dark:focus:ring-emerald-500 focus:ring-offset-2 transition-transform transform hover:scale-105">
             <Icon name="upload" className="w-5 h-5" />{t('uploadFile')}
             </button>
@@ -240,13 +300,63 @@ const MainInput: React.FC<{ onImageSelect: (file: File) => void; isLoading: bool
   );
 };
 
-const Loader: React.FC<{ message: string, subMessage: string }> = ({ message, subMessage }) => (
+const Loader: React.FC<{ message: string, subMessage: string, onCancel?: () => void }> = ({ message, subMessage, onCancel }) => {
+    const { t } = useLanguage();
+    return (
     <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md">
         <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-green-600 dark:border-emerald-500 mx-auto"></div>
         <p className="mt-6 text-lg font-semibold text-green-800 dark:text-emerald-200">{message}</p>
         <p className="mt-2 text-gray-600 dark:text-slate-400">{subMessage}</p>
+        {onCancel && <button onClick={() => { onCancel(); triggerHapticFeedback(); }} className="mt-6 px-6 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">{t('cancel')}</button>}
     </div>
-);
+    );
+};
+
+const PhotoSetEditor: React.FC<{ images: SelectedImage[]; allowMultiple: boolean; onAddFiles: (files: File[]) => void; onOrganChange: (index: number, organ: PlantOrgan) => void; onRemove: (index: number) => void; onClear: () => void; onAnalyze: () => void; }> = ({ images, allowMultiple, onAddFiles, onOrganChange, onRemove, onClear, onAnalyze }) => {
+    const { t } = useLanguage();
+    const addInputRef = useRef<HTMLInputElement>(null);
+    const canAddMore = allowMultiple && images.length < MAX_SPECIMEN_PHOTOS;
+
+    const handleAddChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const picked: File[] = event.target.files ? Array.from(event.target.files) : [];
+        const files = picked.filter(file => file.type.startsWith('image/'));
+        if (files.length > 0) onAddFiles(files);
+        if (event.target) event.target.value = '';
+    };
+
+    return (
+        <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md w-full">
+            <div className={`grid gap-3 mb-4 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {images.map((img, index) => (
+                    <div key={img.src} className="relative">
+                        <img src={img.src} alt={t(`organ_${img.organ}`)} className={`w-full object-cover rounded-lg shadow-md ${images.length > 1 ? 'h-32' : 'max-h-64'}`} />
+                        {allowMultiple && (
+                            <select value={img.organ} onChange={(e) => onOrganChange(index, e.target.value as PlantOrgan)} aria-label={t('photoOrgan')} className="mt-1 w-full px-2 py-1 text-xs bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md dark:text-slate-200">
+                                {PLANT_ORGANS.map(organ => <option key={organ} value={organ}>{t(`organ_${organ}`)}</option>)}
+                            </select>
+                        )}
+                        {images.length > 1 && (
+                            <button onClick={() => { onRemove(index); triggerHapticFeedback(); }} className="absolute top-1 right-1 p-1 rounded-full bg-black/50 text-white hover:bg-black/70" aria-label={t('removePhoto')}>
+                                <Icon name="trash" className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {canAddMore && (
+                <>
+                    <input type="file" accept="image/*" multiple ref={addInputRef} onChange={handleAddChange} className="hidden" />
+                    <button onClick={() => { addInputRef.current?.click(); triggerHapticFeedback(); }} className="mb-4 inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-green-50 dark:bg-emerald-900/40 text-green-800 dark:text-emerald-300 hover:bg-green-100 dark:hover:bg-emerald-900/70">
+                        <Icon name="camera" className="w-4 h-4" />{t('addPhoto', { count: images.length, max: MAX_SPECIMEN_PHOTOS })}
+                    </button>
+                    <p className="text-xs text-gray-500 dark:text-slate-400 mb-4">{t('multiPhotoHint')}</p>
+                </>
+            )}
+            <h3 className="text-xl font-bold text-green-900 dark:text-emerald-200 mb-6">{t('readyToAnalyze')}</h3>
+            <div className="flex justify-center gap-4"><button onClick={() => { onClear(); triggerHapticFeedback(); }} className="px-6 py-3 bg-white dark:bg-slate-700 text-gray-700 dark:text-slate-300 font-semibold rounded-lg shadow-md border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600">{t('changePhoto')}</button><button onClick={() => { onAnalyze(); triggerHapticFeedback(); }} className="px-6 py-3 bg-green-600 dark:bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 dark:hover:bg-emerald-700">{t('analyze')}</button></div>
+        </div>
+    );
+};
 
 const ToxicityMeter: React.FC<{ level: ToxicityInfo['nivelToxicidad'] }> = ({ level }) => {
     const { t } = useLanguage();
@@ -275,6 +385,76 @@ const ToxicityMeter: React.FC<{ level: ToxicityInfo['nivelToxicidad'] }> = ({ le
     );
 };
 
+const ObservationDetails: React.FC<{ entry: HistoryEntry }> = ({ entry }) => {
+    const { t, formatDate } = useLanguage();
+    const { location, capturedAt, exif } = entry;
+    const camera = [exif?.cameraMake, exif?.cameraModel].filter(Boolean).join(' ');
+    if (!location && !capturedAt && !camera) return null;
+    return (
+        <div className="mt-2 p-2 bg-gray-50 dark:bg-slate-900/50 rounded-lg text-xs text-gray-600 dark:text-slate-400 space-y-0.5">
+            {capturedAt && <p><Icon name="history" className="w-3 h-3 inline mr-1" />{t('capturedAt')}: {formatDate(capturedAt, { dateStyle: 'medium', timeStyle: 'short' })}</p>}
+            {location && (
+                <p>
+                    <Icon name="map" className="w-3 h-3 inline mr-1" />
+                    {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+                    {location.accuracy !== undefined && ` (±${Math.round(location.accuracy)} m)`}
+                    {location.altitude !== undefined && ` · ${Math.round(location.altitude)} m ${t('altitudeSuffix')}`}
+                    {' · '}{t(location.source === 'exif' ? 'locationFromPhoto' : 'locationFromDevice')}
+                </p>
+            )}
+            {camera && <p><Icon name="camera" className="w-3 h-3 inline mr-1" />{camera}</p>}
+        </div>
+    );
+};
+
+const PhotoStrip: React.FC<{ photos: SpecimenPhoto[]; activeIndex: number; onSelect: (index: number) => void; }> = ({ photos, activeIndex, onSelect }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="hide-on-export mt-2 flex gap-2 overflow-x-auto">
+            {photos.map((photo, index) => (
+                <button key={index} onClick={() => onSelect(index)} className={`flex-shrink-0 text-center rounded-md p-0.5 ${index === activeIndex ? 'ring-2 ring-green-500 dark:ring-emerald-400' : ''}`}>
+                    <img src={photo.src} alt={t(`organ_${photo.organ}`)} className="w-14 h-14 object-cover rounded" />
+                    <span className="block text-[10px] text-gray-500 dark:text-slate-400">{t(`organ_${photo.organ}`)}</span>
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const CandidateList: React.FC<{ candidates: IdentificationCandidate[]; currentScientificName: string; onSelect: (candidate: IdentificationCandidate) => void; switchingTo: string | null; }> = ({ candidates, currentScientificName, onSelect, switchingTo }) => {
+    const { t } = useLanguage();
+    const isCurrent = (c: IdentificationCandidate) => c.nombreCientifico.toLowerCase() === currentScientificName.toLowerCase();
+    const current = candidates.find(isCurrent);
+    const alternatives = candidates.filter(c => !isCurrent(c));
+    if (alternatives.length === 0) return null;
+    return (
+        <div className="hide-on-export mb-4 p-4 border border-amber-300 dark:border-amber-700 rounded-lg bg-amber-50 dark:bg-amber-900/30">
+            <div className="flex justify-between items-center mb-2">
+                <h4 className="font-bold text-amber-900 dark:text-amber-200">{t('didYouMean')}</h4>
+                {current && <span className="text-xs font-semibold text-amber-800 dark:text-amber-300">{t('identificationConfidence', { percent: Math.round(current.confianza * 100) })}</span>}
+            </div>
+            <ul className="space-y-2">
+                {alternatives.map((candidate) => (
+                    <li key={candidate.nombreCientifico}>
+                        <button onClick={() => { onSelect(candidate); triggerHapticFeedback(); }} disabled={!!switchingTo} className="w-full text-left p-2 rounded-md bg-white/70 dark:bg-slate-800/60 hover:bg-white dark:hover:bg-slate-700 transition-colors disabled:opacity-60">
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="text-sm font-semibold text-gray-800 dark:text-slate-200 break-words">{candidate.nombreComun} <span className="italic font-normal text-gray-500 dark:text-slate-400">{candidate.nombreCientifico}</span></span>
+                                {switchingTo === candidate.nombreCientifico
+                                    ? <span className="w-4 h-4 border-2 border-t-transparent border-amber-600 rounded-full animate-spin flex-shrink-0"></span>
+                                    : <span className="text-xs font-bold text-amber-800 dark:text-amber-300 flex-shrink-0">{Math.round(candidate.confianza * 100)}%</span>}
+                            </div>
+                            <div className="mt-1 w-full h-1.5 rounded-full bg-amber-200 dark:bg-amber-900 overflow-hidden">
+                                <div className="h-full bg-amber-500" style={{ width: `${Math.round(candidate.confianza * 100)}%` }}></div>
+                            </div>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            <p className="mt-2 text-xs text-amber-800 dark:text-amber-300">{t('didYouMeanHint')}</p>
+        </div>
+    );
+};
+
 interface ShareableCardProps {
   plantInfo: PlantInfo;
   imageSrc: string;
@@ -309,6 +489,28 @@ const ShareableCard: React.FC<ShareableCardProps> = ({ plantInfo, imageSrc, onRe
     );
 };
 
+// Placeholders for profile fields that are still streaming in.
+const SkeletonLine: React.FC<{ className?: string }> = ({ className = 'h-4 w-full' }) => (
+    <span className={`block rounded bg-gray-200 dark:bg-slate-700 animate-pulse ${className}`}></span>
+);
+
+const SectionSkeleton: React.FC<{ title: string; icon: string }> = ({ title, icon }) => (
+    <div className="mb-2 border-b border-gray-200 dark:border-slate-700 last:border-b-0 py-4" aria-busy="true">
+        <div className="flex items-center mb-3">
+            <Icon name={icon} className="w-7 h-7 text-gray-300 dark:text-slate-600 mr-3 flex-shrink-0" />
+            <h3 className="text-xl font-bold text-gray-400 dark:text-slate-500">{title}</h3>
+        </div>
+        <div className="pl-10 space-y-2"><SkeletonLine /><SkeletonLine className="h-4 w-5/6" /><SkeletonLine className="h-4 w-2/3" /></div>
+    </div>
+);
+
+// "My Plants" as seen from a result card: the plants and how to attach the entry to one.
+interface TrackingProps {
+    plants: TrackedPlant[];
+    onAddToPlant: (plantId: string) => void;
+    onAddToNewPlant: (name: string) => void;
+}
+
 interface ResultCardProps { 
     result: HistoryEntry; 
     onReset: () => void; 
@@ -317,11 +519,24 @@ interface ResultCardProps {
     onStartCompare?: () => void;
     onGenerateCareGuide: () => void;
     isGeneratingCareGuide: boolean;
+    onSelectCandidate?: (candidate: IdentificationCandidate) => void;
+    switchingCandidate?: string | null;
+    onRefresh?: () => void;
+    isRefreshing?: boolean;
+    isStreaming?: boolean; // plantInfo is still arriving: missing fields render as skeletons and actions are hidden
+    medications?: string[];
+    interactions?: HerbDrugInteraction[]; // Found for this plant against `medications`; undefined until checked
+    onCheckInteractions?: () => void;
+    isCheckingInteractions?: boolean;
+    safetyProfile?: SafetyProfile;
+    tracking?: TrackingProps;
 }
 
-const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium, onToggleHerbarium, onStartCompare, onGenerateCareGuide, isGeneratingCareGuide }) => {
-    const { plantInfo, sources, imageSrc, mapaDistribucionSrc, careGuide, imageGenerationFailed } = result;
+const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium, onToggleHerbarium, onStartCompare, onGenerateCareGuide, isGeneratingCareGuide, onSelectCandidate, switchingCandidate = null, onRefresh, isRefreshing = false, isStreaming = false, medications = [], interactions, onCheckInteractions, isCheckingInteractions = false, safetyProfile, tracking }) => {
+    const { plantInfo, sources, imageSrc, mapaDistribucionSrc, mapFailure, careGuide, imageGenerationFailed, candidates, photos } = result;
     const { t } = useLanguage();
+    const [activePhoto, setActivePhoto] = useState(0);
+    const displayedImageSrc = photos?.[activePhoto]?.src || imageSrc;
     const resultCardRef = useRef<HTMLDivElement>(null);
     const shareableCardRef = useRef<HTMLDivElement | null>(null);
     const [isExporting, setIsExporting] = useState(false);
@@ -334,12 +549,25 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
     const [openSections, setOpenSections] = useState<Record<string, boolean>>({ [t('medicinalUses')]: true, [t('toxicity')]: true, [t('distributionMap')]: true, [t('careGuide')]: true });
 
     const toggleSection = (title: string) => setOpenSections(prev => ({...prev, [title]: !prev[title]}));
+    // Every preparation carries the plant's compounds, so each one is flagged with the medications it conflicts with.
+    const conflictingMedications = [...new Set((interactions || []).map(interaction => interaction.medicamento))];
+
+    // While streaming, the level can be a half-written enum value ("Lo"); only a complete one is shown.
+    const hasToxicityLevel = TOXICITY_LEVELS.includes(plantInfo.toxicidad?.nivelToxicidad);
+    const pendingSections = isStreaming ? [
+        { title: t('medicinalUses'), icon: 'leaf', ready: plantInfo.usosMedicinales !== undefined },
+        { title: t('culinaryUses'), icon: 'utensils', ready: plantInfo.usosCulinarios !== undefined },
+        { title: t('activeCompounds'), icon: 'beaker', ready: plantInfo.principiosActivos !== undefined },
+        { title: t('toxicity'), icon: 'cross', ready: hasToxicityLevel },
+        { title: t('similarPlants'), icon: 'cross', ready: plantInfo.plantasSimilares !== undefined },
+        { title: t('preparationsAndRecipes'), icon: 'pot', ready: plantInfo.preparaciones !== undefined },
+    ].filter(section => !section.ready) : [];
 
     const handleSharePreparation = async (prep: Preparation) => {
         triggerHapticFeedback();
         const shareText = `${t('appName')} Recipe: ${prep.nombre}\n\n${t('ingredients')}:\n- ${prep.ingredientes.join('\n- ')}\n\n${t('instructions')}:\n${prep.instrucciones}\n\n${t('recommendedDose')}:\n${prep.dosis || t('dosageNotSpecified')}`;
         try {
-            if (navigator.share) await navigator.share({ title: `Recipe: ${prep.nombre}`, text: shareText, url: window.location.href });
+            if (navigator.share) await navigator.share({ title: `Recipe: ${prep.nombre}`, text: shareText, url: routeUrl({ name: 'identify', query: plantInfo.nombreCientifico }) });
             else { await navigator.clipboard.writeText(shareText); setSharedPrep(prep.nombre); setTimeout(() => setSharedPrep(null), 2500); }
         } catch (err) {
             try { await navigator.clipboard.writeText(shareText); setSharedPrep(prep.nombre); setTimeout(() => setSharedPrep(null), 2500); } catch (clipErr) { alert('Could not share or copy preparation.'); }
@@ -469,7 +697,9 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
         <div className="p-6 md:p-8">
             <div className="md:flex md:gap-8">
                 <div className="md:w-1/3 mb-6 md:mb-0">
-                    <img src={imageSrc} alt={plantInfo.nombreComun} className="rounded-xl shadow-lg w-full object-cover aspect-square"/>
+                    <img src={displayedImageSrc} alt={plantInfo.nombreComun} className="rounded-xl shadow-lg w-full object-cover aspect-square"/>
+                    {photos && photos.length > 1 && <PhotoStrip photos={photos} activeIndex={activePhoto} onSelect={setActivePhoto} />}
+                    <ObservationDetails entry={result} />
                     {imageGenerationFailed && (
                         <div className="mt-2 p-2 bg-amber-100 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-800 rounded-lg text-center">
                             <p className="text-xs text-amber-800 dark:text-amber-300">
@@ -477,15 +707,24 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
                             </p>
                         </div>
                     )}
+                    {mapFailure && (
+                        <div className="mt-2 p-2 bg-amber-100 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-800 rounded-lg text-center">
+                            <p className="text-xs text-amber-800 dark:text-amber-300">
+                                {t(mapFailure === 'budget' ? 'mapPausedByBudgetWarning' : 'mapGenerationFailedWarning')}
+                            </p>
+                        </div>
+                    )}
                 </div>
                 <div className="md:w-2/3">
                     <div className="mb-4">
-                        <h2 className="text-3xl sm:text-4xl font-extrabold text-green-800 dark:text-emerald-200 break-words">{plantInfo.nombreComun}</h2>
-                        <p className="text-lg sm:text-xl text-gray-500 dark:text-slate-400 italic mt-1 break-words">{plantInfo.nombreCientifico}</p>
+                        <h2 className="text-3xl sm:text-4xl font-extrabold text-green-800 dark:text-emerald-200 break-words">{plantInfo.nombreComun || <SkeletonLine className="h-9 w-2/3" />}</h2>
+                        <p className="text-lg sm:text-xl text-gray-500 dark:text-slate-400 italic mt-1 break-words">{plantInfo.nombreCientifico || <SkeletonLine className="h-6 w-1/2 mt-2" />}</p>
                         {plantInfo.sinonimos?.length > 0 && <p className="text-sm text-gray-600 dark:text-slate-300 mt-2 break-words"><strong>{t('alsoKnownAs')}:</strong> {plantInfo.sinonimos.join(', ')}</p>}
                     </div>
 
-                    <div className="flex flex-wrap items-center gap-2 mb-4">
+                    {!isStreaming && candidates && candidates.length > 1 && onSelectCandidate && <CandidateList candidates={candidates} currentScientificName={plantInfo.nombreCientifico} onSelect={onSelectCandidate} switchingTo={switchingCandidate} />}
+
+                    {!isStreaming && <div className="flex flex-wrap items-center gap-2 mb-4">
                         <button onClick={handleShareAsImage} disabled={isSharing} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-green-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600 disabled:opacity-50">
                             {isSharing ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="share-up" className="w-4 h-4" />}
                             {isSharing ? t('sharing') : t('share')}
@@ -496,25 +735,35 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
                             {isExporting ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="download" className="w-4 h-4" />}
                             {isExporting ? t('exporting') : t('exportToPdf')}
                         </button>
-                    </div>
-
-                    <ToxicityMeter level={plantInfo.toxicidad.nivelToxicidad} />
-                    <p className="text-gray-700 dark:text-slate-300 leading-relaxed mt-4 break-words">{plantInfo.descripcionGeneral}</p>
+                        {onRefresh && (
+                            <button onClick={() => { onRefresh(); triggerHapticFeedback(); }} disabled={isRefreshing} title={t('refreshResultHint')} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-green-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600 disabled:opacity-50">
+                                {isRefreshing ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="refresh" className="w-4 h-4" />}
+                                {isRefreshing ? t('refreshing') : t('refreshResult')}
+                            </button>
+                        )}
+                        {tracking && <TrackPlantControl entry={result} {...tracking} />}
+                    </div>}
+
+                    {!isStreaming && safetyProfile && <SafetyBanners plantInfo={plantInfo} profile={safetyProfile} isTailored={(result.safetyProfileKey || '') === getSafetyProfileKey(safetyProfile)} onRefresh={onRefresh} isRefreshing={isRefreshing} />}
+                    {hasToxicityLevel ? <ToxicityMeter level={plantInfo.toxicidad.nivelToxicidad} /> : <SkeletonLine className="h-8 w-full" />}
+                    {plantInfo.descripcionGeneral
+                        ? <p className="text-gray-700 dark:text-slate-300 leading-relaxed mt-4 break-words">{plantInfo.descripcionGeneral}</p>
+                        : <div className="mt-4 space-y-2"><SkeletonLine /><SkeletonLine /><SkeletonLine className="h-4 w-3/4" /></div>}
                     <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
-                        <div className="p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg"><Icon name="globe" className="w-8 h-8 text-green-600 dark:text-emerald-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-green-800 dark:text-emerald-300">{t('habitat')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{plantInfo.habitat}</p></div>
-                        <div className="p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg"><Icon name="sparkles" className="w-8 h-8 text-green-600 dark:text-emerald-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-green-800 dark:text-emerald-300">{t('flowering')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{plantInfo.floweringSeason}</p></div>
-                        <div className="p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg"><Icon name="shield" className="w-8 h-8 text-green-600 dark:text-emerald-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-green-800 dark:text-emerald-300">{t('conservation')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{plantInfo.conservationStatus}</p></div>
+                        <div className="p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg"><Icon name="globe" className="w-8 h-8 text-green-600 dark:text-emerald-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-green-800 dark:text-emerald-300">{t('habitat')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{plantInfo.habitat ?? <SkeletonLine />}</p></div>
+                        <div className="p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg"><Icon name="sparkles" className="w-8 h-8 text-green-600 dark:text-emerald-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-green-800 dark:text-emerald-300">{t('flowering')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{plantInfo.floweringSeason ?? <SkeletonLine />}</p></div>
+                        <div className="p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg"><Icon name="shield" className="w-8 h-8 text-green-600 dark:text-emerald-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-green-800 dark:text-emerald-300">{t('conservation')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{plantInfo.conservationStatus ?? <SkeletonLine />}</p></div>
                     </div>
                 </div>
             </div>
             <div className="mt-8 border-t border-green-200 dark:border-emerald-800 pt-2">
-              {!careGuide && (
+              {!isStreaming && (!careGuide || (!careGuide.calendario && result.trackedPlantId)) && (
                 <div className="my-4 text-center">
                     <button onClick={() => { onGenerateCareGuide(); triggerHapticFeedback(); }} disabled={isGeneratingCareGuide} className="hide-on-export px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-transform transform hover:scale-105 disabled:bg-blue-400 dark:disabled:bg-blue-800 disabled:cursor-wait">
                         {isGeneratingCareGuide ? (
                             <span className="flex items-center gap-2"><div className="w-5 h-5 border-2 border-t-transparent border-white rounded-full animate-spin"></div>{t('generating')}</span>
                         ) : (
-                            <span className="flex items-center gap-2"><Icon name="sparkles" className="w-5 h-5"/>{t('generateCareGuide')}</span>
+                            <span className="flex items-center gap-2"><Icon name="sparkles" className="w-5 h-5"/>{t(careGuide ? 'generateCareSchedule' : 'generateCareGuide')}</span>
                         )}
                     </button>
                 </div>
@@ -603,6 +852,7 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
                         </div>))}</div>
                 </Section>
               )}
+              {hasToxicityLevel && (
               <Section title={t('toxicity')} icon="cross">
                 <div className="space-y-4">
                     <div className="flex items-center gap-4">
@@ -610,14 +860,15 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
                         {getToxicityBadge(plantInfo.toxicidad.nivelToxicidad)}
                     </div>
                     <p className="bg-yellow-100 dark:bg-yellow-900/40 border-l-4 border-yellow-500 dark:border-yellow-600 text-yellow-800 dark:text-yellow-300 p-4 rounded-r-lg break-words">{plantInfo.toxicidad.descripcion}</p>
-                    {plantInfo.toxicidad.compuestosToxicos.length > 0 && (<div><h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('toxicCompounds')}:</h4><ul className="list-disc pl-5 text-sm space-y-1">{plantInfo.toxicidad.compuestosToxicos.map((c, i) => <li key={i} className="break-words">{c}</li>)}</ul></div>)}
-                    {plantInfo.toxicidad.sistemasAfectados.length > 0 && (<div><h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('affectedSystems')}:</h4><ul className="list-disc pl-5 text-sm space-y-1">{plantInfo.toxicidad.sistemasAfectados.map((s, i) => <li key={i} className="break-words">{s}</li>)}</ul></div>)}
+                    {plantInfo.toxicidad.compuestosToxicos?.length > 0 && (<div><h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('toxicCompounds')}:</h4><ul className="list-disc pl-5 text-sm space-y-1">{plantInfo.toxicidad.compuestosToxicos.map((c, i) => <li key={i} className="break-words">{c}</li>)}</ul></div>)}
+                    {plantInfo.toxicidad.sistemasAfectados?.length > 0 && (<div><h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('affectedSystems')}:</h4><ul className="list-disc pl-5 text-sm space-y-1">{plantInfo.toxicidad.sistemasAfectados.map((s, i) => <li key={i} className="break-words">{s}</li>)}</ul></div>)}
                     <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg">
                         <h4 className="font-bold text-red-800 dark:text-red-200 flex items-center gap-2"><Icon name="cross" className="w-5 h-5" />{t('firstAid')}</h4>
                         <p className="mt-2 text-red-700 dark:text-red-300 text-sm break-words">{plantInfo.toxicidad.primerosAuxilios}</p>
                     </div>
                 </div>
               </Section>
+              )}
               {plantInfo.plantasSimilares?.length > 0 && (
                 <Section title={t('similarPlants')} icon="cross">
                     <div className="space-y-4">{plantInfo.plantasSimilares.map((similar, i) => (
@@ -630,25 +881,28 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInHerbarium,
               )}
               {plantInfo.preparaciones?.length > 0 && (
               <Section title={t('preparationsAndRecipes')} icon="pot">
+                {!isStreaming && <PreparationInteractions interactions={interactions} medications={medications} onCheck={onCheckInteractions} isChecking={isCheckingInteractions} />}
                 {plantInfo.preparaciones.map((prep, i) => (
                   <div key={i} className="mb-6 p-4 border border-gray-200 dark:border-slate-700 rounded-lg bg-gray-50 dark:bg-slate-900/50">
                     <div className="flex justify-between items-center mb-2">
                         <h4 className="font-bold text-lg text-green-800 dark:text-emerald-300 break-words">{prep.nombre}</h4>
                         <button onClick={() => handleSharePreparation(prep)} className={`hide-on-export inline-flex items-center gap-1.5 px-3 py-1 text-xs font-semibold rounded-full shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 ${ sharedPrep === prep.nombre ? 'bg-blue-100 text-blue-800 focus:ring-blue-500 dark:bg-blue-900/50 dark:text-blue-300' : 'bg-gray-100 text-gray-600 hover:bg-gray-200 focus:ring-green-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600' }`} disabled={sharedPrep === prep.nombre}><Icon name={sharedPrep === prep.nombre ? 'clipboard-check' : 'share'} className="w-3 h-3" />{sharedPrep === prep.nombre ? t('copied') : t('share')}</button>
                     </div>
-                    <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('ingredients')}:</h5><ul className="list-disc pl-5 text-gray-600 dark:text-slate-400">{prep.ingredientes.map((ing, j) => <li key={j} className="break-words">{ing}</li>)}</ul></div>
+                    {conflictingMedications.length > 0 && <p className="mb-3 flex items-center gap-2 text-sm font-semibold text-red-700 dark:text-red-300"><Icon name="cross" className="w-4 h-4 flex-shrink-0" />{t('preparationInteractionFlag', { medications: conflictingMedications.join(', ') })}</p>}
+                    <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('ingredients')}:</h5><ul className="list-disc pl-5 text-gray-600 dark:text-slate-400">{prep.ingredientes?.map((ing, j) => <li key={j} className="break-words">{ing}</li>)}</ul></div>
                     <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('instructions')}:</h5><p className="text-gray-600 dark:text-slate-400 break-words">{prep.instrucciones}</p></div>
-                    <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('recommendedDose')}:</h5><p className="text-gray-600 dark:text-slate-400 break-words">{prep.dosis || t('dosageNotSpecified')}</p></div>
+                    <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('recommendedDose')}:</h5><p className="text-gray-600 dark:text-slate-400 break-words">{prep.dosis || t('dosageNotSpecified')}</p>{!isStreaming && prep.dosificacion && <DoseCalculator dosage={prep.dosificacion} profile={safetyProfile} />}</div>
                     <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('possibleSideEffects')}:</h5><div className="mt-1 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800/50 rounded-md"><p className="text-amber-800 dark:text-amber-300 text-sm break-words">{prep.efectosSecundarios}</p></div></div>
                     <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('historicalContext')}:</h5><p className="text-gray-600 dark:text-slate-400 italic break-words">{prep.contextoHistorico}</p></div>
                   </div>
                 ))}
               </Section>
               )}
+              {pendingSections.map(({ title, icon }) => <SectionSkeleton key={title} title={title} icon={icon} />)}
               {sources.length > 0 && (<Section title={t('sources')} icon="link"><ul className="space-y-2">{sources.map((source, i) => (<li key={i}><a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-800 dark:hover:text-blue-300 transition-colors flex items-start gap-2"><span className="flex-shrink-0 pt-1"><Icon name="link" className="w-4 h-4" /></span><span className="truncate">{source.title}</span></a></li>))}</ul></Section>)}
             </div>
         </div>
-        <div className="p-6 bg-gray-50 dark:bg-slate-900/50 text-center"><button onClick={() => { onReset(); triggerHapticFeedback(); }} className="hide-on-export px-8 py-3 bg-green-600 dark:bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 dark:hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-transform transform hover:scale-105">{t('anotherQuery')}</button></div>
+        {!isStreaming && <div className="p-6 bg-gray-50 dark:bg-slate-900/50 text-center"><button onClick={() => { onReset(); triggerHapticFeedback(); }} className="hide-on-export px-8 py-3 bg-green-600 dark:bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 dark:hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-transform transform hover:scale-105">{t('anotherQuery')}</button></div>}
     </div>
     </>
   );
@@ -660,9 +914,11 @@ interface DiseaseResultCardProps {
   onReset: () => void;
   isInHerbarium: boolean;
   onToggleHerbarium: () => void;
+  tracking?: TrackingProps;
+  onRecordTreatment?: (kind: TreatmentKind, index: number, description: string) => void;
 }
 
-const DiseaseResultCard: React.FC<DiseaseResultCardProps> = ({ result, onReset, isInHerbarium, onToggleHerbarium }) => {
+const DiseaseResultCard: React.FC<DiseaseResultCardProps> = ({ result, onReset, isInHerbarium, onToggleHerbarium, tracking, onRecordTreatment = () => {} }) => {
     const { diseaseInfo, imageSrc } = result;
     const { t } = useLanguage();
     const resultCardRef = useRef<HTMLDivElement>(null);
@@ -670,6 +926,7 @@ const DiseaseResultCard: React.FC<DiseaseResultCardProps> = ({ result, onReset,
     if (!diseaseInfo) return null;
     const [openSections, setOpenSections] = useState<Record<string, boolean>>({ [t('symptoms')]: true, [t('causes')]: true, [t('organicTreatment')]: true, [t('chemicalTreatment')]: true, [t('prevention')]: true, });
     const toggleSection = (title: string) => setOpenSections(prev => ({...prev, [title]: !prev[title]}));
+    const trackedPlant = tracking?.plants.find(plant => plant.id === result.trackedPlantId);
     
     const handleExportPdf = async () => {
         if (!resultCardRef.current || !diseaseInfo) return;
@@ -726,7 +983,7 @@ const DiseaseResultCard: React.FC<DiseaseResultCardProps> = ({ result, onReset,
         <div ref={resultCardRef} className="w-full max-w-4xl mx-auto bg-white dark:bg-slate-800 rounded-2xl shadow-xl overflow-hidden my-8 border border-green-200 dark:border-emerald-800">
             <div className="p-6 md:p-8">
                 <div className="md:flex md:gap-8">
-                    <div className="md:w-1/3 mb-6 md:mb-0"><img src={imageSrc} alt={`Plant with ${diseaseInfo.nombreEnfermedad}`} className="rounded-xl shadow-lg w-full object-cover aspect-square"/></div>
+                    <div className="md:w-1/3 mb-6 md:mb-0"><img src={imageSrc} alt={`Plant with ${diseaseInfo.nombreEnfermedad}`} className="rounded-xl shadow-lg w-full object-cover aspect-square"/><ObservationDetails entry={result} /></div>
                     <div className="md:w-2/3">
                         <div className="mb-4">
                             <h2 className="text-3xl sm:text-4xl font-extrabold text-green-800 dark:text-emerald-200 break-words">{diseaseInfo.nombreEnfermedad}</h2>
@@ -739,14 +996,15 @@ const DiseaseResultCard: React.FC<DiseaseResultCardProps> = ({ result, onReset,
                                 {isExporting ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="download" className="w-4 h-4" />}
                                 {isExporting ? t('exporting') : t('exportToPdf')}
                             </button>
+                            {tracking && <TrackPlantControl entry={result} {...tracking} />}
                         </div>
                     </div>
                 </div>
                 <div className="mt-8 border-t border-green-200 dark:border-emerald-800 pt-2">
                     {diseaseInfo.sintomas.length > 0 && <Section title={t('symptoms')} icon="bug"><ul className="list-disc pl-5 space-y-1">{diseaseInfo.sintomas.map((s, i) => <li key={i} className="break-words">{s}</li>)}</ul></Section>}
                     {diseaseInfo.causas.length > 0 && <Section title={t('causes')} icon="sparkles"><ul className="list-disc pl-5 space-y-1">{diseaseInfo.causas.map((c, i) => <li key={i} className="break-words">{c}</li>)}</ul></Section>}
-                    {diseaseInfo.tratamientoOrganico.length > 0 && <Section title={t('organicTreatment')} icon="leaf"><ul className="list-disc pl-5 space-y-1">{diseaseInfo.tratamientoOrganico.map((t, i) => <li key={i} className="break-words">{t}</li>)}</ul></Section>}
-                    {diseaseInfo.tratamientoQuimico.length > 0 && <Section title={t('chemicalTreatment')} icon="beaker"><ul className="list-disc pl-5 space-y-1">{diseaseInfo.tratamientoQuimico.map((t, i) => <li key={i} className="break-words">{t}</li>)}</ul></Section>}
+                    {diseaseInfo.tratamientoOrganico.length > 0 && <Section title={t('organicTreatment')} icon="leaf"><TreatmentList treatments={diseaseInfo.tratamientoOrganico} kind="organic" diagnosis={result} trackedPlant={trackedPlant} onRecord={onRecordTreatment} /></Section>}
+                    {diseaseInfo.tratamientoQuimico.length > 0 && <Section title={t('chemicalTreatment')} icon="beaker"><TreatmentList treatments={diseaseInfo.tratamientoQuimico} kind="chemical" diagnosis={result} trackedPlant={trackedPlant} onRecord={onRecordTreatment} /></Section>}
                     {diseaseInfo.prevencion.length > 0 && <Section title={t('prevention')} icon="shield"><ul className="list-disc pl-5 space-y-1">{diseaseInfo.prevencion.map((p, i) => <li key={i} className="break-words">{p}</li>)}</ul></Section>}
                 </div>
             </div>
@@ -755,15 +1013,16 @@ const DiseaseResultCard: React.FC<DiseaseResultCardProps> = ({ result, onReset,
     );
 };
 
-const HistoryModal: React.FC<{ isOpen: boolean; onClose: () => void; history: HistoryEntry[]; onSelectItem: (item: HistoryEntry) => void; onClearHistory: () => void; }> = ({ isOpen, onClose, history, onSelectItem, onClearHistory }) => {
-  const { t } = useLanguage();
+const HistoryModal: React.FC<{ isOpen: boolean; onClose: () => void; history: HistoryEntry[]; onSelectItem: (item: HistoryEntry) => void; onClearHistory: () => void; pending: PendingAnalysisListProps; }> = ({ isOpen, onClose, history, onSelectItem, onClearHistory, pending }) => {
+  const { t, language, formatDate } = useLanguage();
   if (!isOpen) return null;
   return (
     <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
       <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
         <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center"><h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200">{t('historyModalTitle')}</h2><button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button></div>
         <div className="overflow-y-auto p-2 flex-grow">
-          {history.length > 0 ? (<ul>{history.map((item) => { const title = item.plantInfo?.nombreComun || item.diseaseInfo?.nombreEnfermedad || '...'; const icon = item.type === 'plant' ? 'leaf' : 'bug'; return (<li key={item.id}><button onClick={() => { onSelectItem(item); triggerHapticFeedback(); }} className="w-full text-left p-4 flex items-center gap-4 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors"><img src={item.imageSrc} alt={title} className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0" /><div className="flex-grow"><p className="font-semibold text-green-800 dark:text-emerald-300 flex items-center gap-2"><Icon name={icon} className="w-4 h-4 text-gray-400 dark:text-slate-500" /> {title}</p><p className="text-sm text-gray-500 dark:text-slate-400">{new Date(item.timestamp).toLocaleString()}</p></div></button></li>);})}</ul>) : (<div className="text-center p-10"><Icon name="history" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('noHistory')}</p></div>)}
+          <PendingAnalysisList {...pending} />
+          {history.length > 0 ? (<ul>{history.map((item) => { const shown = localizeEntry(item, language); const title = shown.plantInfo?.nombreComun || shown.diseaseInfo?.nombreEnfermedad || '...'; const icon = item.type === 'plant' ? 'leaf' : 'bug'; return (<li key={item.id}><button onClick={() => { onSelectItem(item); triggerHapticFeedback(); }} className="w-full text-left p-4 flex items-center gap-4 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors"><img src={item.imageSrc} alt={title} className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0" /><div className="flex-grow"><p className="font-semibold text-green-800 dark:text-emerald-300 flex items-center gap-2"><Icon name={icon} className="w-4 h-4 text-gray-400 dark:text-slate-500" /> {title}</p><p className="text-sm text-gray-500 dark:text-slate-400">{formatDate(item.timestamp, { dateStyle: 'medium', timeStyle: 'short' })}</p></div></button></li>);})}</ul>) : pending.pending.length === 0 && (<div className="text-center p-10"><Icon name="history" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('noHistory')}</p></div>)}
         </div>
         {history.length > 0 && (<div className="p-4 border-t border-gray-200 dark:border-slate-700 text-right"><button onClick={() => { triggerHapticFeedback(); if (window.confirm(t('clearHistoryConfirm'))) { onClearHistory();}}} className="px-4 py-2 bg-red-50 dark:bg-red-900/50 text-red-700 dark:text-red-300 font-semibold rounded-lg hover:bg-red-100 dark:hover:bg-red-900/80 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2">{t('clearHistory')}</button></div>)}
       </div>
@@ -771,8 +1030,14 @@ const HistoryModal: React.FC<{ isOpen: boolean; onClose: () => void; history: Hi
   );
 };
 
-const HerbariumModal: React.FC<{ isOpen: boolean; onClose: () => void; herbarium: HistoryEntry[]; onSelectItem: (item: HistoryEntry) => void; onRemoveItem: (id: string) => void; onExport: () => void; sortOrder: string; onSortOrderChange: (e: React.ChangeEvent<HTMLSelectElement>) => void; nameFilter: string; onNameFilterChange: (e: React.ChangeEvent<HTMLInputElement>) => void; useFilter: string; onUseFilterChange: (e: React.ChangeEvent<HTMLInputElement>) => void; onStartCompare: (item: HistoryEntry) => void; }> = ({ isOpen, onClose, herbarium, onSelectItem, onRemoveItem, onExport, sortOrder, onSortOrderChange, nameFilter, onNameFilterChange, useFilter, onUseFilterChange, onStartCompare }) => {
-  const { t } = useLanguage();
+const HerbariumModal: React.FC<{ isOpen: boolean; onClose: () => void; herbarium: HistoryEntry[]; onSelectItem: (item: HistoryEntry) => void; onRemoveItem: (id: string) => void; onExport: () => void; onExportDarwinCore: () => void; onImport: (file: File) => void; sortOrder: string; onSortOrderChange: (e: React.ChangeEvent<HTMLSelectElement>) => void; nameFilter: string; onNameFilterChange: (e: React.ChangeEvent<HTMLInputElement>) => void; useFilter: string; onUseFilterChange: (e: React.ChangeEvent<HTMLInputElement>) => void; onStartCompare: (item: HistoryEntry) => void; pendingTranslations: number; translationProgress: { done: number; total: number } | null; onTranslateAll: () => void; onCancelTranslation: () => void; }> = ({ isOpen, onClose, herbarium, onSelectItem, onRemoveItem, onExport, onExportDarwinCore, onImport, sortOrder, onSortOrderChange, nameFilter, onNameFilterChange, useFilter, onUseFilterChange, onStartCompare, pendingTranslations, translationProgress, onTranslateAll, onCancelTranslation }) => {
+  const { t, language, formatDate, languageName } = useLanguage();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = ''; // Allow importing the same file twice in a row
+  };
   if (!isOpen) return null;
   return (
     <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
@@ -786,21 +1051,55 @@ const HerbariumModal: React.FC<{ isOpen: boolean; onClose: () => void; herbarium
             </div>
         </div>
         <div className="overflow-y-auto p-2 flex-grow">
-          {herbarium.length > 0 ? (<ul>{herbarium.map((item) => { const title = item.plantInfo?.nombreComun || item.diseaseInfo?.nombreEnfermedad || '...'; const icon = item.type === 'plant' ? 'leaf' : 'bug'; return (<li key={item.id} className="p-2 flex items-center gap-2 group"><button onClick={() => { onSelectItem(item); triggerHapticFeedback(); }} className="w-full text-left flex items-center gap-4 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors p-2 flex-grow"><img src={item.imageSrc} alt={title} className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0" /><div className="flex-grow"><p className="font-semibold text-green-800 dark:text-emerald-300 flex items-center gap-2"><Icon name={icon} className="w-4 h-4 text-gray-400 dark:text-slate-500" /> {title}</p><p className="text-sm text-gray-500 dark:text-slate-400">{new Date(item.timestamp).toLocaleDateString()}</p></div></button>{item.type === 'plant' && (<button onClick={(e) => { e.stopPropagation(); onStartCompare(item); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-blue-100 dark:hover:bg-blue-900/50 hover:text-blue-600 dark:hover:text-blue-400 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0" aria-label={t('compare')}><Icon name="compare" className="w-5 h-5" /></button>)}<button onClick={(e) => { e.stopPropagation(); onRemoveItem(item.id); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-600 dark:hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0" aria-label={t('removeFromHerbarium')}><Icon name="trash" className="w-5 h-5" /></button></li>);})}</ul>) : (<div className="text-center p-10"><Icon name="book" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('noHerbarium')}</p></div>)}
+          {herbarium.length > 0 ? (<ul>{herbarium.map((item) => { const shown = localizeEntry(item, language); const title = shown.plantInfo?.nombreComun || shown.diseaseInfo?.nombreEnfermedad || '...'; const icon = item.type === 'plant' ? 'leaf' : 'bug'; return (<li key={item.id} className="p-2 flex items-center gap-2 group"><button onClick={() => { onSelectItem(item); triggerHapticFeedback(); }} className="w-full text-left flex items-center gap-4 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors p-2 flex-grow"><img src={item.imageSrc} alt={title} className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0" /><div className="flex-grow"><p className="font-semibold text-green-800 dark:text-emerald-300 flex items-center gap-2"><Icon name={icon} className="w-4 h-4 text-gray-400 dark:text-slate-500" /> {title}</p><p className="text-sm text-gray-500 dark:text-slate-400">{formatDate(item.timestamp)}</p></div></button>{item.type === 'plant' && (<button onClick={(e) => { e.stopPropagation(); onStartCompare(item); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-blue-100 dark:hover:bg-blue-900/50 hover:text-blue-600 dark:hover:text-blue-400 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0" aria-label={t('compare')}><Icon name="compare" className="w-5 h-5" /></button>)}<button onClick={(e) => { e.stopPropagation(); onRemoveItem(item.id); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-600 dark:hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0" aria-label={t('removeFromHerbarium')}><Icon name="trash" className="w-5 h-5" /></button></li>);})}</ul>) : (<div className="text-center p-10"><Icon name="book" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('noHerbarium')}</p></div>)}
+        </div>
+        {(pendingTranslations > 0 || translationProgress) && (
+            <div className="px-4 py-3 border-t border-gray-200 dark:border-slate-700 flex items-center justify-between gap-2 flex-shrink-0 text-sm">
+                {translationProgress ? (<>
+                    <span className="flex items-center gap-2 text-gray-700 dark:text-slate-300"><span className="w-4 h-4 border-2 border-t-transparent border-green-600 dark:border-emerald-500 rounded-full animate-spin"></span>{t('translatingProgress', { done: translationProgress.done, total: translationProgress.total })}</span>
+                    <button onClick={() => { onCancelTranslation(); triggerHapticFeedback(); }} className="font-semibold text-gray-600 dark:text-slate-300 hover:underline">{t('cancel')}</button>
+                </>) : (
+                    <button onClick={() => { onTranslateAll(); triggerHapticFeedback(); }} className="inline-flex items-center gap-2 font-semibold text-green-700 dark:text-emerald-300 hover:underline"><Icon name="globe" className="w-4 h-4" />{t('translateAll', { language: languageName(language), count: pendingTranslations })}</button>
+                )}
+            </div>
+        )}
+        <div className="p-4 border-t border-gray-200 dark:border-slate-700 flex justify-end gap-2 flex-shrink-0">
+            <input type="file" ref={importInputRef} accept=".json,application/json" className="hidden" onChange={handleImportChange} />
+            <button onClick={() => { importInputRef.current?.click(); triggerHapticFeedback(); }} className="px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">{t('importHerbarium')}</button>
+            {herbarium.length > 0 && (<button onClick={() => { onExport(); triggerHapticFeedback(); }} className="px-4 py-2 bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-semibold rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/80 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2">{t('exportToJson')}</button>)}
+            {herbarium.length > 0 && (<button onClick={() => { onExportDarwinCore(); triggerHapticFeedback(); }} title={t('exportDarwinCoreHint')} className="px-4 py-2 bg-green-50 dark:bg-emerald-900/50 text-green-700 dark:text-emerald-300 font-semibold rounded-lg hover:bg-green-100 dark:hover:bg-emerald-900/80 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2">{t('exportDarwinCore')}</button>)}
         </div>
-        {herbarium.length > 0 && (<div className="p-4 border-t border-gray-200 dark:border-slate-700 text-right flex-shrink-0"><button onClick={() => { onExport(); triggerHapticFeedback(); }} className="px-4 py-2 bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-semibold rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/80 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2">{t('exportToJson')}</button></div>)}
       </div>
     </div>
   );
 };
 
+// Highly toxic suggestions are held back behind a warning instead of being listed with the rest.
 const SuggestedPlantsList: React.FC<{ suggestions: SuggestedPlant[]; query: string; onSelect: (plantName: string) => void; onReset: () => void; }> = ({ suggestions, query, onSelect, onReset }) => {
   const { t } = useLanguage();
+  const [showGated, setShowGated] = useState(false);
+  const safe = suggestions.filter(plant => !isGatedToxicity(plant.nivelToxicidad));
+  const gated = suggestions.filter(plant => isGatedToxicity(plant.nivelToxicidad));
+  const renderSuggestion = (plant: SuggestedPlant, index: number, isGated: boolean) => (
+    <li key={index}><button onClick={() => { onSelect(plant.nombreComun); triggerHapticFeedback(); }} className={`w-full p-4 rounded-lg shadow-sm hover:shadow-md focus:outline-none focus:ring-2 transition-all transform hover:scale-105 ${isGated ? 'bg-red-50 dark:bg-red-900/30 border border-red-300 dark:border-red-700 hover:bg-red-100 dark:hover:bg-red-900/50 focus:ring-red-500' : 'bg-green-50 dark:bg-emerald-900/40 hover:bg-green-100 dark:hover:bg-emerald-900/80 focus:ring-green-500 dark:focus:ring-emerald-500'}`}>
+      <h3 className={`font-bold text-lg flex items-center gap-2 ${isGated ? 'text-red-800 dark:text-red-300' : 'text-green-800 dark:text-emerald-300'}`}>{isGated && <Icon name="cross" className="w-5 h-5 flex-shrink-0" />}{plant.nombreComun}{isGated && <span className="ml-auto px-2 py-0.5 text-xs font-bold rounded-full bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300">{t(`toxicityLevel_${plant.nivelToxicidad}`)}</span>}</h3>
+      <p className="text-sm text-gray-700 dark:text-slate-300">{plant.relevancia}</p>
+      {plant.advertencia && <p className="mt-2 text-sm font-semibold text-amber-800 dark:text-amber-300">{plant.advertencia}</p>}
+    </button></li>
+  );
   return (
     <div className="w-full max-w-md p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg border border-green-200 dark:border-emerald-700 text-center">
       <h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200 mb-2">{t('remedySuggestionsTitle', {query})}</h2>
       <p className="text-gray-600 dark:text-slate-400 mb-6">{t('remedySuggestionsSubtitle')}</p>
-      <ul className="space-y-3 text-left">{suggestions.map((plant, index) => (<li key={index}><button onClick={() => { onSelect(plant.nombreComun); triggerHapticFeedback(); }} className="w-full p-4 bg-green-50 dark:bg-emerald-900/40 rounded-lg shadow-sm hover:shadow-md hover:bg-green-100 dark:hover:bg-emerald-900/80 focus:outline-none focus:ring-2 focus:ring-green-500 dark:focus:ring-emerald-500 transition-all transform hover:scale-105"><h3 className="font-bold text-lg text-green-800 dark:text-emerald-300">{plant.nombreComun}</h3><p className="text-sm text-gray-700 dark:text-slate-300">{plant.relevancia}</p></button></li>))}</ul>
+      <ul className="space-y-3 text-left">{safe.map((plant, index) => renderSuggestion(plant, index, false))}</ul>
+      {gated.length > 0 && (
+        <div className="mt-4 p-4 rounded-lg border border-red-200 dark:border-red-800/50 bg-red-50/60 dark:bg-red-900/20 text-left">
+          <p className="flex items-start gap-2 text-sm text-red-800 dark:text-red-300"><Icon name="cross" className="w-5 h-5 flex-shrink-0" />{t('remedyGatedWarning', { count: gated.length })}</p>
+          {showGated
+            ? <ul className="space-y-3 mt-4">{gated.map((plant, index) => renderSuggestion(plant, index, true))}</ul>
+            : <button onClick={() => { setShowGated(true); triggerHapticFeedback(); }} className="mt-3 px-4 py-1.5 text-sm font-semibold rounded-lg text-red-700 dark:text-red-300 border border-red-300 dark:border-red-700 hover:bg-red-100 dark:hover:bg-red-900/40">{t('remedyShowGated')}</button>}
+        </div>
+      )}
       <button onClick={onReset} className="mt-8 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">{t('anotherSearch')}</button>
     </div>
   );
@@ -808,11 +1107,15 @@ const SuggestedPlantsList: React.FC<{ suggestions: SuggestedPlant[]; query: stri
 
 const DiscoveryView: React.FC<{ onSelectPlant: (plantName: string) => void; onSelectCategory: (category: string) => void; }> = ({ onSelectPlant, onSelectCategory }) => {
     const { t, language } = useLanguage();
-    const { effectiveApiKey } = useApiKey();
+    const { apiKeys } = useApiKey();
     const [plantOfTheDay, setPlantOfTheDay] = useState('');
     const [localPlants, setLocalPlants] = useState<SuggestedPlant[] | null>(null);
     const [localPlantsStatus, setLocalPlantsStatus] = useState<'idle' | 'loading' | 'error'>('idle');
     const [localPlantsMessage, setLocalPlantsMessage] = useState('');
+    const localPlantsRequestRef = useRef<AbortController | null>(null);
+
+    // Leaving the discovery view abandons any pending local-plants search.
+    useEffect(() => () => localPlantsRequestRef.current?.abort(new RequestCancelledError()), []);
     
     useEffect(() => {
         const today = new Date().toDateString();
@@ -830,11 +1133,11 @@ const DiscoveryView: React.FC<{ onSelectPlant: (plantName: string) => void; onSe
     }, []);
 
     const categories = useMemo(() => [
-        { key: 'category_relaxation', icon: 'sparkles', value: language === 'es' ? 'Relajación y Estrés' : 'Relaxation & Stress', query: language === 'es' ? 'Estrés o ansiedad' : 'Stress or anxiety' },
-        { key: 'category_digestion', icon: 'leaf', value: language === 'es' ? 'Salud Digestiva' : 'Digestive Health', query: language === 'es' ? 'indigestión' : 'indigestion' },
-        { key: 'category_skin', icon: 'shield', value: language === 'es' ? 'Cuidado de la Piel' : 'Skin Care', query: language === 'es' ? 'irritación de la piel' : 'skin irritation' },
-        { key: 'category_first_aid', icon: 'cross', value: language === 'es' ? 'Primeros Auxilios' : 'First Aid', query: language === 'es' ? 'cortes o quemaduras leves' : 'minor cuts or burns' },
-    ], [language]);
+        { key: 'category_relaxation', icon: 'sparkles' },
+        { key: 'category_digestion', icon: 'leaf' },
+        { key: 'category_skin', icon: 'shield' },
+        { key: 'category_first_aid', icon: 'cross' },
+    ].map(category => ({ ...category, value: t(category.key), query: t(`${category.key}_query`) })), [t]);
 
     const getLocation = (): Promise<{ latitude: number; longitude: number }> => new Promise((resolve, reject) => { 
         if (!navigator.geolocation) { reject(new Error("Geolocation not supported.")); return; }
@@ -849,13 +1152,17 @@ const DiscoveryView: React.FC<{ onSelectPlant: (plantName: string) => void; onSe
         triggerHapticFeedback();
         setLocalPlantsStatus('loading');
         setLocalPlantsMessage(t('gettingLocation'));
+        localPlantsRequestRef.current?.abort(new RequestCancelledError());
+        const request = new AbortController();
+        localPlantsRequestRef.current = request;
         try {
             const location = await getLocation();
             setLocalPlantsMessage(t('findingPlants'));
-            const plants = await findLocalPlants(effectiveApiKey!, location, language);
+            const plants = await findLocalPlants(apiKeys, location, language, { signal: request.signal });
             setLocalPlants(plants);
             setLocalPlantsStatus('idle');
         } catch (err: any) {
+            if (isCancellation(err)) return;
             console.error(err);
             setLocalPlantsStatus('error');
             setLocalPlantsMessage(err.code === 1 ? t('locationPermissionDenied') : t('unexpectedError'));
@@ -922,14 +1229,27 @@ const DiscoveryView: React.FC<{ onSelectPlant: (plantName: string) => void; onSe
 
 function App() {
   const [view, setView] = useState<AppView>('main');
-  const [image, setImage] = useState<{ file: File; src: string; mimeType: string; } | null>(null);
+  const [images, setImages] = useState<SelectedImage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isTextSearching, setIsTextSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentResult, setCurrentResult] = useState<HistoryEntry | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [herbarium, setHerbarium] = useState<HistoryEntry[]>([]);
+  const [trackedPlants, setTrackedPlants] = useState<TrackedPlant[]>([]);
+  const [isMyPlantsOpen, setIsMyPlantsOpen] = useState(false);
+  const [careRemindersEnabled, setCareRemindersEnabled] = useState(loadRemindersEnabled);
+  const [pendingAnalyses, setPendingAnalyses] = useState<PendingAnalysis[]>([]);
+  const [runningAnalysisId, setRunningAnalysisId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(() => !isOffline());
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  // Set while taking a new photo of one of "My Plants": the resulting entry joins its timeline.
+  const [followUpPlantId, setFollowUpPlantId] = useState<string | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isSafetyProfileOpen, setIsSafetyProfileOpen] = useState(false);
+  const [safetyProfile, setSafetyProfile] = useState<SafetyProfile>(loadSafetyProfile);
   const [isHerbariumOpen, setIsHerbariumOpen] = useState(false);
   const [isManualOpen, setIsManualOpen] = useState(false);
   const [mainMode, setMainMode] = useState<MainMode>('identify');
@@ -938,7 +1258,21 @@ function App() {
   const [comparisonResult, setComparisonResult] = useState<ComparisonInfo | null>(null);
   const [suggestedPlants, setSuggestedPlants] = useState<SuggestedPlant[] | null>(null);
   const [remedyQuery, setRemedyQuery] = useState('');
+  const [medications, setMedications] = useState<string[]>(loadMedications);
+  const [interactionCheck, setInteractionCheck] = useState<{ report: InteractionReport; plants: string[]; medications: string[] } | null>(null);
+  // Interactions found so far for each plant (by scientific name) against the current medication list.
+  const [plantInteractions, setPlantInteractions] = useState<Record<string, HerbDrugInteraction[]>>({});
+  const [isCheckingInteractions, setIsCheckingInteractions] = useState(false);
   const [isGeneratingCareGuide, setIsGeneratingCareGuide] = useState(false);
+  const [switchingCandidate, setSwitchingCandidate] = useState<string | null>(null);
+  const [isRefreshingResult, setIsRefreshingResult] = useState(false);
+  // Saved entries in another language are shown translated once a translation exists, unless the reader asks for the original.
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isTranslatingEntry, setIsTranslatingEntry] = useState(false);
+  const [herbariumTranslation, setHerbariumTranslation] = useState<{ done: number; total: number } | null>(null);
+  const herbariumTranslationRef = useRef<AbortController | null>(null);
+  // The plant profile as it streams in, shown in place of the loader until the full result is ready.
+  const [streamingProfile, setStreamingProfile] = useState<{ imageSrc: string; plantInfo: Partial<PlantInfo> } | null>(null);
   const [notification, setNotification] = useState<string | null>(null);
   const [theme, setTheme] = useState<Theme>(() => {
     const savedTheme = localStorage.getItem('theme');
@@ -951,8 +1285,9 @@ function App() {
     return 'light';
   });
   
-  const { effectiveApiKey } = useApiKey();
-  const { t, language, setLanguage } = useLanguage();
+  const { apiKeys, effectiveApiKey } = useApiKey();
+  const { requiresApiKey } = useAiProvider();
+  const { t, language, setLanguage, languageName } = useLanguage();
 
   const [herbariumSortOrder, setHerbariumSortOrder] = useState('date-desc');
   const [herbariumNameFilter, setHerbariumNameFilter] = useState('');
@@ -973,36 +1308,99 @@ function App() {
   };
 
 
+  // A collection that failed to load is never saved: the empty list shown would replace what is stored.
+  const loadedCollectionsRef = useRef<Record<StoredCollection, boolean>>({ history: false, herbarium: false, trackedPlants: false, pendingAnalyses: false });
   useEffect(() => {
-    try {
-        const storedHistory = localStorage.getItem('plantHistory');
-        if (storedHistory) {
-            setHistory(JSON.parse(storedHistory));
-        }
-    } catch (e) {
-        console.error("Failed to load or parse history from localStorage. Data might be corrupt.", e);
-    }
-    try {
-        const storedHerbarium = localStorage.getItem('plantHerbarium');
-        if (storedHerbarium) {
-            setHerbarium(JSON.parse(storedHerbarium));
-        }
-    } catch (e) {
-        console.error("Failed to load or parse herbarium from localStorage. Data might be corrupt.", e);
-    }
+    const load = <T,>(collection: StoredCollection, loading: Promise<T>, apply: (value: T) => void, description: string) => loading
+      .then(value => { apply(value); loadedCollectionsRef.current[collection] = true; })
+      .catch(e => { console.error(`Failed to load ${description} from IndexedDB.`, e); setNotification(t('storageLoadError')); });
+    Promise.all([
+      load('history', loadEntries('history'), setHistory, 'history'),
+      load('herbarium', loadEntries('herbarium'), setHerbarium, 'herbarium'),
+      load('trackedPlants', loadTrackedPlants(), setTrackedPlants, 'My Plants'),
+      load('pendingAnalyses', loadPendingAnalyses(), setPendingAnalyses, 'the offline queue'),
+    ]).then(() => setIsStorageLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(!isOffline());
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => { window.removeEventListener('online', updateOnline); window.removeEventListener('offline', updateOnline); };
   }, []);
 
   useEffect(() => {
-    if (!effectiveApiKey) {
+    if (requiresApiKey && !effectiveApiKey) {
       setIsApiKeyModalOpen(true);
     }
-  }, [effectiveApiKey]);
+  }, [effectiveApiKey, requiresApiKey]);
 
-  const saveHistory = (newHistory: HistoryEntry[]) => { const sorted = newHistory.sort((a, b) => b.timestamp - a.timestamp); setHistory(sorted); localStorage.setItem('plantHistory', JSON.stringify(sorted)); };
-  const saveHerbarium = (newHerbarium: HistoryEntry[]) => { setHerbarium(newHerbarium); localStorage.setItem('plantHerbarium', JSON.stringify(newHerbarium)); };
+  const persistEntries = (collection: EntryCollection, entries: HistoryEntry[]) => {
+    if (!loadedCollectionsRef.current[collection]) return;
+    saveEntries(collection, entries).catch(e => { console.error(`Failed to save ${collection} to IndexedDB.`, e); setError(t('storageSaveError')); });
+  };
+  const persistTrackedPlants = (plants: TrackedPlant[]) => {
+    if (!loadedCollectionsRef.current.trackedPlants) return;
+    saveTrackedPlants(plants).catch(e => { console.error("Failed to save My Plants to IndexedDB.", e); setError(t('storageSaveError')); });
+  };
+  const persistPendingAnalyses = (queue: PendingAnalysis[]) => {
+    if (!loadedCollectionsRef.current.pendingAnalyses) return;
+    savePendingAnalyses(queue).catch(e => { console.error("Failed to save the offline queue to IndexedDB.", e); setError(t('storageSaveError')); });
+  };
+  const sortHistory = (entries: HistoryEntry[]) => entries.sort((a, b) => b.timestamp - a.timestamp);
+  const saveHistory = (newHistory: HistoryEntry[]) => { const sorted = sortHistory(newHistory); setHistory(sorted); persistEntries('history', sorted); };
+  const saveHerbarium = (newHerbarium: HistoryEntry[]) => { setHerbarium(newHerbarium); persistEntries('herbarium', newHerbarium); };
+  const saveTrackedPlantList = (plants: TrackedPlant[]) => { setTrackedPlants(plants); persistTrackedPlants(plants); };
+  const savePendingAnalysisList = (queue: PendingAnalysis[]) => { setPendingAnalyses(queue); persistPendingAnalyses(queue); };
+  // For work that finishes long after it started: the change is applied to the collection as it is
+  // by then, so whatever was saved in the meantime is kept.
+  const updateHistory = (update: (current: HistoryEntry[]) => HistoryEntry[]) => setHistory(current => { const next = sortHistory(update(current)); persistEntries('history', next); return next; });
+  const updateHerbarium = (update: (current: HistoryEntry[]) => HistoryEntry[]) => setHerbarium(current => { const next = update(current); persistEntries('herbarium', next); return next; });
+  const updateTrackedPlantList = (update: (current: TrackedPlant[]) => TrackedPlant[]) => setTrackedPlants(current => { const next = update(current); persistTrackedPlants(next); return next; });
+  const updatePendingAnalysisList = (update: (current: PendingAnalysis[]) => PendingAnalysis[]) => setPendingAnalyses(current => { const next = update(current); persistPendingAnalyses(next); return next; });
+  // Keeps the copies on screen and in history, herbarium and "My Plants" in step when an entry changes.
+  // The change is applied to each copy as it is by then, so changes finishing side by side all stay.
+  const saveEntryChange = (id: string, change: (entry: HistoryEntry) => HistoryEntry) => {
+    const apply = (entries: HistoryEntry[]) => entries.map(entry => entry.id === id ? change(entry) : entry);
+    setCurrentResult(current => current?.id === id ? change(current) : current);
+    updateHistory(apply);
+    updateHerbarium(apply);
+    updateTrackedPlantList(current => current.map(plant => ({ ...plant, entries: apply(plant.entries) })));
+  };
   
+  // Only the most recent main request (an identification, a search, a comparison) may touch the UI.
+  // Starting a new one, resetting or cancelling aborts the previous request, and any late answer it
+  // still produces is dropped.
+  const activeRequestRef = useRef<AbortController | null>(null);
+  const cancelActiveRequest = () => { activeRequestRef.current?.abort(new RequestCancelledError()); activeRequestRef.current = null; cancelEntryRequests(); };
+  const startRequest = () => { cancelActiveRequest(); const request = new AbortController(); activeRequestRef.current = request; return request; };
+  const isCurrentRequest = (request: AbortController) => activeRequestRef.current === request && !request.signal.aborted;
+  const finishRequest = (request: AbortController) => { if (activeRequestRef.current !== request) return false; activeRequestRef.current = null; return true; };
+  // Actions on the entry on screen (care guide, candidates, refresh, translation, interactions) run
+  // side by side, each with its own request; they go with the entry when the screen moves on.
+  const entryRequestsRef = useRef(new Set<AbortController>());
+  const startEntryRequest = () => { const request = new AbortController(); entryRequestsRef.current.add(request); return request; };
+  const isCurrentEntryRequest = (request: AbortController) => entryRequestsRef.current.has(request) && !request.signal.aborted;
+  const finishEntryRequest = (request: AbortController) => { entryRequestsRef.current.delete(request); };
+  const cancelEntryRequests = () => { entryRequestsRef.current.forEach(request => request.abort(new RequestCancelledError())); entryRequestsRef.current.clear(); };
+  const describeRequestError = (err: any): string => {
+    if (err instanceof RequestTimeoutError) return t('requestTimedOut');
+    if (err instanceof ApiKeysExhaustedError && err.keyCount > 1) return t('apiKeysExhausted');
+    return err.message || t('unexpectedError');
+  };
+  // Only interrupt with the key dialog once rotation has run out of keys, or when a key is rejected outright.
+  const needsApiKeyAttention = (err: any): boolean => err instanceof ApiKeysExhaustedError || /api key not valid/i.test(err?.message || '');
+
+  // Entries record the profile their content was tailored to, so a later change can be pointed out.
+  const safetyProfileKey = getSafetyProfileKey(safetyProfile) || undefined;
+  const handleSaveSafetyProfile = (profile: SafetyProfile) => { setSafetyProfile(profile); saveSafetyProfile(profile); };
+
+  const handleCancelRequest = () => { cancelActiveRequest(); setIsLoading(false); setIsTextSearching(false); setStreamingProfile(null); };
+
   const handleReset = useCallback(() => { 
-    setImage(null); 
+    cancelActiveRequest();
+    setStreamingProfile(null);
+    setImages([]); 
     setCurrentResult(null); 
     setError(null); 
     setIsLoading(false); 
@@ -1012,54 +1410,91 @@ function App() {
     setComparisonResult(null); 
     setSuggestedPlants(null); 
     setRemedyQuery(''); 
+    setInteractionCheck(null);
+    setFollowUpPlantId(null);
     setMainMode('identify');
   }, []);
   
-  const handleImageSelect = useCallback((file: File) => { handleReset(); const src = URL.createObjectURL(file); setImage({ file, src, mimeType: file.type }); }, [handleReset]);
+  const toSelectedImages = (files: File[]): SelectedImage[] => files.map(file => ({ file, src: URL.createObjectURL(file), mimeType: file.type, organ: 'whole' }));
+
+  const handleImagesSelect = useCallback((files: File[]) => {
+    setCurrentResult(null);
+    setError(null);
+    setSuggestedPlants(null);
+    const limit = mainMode === 'identify' ? MAX_SPECIMEN_PHOTOS : 1;
+    setImages(toSelectedImages(files.slice(0, limit)));
+  }, [mainMode]);
+
+  const handleAddImages = (files: File[]) => setImages(prev => [...prev, ...toSelectedImages(files)].slice(0, MAX_SPECIMEN_PHOTOS));
+  const handleImageOrganChange = (index: number, organ: PlantOrgan) => setImages(prev => prev.map((img, i) => i === index ? { ...img, organ } : img));
+  const handleRemoveImage = (index: number) => setImages(prev => prev.filter((_, i) => i !== index));
   
   const handleProcessResult = async (newEntry: HistoryEntry) => {
     triggerHapticFeedback([100, 30, 100]); // Success feedback
     try {
-        const thumbImageSrc = await createThumbnail(newEntry.imageSrc);
-        const thumbMapSrc = newEntry.mapaDistribucionSrc ? await createThumbnail(newEntry.mapaDistribucionSrc) : undefined;
-        
-        const finalEntry = {
-            ...newEntry,
-            imageSrc: thumbImageSrc,
-            mapaDistribucionSrc: thumbMapSrc,
-        };
-
+        const finalEntry = await withThumbnails(newEntry);
         setCurrentResult(finalEntry);
-        saveHistory([finalEntry, ...history].slice(0, 30));
+        updateHistory(current => [finalEntry, ...current].slice(0, 30));
+        attachToTrackedPlant(finalEntry);
     } catch (error) {
         console.error("Error creating thumbnails for history:", error);
         // Fallback to saving the original entry
         setCurrentResult(newEntry);
-        saveHistory([newEntry, ...history].slice(0, 30));
+        updateHistory(current => [newEntry, ...current].slice(0, 30));
+        attachToTrackedPlant(newEntry);
     }
   };
 
-  const getLocation = (): Promise<{ latitude: number; longitude: number } | null> => new Promise((resolve) => { if (!navigator.geolocation) { resolve(null); } navigator.geolocation.getCurrentPosition( (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }), () => resolve(null), { timeout: 10000 } ); });
+  const attachToTrackedPlant = (entry: HistoryEntry) => {
+    if (!entry.trackedPlantId) return;
+    updateTrackedPlantList(current => current.map(plant => plant.id === entry.trackedPlantId ? attachEntry(plant, entry) : plant));
+    setFollowUpPlantId(null);
+  };
+
+  const getLocation = (): Promise<CaptureLocation | null> => new Promise((resolve) => { if (!navigator.geolocation) { resolve(null); } navigator.geolocation.getCurrentPosition( (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude, accuracy: position.coords.accuracy, altitude: position.coords.altitude ?? undefined, source: 'device' }), () => resolve(null), { timeout: 10000 } ); });
   
+  // Identifies or diagnoses a set of photos, whether just taken or waiting in the offline queue.
+  const runAnalysis = async (analysis: PendingAnalysis, options: { signal?: AbortSignal; onPartialPlantInfo?: (partial: Partial<PlantInfo>) => void } = {}): Promise<HistoryEntry> => {
+    const specimenImages = toSpecimenImages(analysis.photos);
+    const details = { timestamp: analysis.createdAt, imageSrc: analysis.photos[0].src, location: analysis.location, exif: analysis.exif, capturedAt: analysis.capturedAt, trackedPlantId: analysis.trackedPlantId };
+    if (analysis.type === 'plant') {
+        const { plantInfo, sources, candidates, mapaDistribucionSrc, mapFailure, promptVersion, photoHash } = await identifyPlantFromImage(apiKeys, specimenImages, analysis.location ?? null, language, { ...options, safetyProfile });
+        return { id: `${Date.now()}-${plantInfo.nombreCientifico}`, type: 'plant', photos: analysis.photos.length > 1 ? analysis.photos : undefined, plantInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined, mapFailure, candidates, promptVersion, photoHash, safetyProfileKey, ...details };
+    }
+    const { base64: base64Image, mimeType } = specimenImages[0];
+    const { diseaseInfo, sources, promptVersion } = await diagnosePlantDiseaseFromImage(apiKeys, base64Image, mimeType, language, { signal: options.signal });
+    return { id: `${Date.now()}-${diseaseInfo.nombreEnfermedad}`, type: 'disease', diseaseInfo, sources, promptVersion, ...details };
+  };
+
+  // Without a connection the photos wait in the queue instead of failing; see the effect below.
+  const queueAnalysis = (analysis: PendingAnalysis) => {
+    updatePendingAnalysisList(current => [...current, analysis]);
+    setFollowUpPlantId(null);
+    setNotification(t('analysisQueued'));
+  };
+
   const processImage = async () => {
-    if (!image) return;
+    if (images.length === 0) return;
     setIsLoading(true); setIsTextSearching(false); setError(null); setCurrentResult(null);
-    if (!effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    if (requiresApiKey && !effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    const request = startRequest();
+    let analysis: PendingAnalysis | null = null;
     try {
-        const base64Image = await fileToBase64(image.file);
-        const imageSrcDataUrl = await blobUrlToDataUrl(image.src);
-        if (mainMode === 'identify') {
-            const location = await getLocation();
-            const { plantInfo, sources, mapaDistribucionSrc } = await identifyPlantFromImage(effectiveApiKey, base64Image, image.mimeType, location, language);
-            await handleProcessResult({ id: `${Date.now()}-${plantInfo.nombreCientifico}`, timestamp: Date.now(), imageSrc: imageSrcDataUrl, type: 'plant', plantInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined });
-        } else {
-            const { diseaseInfo, sources } = await diagnosePlantDiseaseFromImage(effectiveApiKey, base64Image, image.mimeType, language);
-            await handleProcessResult({ id: `${Date.now()}-${diseaseInfo.nombreEnfermedad}`, timestamp: Date.now(), imageSrc: imageSrcDataUrl, type: 'disease', diseaseInfo, sources });
-        }
+        const photos: SpecimenPhoto[] = await Promise.all(images.map(async (img) => ({ src: await blobUrlToDataUrl(img.src), organ: img.organ })));
+        const exifs = await Promise.all(images.map(img => readExif(img.file)));
+        const location = locationFromExif(exifs) ?? await getLocation();
+        analysis = createPendingAnalysis(mainMode === 'identify' ? 'plant' : 'disease', photos, { location: location ?? undefined, exif: exifs[0] ?? undefined, capturedAt: exifs.find(exif => exif?.capturedAt)?.capturedAt, trackedPlantId: followUpPlantId ?? undefined });
+        if (isOffline()) { queueAnalysis(analysis); return; }
+        const onPartialPlantInfo = (partial: Partial<PlantInfo>) => { if (isCurrentRequest(request)) setStreamingProfile({ imageSrc: photos[0].src, plantInfo: partial }); };
+        const entry = await runAnalysis(analysis, { signal: request.signal, onPartialPlantInfo });
+        if (!isCurrentRequest(request)) return;
+        await handleProcessResult(entry);
     } catch (err: any) {
-        const errorMessage = err.message || t('unexpectedError'); setError(errorMessage);
-        if (errorMessage.includes('429') || errorMessage.toLowerCase().includes('resource has been exhausted') || errorMessage.toLowerCase().includes('api key not valid')) { setIsApiKeyModalOpen(true); }
-    } finally { setIsLoading(false); setImage(null); }
+        if (!isCurrentRequest(request)) return;
+        if (analysis && isConnectionError(err)) { queueAnalysis(analysis); return; }
+        const errorMessage = describeRequestError(err); setError(errorMessage);
+        if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally { if (finishRequest(request)) { setIsLoading(false); setImages([]); setStreamingProfile(null); } }
 };
 
   const handleTextSearch = async (query: string) => {
@@ -1067,9 +1502,12 @@ function App() {
     setMainMode('identify');
     setIsLoading(true); 
     setIsTextSearching(true);
-    if (!effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    if (requiresApiKey && !effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    const request = startRequest();
     try {
-        const { plantInfo, sources, imageSrc, mapaDistribucionSrc, imageGenerationFailed } = await identifyPlantFromText(effectiveApiKey, query, language);
+        const onPartialPlantInfo = (partial: Partial<PlantInfo>) => { if (isCurrentRequest(request)) setStreamingProfile({ imageSrc: createPlaceholderImage(partial.nombreComun || query), plantInfo: partial }); };
+        const { plantInfo, sources, candidates, imageSrc, mapaDistribucionSrc, mapFailure, imageGenerationFailed, promptVersion } = await identifyPlantFromText(apiKeys, query, language, { signal: request.signal, onPartialPlantInfo, safetyProfile });
+        if (!isCurrentRequest(request)) return;
         const finalImageSrc = imageSrc || createPlaceholderImage(plantInfo.nombreComun);
         await handleProcessResult({ 
             id: `${Date.now()}-${plantInfo.nombreCientifico}`, 
@@ -1079,13 +1517,18 @@ function App() {
             plantInfo, 
             sources, 
             mapaDistribucionSrc: mapaDistribucionSrc ?? undefined,
-            imageGenerationFailed: imageGenerationFailed
+            mapFailure,
+            imageGenerationFailed: imageGenerationFailed,
+            candidates,
+            promptVersion,
+            safetyProfileKey
         });
     } catch (err: any) {
-        const errorMessage = err.message || t('unexpectedError');
+        if (!isCurrentRequest(request)) return;
+        const errorMessage = describeRequestError(err);
         setError(errorMessage);
-        if (errorMessage.includes('429') || errorMessage.toLowerCase().includes('resource has been exhausted') || errorMessage.toLowerCase().includes('api key not valid')) { setIsApiKeyModalOpen(true); }
-    } finally { setIsLoading(false); setIsTextSearching(false); }
+        if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally { if (finishRequest(request)) { setIsLoading(false); setIsTextSearching(false); setStreamingProfile(null); } }
   };
   
   const handleRemedySearch = async (query: string, useGeo: boolean) => {
@@ -1093,39 +1536,305 @@ function App() {
     setMainMode('remedy');
     setIsLoading(true); 
     setRemedyQuery(query);
-    if (!effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    if (requiresApiKey && !effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    const request = startRequest();
     try {
         const location = useGeo ? await getLocation() : null;
-        const suggestions = await findPlantsByUsage(effectiveApiKey, query, location, language);
+        const suggestions = await findPlantsByUsage(apiKeys, query, location, language, { signal: request.signal, safetyProfile });
+        if (!isCurrentRequest(request)) return;
         setSuggestedPlants(suggestions);
     } catch (err: any) {
-        const errorMessage = err.message || t('unexpectedError'); setError(errorMessage);
-        if (errorMessage.includes('429') || errorMessage.toLowerCase().includes('api key not valid')) { setIsApiKeyModalOpen(true); }
-    } finally { setIsLoading(false); }
+        if (!isCurrentRequest(request)) return;
+        const errorMessage = describeRequestError(err); setError(errorMessage);
+        if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally { if (finishRequest(request)) setIsLoading(false); }
   };
   
+  // Results were found against the previous list, so they are dropped whenever it changes.
+  const handleMedicationsChange = (newMedications: string[]) => {
+    setMedications(newMedications);
+    saveMedications(newMedications);
+    setPlantInteractions({});
+  };
+
+  const handleCheckInteractions = async (plants: string[]) => {
+    handleReset();
+    setMainMode('interactions');
+    setIsLoading(true);
+    if (requiresApiKey && !effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    const request = startRequest();
+    try {
+        const report = await checkInteractions(apiKeys, medications, plants, language, { signal: request.signal });
+        if (!isCurrentRequest(request)) return;
+        setInteractionCheck({ report, plants, medications });
+        // Herbarium plants that were part of the check show their conflicts on their own profile too.
+        const checked = herbariumPlants.filter(plantInfo => plants.includes(plantLabel(plantInfo)));
+        setPlantInteractions(prev => ({ ...prev, ...Object.fromEntries(checked.map(plantInfo => [plantKey(plantInfo), interactionsForPlant(report.interacciones, plantInfo)])) }));
+    } catch (err: any) {
+        if (!isCurrentRequest(request)) return;
+        setError(describeRequestError(err));
+        if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally { if (finishRequest(request)) setIsLoading(false); }
+  };
+
+  // Checks the plant on screen against the saved medications, for the warning in its preparations.
+  const handleCheckPlantInteractions = async () => {
+    if (!currentResult || !currentResult.plantInfo || medications.length === 0) return;
+    const { plantInfo } = currentResult;
+    setIsCheckingInteractions(true);
+    setError(null);
+    const request = startEntryRequest();
+    try {
+        const report = await checkInteractions(apiKeys, medications, [plantLabel(plantInfo)], language, { signal: request.signal });
+        if (!isCurrentEntryRequest(request)) return;
+        setPlantInteractions(prev => ({ ...prev, [plantKey(plantInfo)]: report.interacciones }));
+    } catch (err: any) {
+        if (!isCurrentEntryRequest(request)) return;
+        setError(describeRequestError(err));
+    } finally {
+        finishEntryRequest(request);
+        setIsCheckingInteractions(false);
+    }
+  };
+
   const handleGenerateCareGuide = async () => {
     if (!currentResult || !currentResult.plantInfo) return;
     setIsGeneratingCareGuide(true);
     setError(null);
+    const request = startEntryRequest();
     try {
-        const careGuide = await generateCareGuide(effectiveApiKey, currentResult.plantInfo, language);
+        const { careGuide, promptVersion } = await generateCareGuide(apiKeys, currentResult.plantInfo, language, { signal: request.signal });
+        if (!isCurrentEntryRequest(request)) return;
         triggerHapticFeedback([100, 30, 100]); // Success feedback
-        const updatedResult = { ...currentResult, careGuide };
-        setCurrentResult(updatedResult);
-        // Update history and herbarium with the new data
-        const newHistory = history.map(h => h.id === updatedResult.id ? updatedResult : h);
-        saveHistory(newHistory);
-        const newHerbarium = herbarium.map(h => h.id === updatedResult.id ? updatedResult : h);
-        saveHerbarium(newHerbarium);
+        saveEntryChange(currentResult.id, entry => ({ ...entry, careGuide, careGuidePromptVersion: promptVersion, translations: discardTranslations(entry.translations, 'careGuide') }));
     } catch (err: any) {
-        setError(err.message || t('unexpectedError'));
+        if (!isCurrentEntryRequest(request)) return;
+        setError(describeRequestError(err));
     } finally {
+        finishEntryRequest(request);
         setIsGeneratingCareGuide(false);
     }
   };
 
-  const handleViewHistoryItem = (item: HistoryEntry) => { setCurrentResult(item); setIsHistoryOpen(false); setIsHerbariumOpen(false); setView('main'); };
+  // Swaps the current identification for one of its alternative candidates. The entry keeps its id,
+  // photo and candidate list, so the user can switch back and forth between lookalikes.
+  const handleSelectCandidate = async (candidate: IdentificationCandidate) => {
+    if (!currentResult || switchingCandidate) return;
+    setSwitchingCandidate(candidate.nombreCientifico);
+    setError(null);
+    const request = startEntryRequest();
+    try {
+        const { plantInfo, sources, mapaDistribucionSrc, mapFailure, promptVersion } = await identifyPlantFromText(apiKeys, candidate.nombreCientifico, language, { signal: request.signal, safetyProfile });
+        if (!isCurrentEntryRequest(request)) return;
+        triggerHapticFeedback([100, 30, 100]);
+        const thumbMapSrc = mapaDistribucionSrc ? await createThumbnail(mapaDistribucionSrc) : undefined;
+        if (!isCurrentEntryRequest(request)) return;
+        saveEntryChange(currentResult.id, entry => ({ ...entry, plantInfo, sources, mapaDistribucionSrc: thumbMapSrc, mapFailure, promptVersion, safetyProfileKey, careGuide: undefined, careGuidePromptVersion: undefined, translations: undefined }));
+    } catch (err: any) {
+        if (!isCurrentEntryRequest(request)) return;
+        setError(describeRequestError(err));
+    } finally {
+        finishEntryRequest(request);
+        setSwitchingCandidate(null);
+    }
+  };
+
+  // Answers come from the response cache when possible; this asks the model again and overwrites
+  // the cached copy. A photo identification runs again on its photos, a text search on the name.
+  // The entry keeps its id, photos, observation data and care guide.
+  const handleRefreshResult = async () => {
+    if (!currentResult?.plantInfo || isRefreshingResult) return;
+    setIsRefreshingResult(true);
+    setError(null);
+    const request = startEntryRequest();
+    const options = { signal: request.signal, refresh: true, safetyProfile };
+    try {
+        const { plantInfo, sources, mapaDistribucionSrc, mapFailure, promptVersion } = isPhotoEntry(currentResult)
+            ? await identifyPlantFromImage(apiKeys, toSpecimenImages(currentResult.photos ?? [{ src: currentResult.imageSrc, organ: 'whole' }]), currentResult.location ?? null, language, { ...options, photoHash: currentResult.photoHash })
+            : await identifyPlantFromText(apiKeys, currentResult.plantInfo.nombreCientifico, language, options);
+        if (!isCurrentEntryRequest(request)) return;
+        triggerHapticFeedback([100, 30, 100]);
+        const thumbMapSrc = mapaDistribucionSrc ? await createThumbnail(mapaDistribucionSrc) : undefined;
+        if (!isCurrentEntryRequest(request)) return;
+        saveEntryChange(currentResult.id, entry => ({ ...entry, plantInfo, sources, mapaDistribucionSrc: thumbMapSrc, mapFailure, promptVersion, safetyProfileKey, translations: discardTranslations(entry.translations, 'plantInfo') }));
+    } catch (err: any) {
+        if (!isCurrentEntryRequest(request)) return;
+        setError(describeRequestError(err));
+        if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally {
+        finishEntryRequest(request);
+        setIsRefreshingResult(false);
+    }
+  };
+
+  // Both copies of the entry, history and herbarium, get the new translations; their own content is left as it is.
+  const storeTranslations = (entries: HistoryEntry[], translated: HistoryEntry) =>
+    entries.map(entry => entry.id === translated.id ? { ...entry, translations: translated.translations } : entry);
+
+  const handleTranslateEntry = async () => {
+    if (!currentResult || isTranslatingEntry) return;
+    setIsTranslatingEntry(true);
+    setError(null);
+    const request = startEntryRequest();
+    try {
+        const translated = await translateEntry(apiKeys, currentResult, language, { signal: request.signal });
+        if (!isCurrentEntryRequest(request)) return;
+        triggerHapticFeedback([100, 30, 100]);
+        setShowOriginal(false);
+        saveEntryChange(translated.id, entry => ({ ...entry, translations: translated.translations }));
+    } catch (err: any) {
+        if (!isCurrentEntryRequest(request)) return;
+        setError(describeRequestError(err));
+        if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally {
+        finishEntryRequest(request);
+        setIsTranslatingEntry(false);
+    }
+  };
+
+  // Translates the whole herbarium into the current language, one entry at a time. Each translation is
+  // saved as it arrives, so cancelling or running out of quota keeps the ones already done.
+  const handleTranslateHerbarium = async () => {
+    if (herbariumTranslationRef.current) return;
+    const controller = new AbortController();
+    herbariumTranslationRef.current = controller;
+    setHerbariumTranslation({ done: 0, total: herbarium.filter(entry => needsTranslation(entry, language)).length });
+    try {
+        await translateEntries(apiKeys, herbarium, language, (translated, done, total) => {
+            // A batch can take minutes: each translation joins the collections as they are by then.
+            updateHerbarium(current => storeTranslations(current, translated));
+            updateHistory(current => storeTranslations(current, translated));
+            updateTrackedPlantList(current => current.map(plant => ({ ...plant, entries: storeTranslations(plant.entries, translated) })));
+            setCurrentResult(current => current?.id === translated.id ? { ...current, translations: translated.translations } : current);
+            setHerbariumTranslation({ done, total });
+        }, { signal: controller.signal });
+    } catch (err: any) {
+        if (!isCancellation(err)) {
+            console.error("Failed to translate the herbarium.", err);
+            alert(describeRequestError(err));
+        }
+    } finally {
+        herbariumTranslationRef.current = null;
+        setHerbariumTranslation(null);
+    }
+  };
+
+  useEffect(() => setShowOriginal(false), [currentResult?.id]);
+  const displayedResult = useMemo(() => currentResult && !showOriginal ? localizeEntry(currentResult, language) : currentResult, [currentResult, showOriginal, language]);
+
+  const handleCancelHerbariumTranslation = () => herbariumTranslationRef.current?.abort(new RequestCancelledError());
+
+  const handleViewHistoryItem = (item: HistoryEntry) => { cancelActiveRequest(); setCurrentResult(item); setIsHistoryOpen(false); setIsHerbariumOpen(false); setIsMapOpen(false); setIsMyPlantsOpen(false); setView('main'); };
+
+  // --- MY PLANTS ---
+
+  // Tags every copy of the current entry with the plant and adds it to the plant's timeline.
+  const addCurrentResultToPlant = (plant: TrackedPlant, plants: TrackedPlant[]) => {
+    if (!currentResult) return;
+    const tagged = { ...currentResult, trackedPlantId: plant.id };
+    setCurrentResult(tagged);
+    saveHistory(history.map(h => h.id === tagged.id ? { ...h, trackedPlantId: plant.id } : h));
+    saveHerbarium(herbarium.map(h => h.id === tagged.id ? { ...h, trackedPlantId: plant.id } : h));
+    const withoutEntry = plants.map(other => other.entries.some(entry => entry.id === tagged.id) ? { ...other, entries: other.entries.filter(entry => entry.id !== tagged.id) } : other);
+    saveTrackedPlantList(withoutEntry.map(other => other.id === plant.id ? attachEntry(other, tagged) : other));
+    setNotification(t('addedToPlant', { name: plant.name }));
+    triggerHapticFeedback();
+  };
+  const handleAddToPlant = (plantId: string) => {
+    const plant = trackedPlants.find(other => other.id === plantId);
+    if (plant) addCurrentResultToPlant(plant, trackedPlants);
+  };
+  const handleAddToNewPlant = (name: string) => {
+    const plant = createTrackedPlant(name);
+    addCurrentResultToPlant(plant, [...trackedPlants, plant]);
+  };
+  const handleCreatePlant = (name: string) => updateTrackedPlantList(current => [...current, createTrackedPlant(name)]);
+  const handleUpdatePlant = (updated: TrackedPlant) => updateTrackedPlantList(current => current.map(plant => plant.id === updated.id ? updated : plant));
+  const handleDeletePlant = (plantId: string) => updateTrackedPlantList(current => current.filter(plant => plant.id !== plantId));
+  const handleAddPlantPhoto = async (plantId: string, file: File) => {
+    try {
+        const src = await createThumbnail(`data:${file.type};base64,${await fileToBase64(file)}`, 800);
+        const takenAt = (await readExif(file))?.capturedAt ?? Date.now();
+        updateTrackedPlantList(current => current.map(plant => plant.id === plantId ? addPlantPhoto(plant, src, takenAt) : plant));
+    } catch (err: any) {
+        console.error("Could not add the photo to the plant.", err);
+        alert(t('unexpectedError'));
+    }
+  };
+  const handleRecordTreatment = (kind: TreatmentKind, index: number, description: string) => {
+    if (!currentResult?.trackedPlantId) return;
+    updateTrackedPlantList(current => current.map(plant => plant.id === currentResult.trackedPlantId ? recordTreatment(plant, currentResult, kind, index, description) : plant));
+    triggerHapticFeedback();
+  };
+  // A new photo analysis for the plant, diagnosis first since that is what follow-ups are for.
+  const handleStartFollowUp = (plantId: string) => {
+    setIsMyPlantsOpen(false);
+    handleReset();
+    setMainMode('diagnose');
+    setFollowUpPlantId(plantId);
+  };
+
+  // The next round of every scheduled task goes to the service worker, which notifies it once due.
+  useEffect(() => {
+    if (!careRemindersEnabled) return;
+    const reminders: CareReminder[] = trackedPlants.flatMap(plant => getCareSchedule(plant).map(scheduled => ({
+      id: `${plant.id}-${scheduled.task}-${scheduled.dueAt}`,
+      title: plant.name,
+      body: t(`careReminder_${scheduled.task}`, { name: plant.name }),
+      dueAt: scheduled.dueAt,
+    })));
+    publishReminders(reminders).catch(e => console.error("Failed to publish care reminders", e));
+    return startReminderChecks();
+  }, [trackedPlants, careRemindersEnabled, language]);
+
+  const handleToggleCareReminders = async () => {
+    if (careRemindersEnabled) {
+      setCareRemindersEnabled(false);
+      disableReminders().catch(e => console.error("Failed to disable care reminders", e));
+      return;
+    }
+    const enabled = await enableReminders();
+    setCareRemindersEnabled(enabled);
+    if (!enabled) setNotification(t('careRemindersDenied'));
+  };
+  // Queued analyses run one at a time, oldest first, whenever the app is online. Results go to the
+  // history (and their tracked plant) without replacing what is on screen.
+  useEffect(() => {
+    const next = nextPendingAnalysis(pendingAnalyses);
+    if (!isStorageLoaded || !isOnline || runningAnalysisId || !next || (requiresApiKey && !effectiveApiKey)) return;
+    setRunningAnalysisId(next.id);
+    runAnalysis(next)
+      .then(async (entry) => {
+        const finalEntry = await withThumbnails(entry).catch(() => entry);
+        updateHistory(current => [finalEntry, ...current].slice(0, 30));
+        if (finalEntry.trackedPlantId) updateTrackedPlantList(current => current.map(plant => plant.id === finalEntry.trackedPlantId ? attachEntry(plant, finalEntry) : plant));
+        updatePendingAnalysisList(current => current.filter(pending => pending.id !== next.id));
+        setNotification(t('queuedAnalysisDone', { name: finalEntry.plantInfo?.nombreComun || finalEntry.diseaseInfo?.nombreEnfermedad || '' }));
+      })
+      .catch((err) => {
+        // Still no connection, whatever the browser says: wait for the next "online" event or a retry.
+        if (isConnectionError(err)) setIsOnline(false);
+        else updatePendingAnalysisList(current => current.map(pending => pending.id === next.id ? { ...pending, error: describeRequestError(err) } : pending));
+      })
+      .finally(() => setRunningAnalysisId(null));
+  }, [isStorageLoaded, isOnline, pendingAnalyses, runningAnalysisId, effectiveApiKey]);
+
+  const handleRetryPendingAnalysis = (id: string) => {
+    savePendingAnalysisList(pendingAnalyses.map(pending => pending.id === id ? { ...pending, error: undefined } : pending));
+    setIsOnline(!isOffline());
+  };
+  const handleDiscardPendingAnalysis = (id: string) => savePendingAnalysisList(pendingAnalyses.filter(pending => pending.id !== id));
+
+  const careReminders: CareRemindersProps = { isSupported: areRemindersSupported(), isEnabled: careRemindersEnabled, onToggle: handleToggleCareReminders };
+  const trackingProps: TrackingProps = { plants: trackedPlants, onAddToPlant: handleAddToPlant, onAddToNewPlant: handleAddToNewPlant };
+  const followUpPlant = trackedPlants.find(plant => plant.id === followUpPlantId);
+
+  // Herbarium copies win over history ones: they may carry a care guide or a corrected identification.
+  const mappedObservations = useMemo(() => {
+    const byId = new Map<string, HistoryEntry>();
+    [...history, ...herbarium].forEach(entry => byId.set(entry.id, entry));
+    return Array.from(byId.values());
+  }, [history, herbarium]);
   
   const handleToggleHerbarium = async () => {
       if (!currentResult) return;
@@ -1155,39 +1864,156 @@ function App() {
   };
 
   const handleRemoveFromHerbarium = (id: string) => saveHerbarium(herbarium.filter(entry => entry.id !== id));
-  const handleCloseHerbarium = () => { setIsHerbariumOpen(false); setHerbariumNameFilter(''); setHerbariumUseFilter(''); setHerbariumSortOrder('date-desc'); };
+  const closeHerbarium = () => { handleCancelHerbariumTranslation(); setIsHerbariumOpen(false); setHerbariumNameFilter(''); setHerbariumUseFilter(''); setHerbariumSortOrder('date-desc'); };
+  // Stepping back closes it through the route change; opened from a link, its page is replaced instead.
+  const handleCloseHerbarium = () => {
+    if (currentRoute().name === 'herbarium') {
+      if (stepBack()) return;
+      navigate(baseRoute, { replace: true });
+    }
+    closeHerbarium();
+  };
+  // A plant to compare found by name; unlike a text search, it is not kept in the history.
+  const lookUpPlant = async (query: string, signal: AbortSignal): Promise<HistoryEntry> => {
+    const { plantInfo, sources, imageSrc, mapaDistribucionSrc } = await identifyPlantFromText(apiKeys, query, language, { signal });
+    return { id: `${Date.now()}-${plantInfo.nombreCientifico}`, timestamp: Date.now(), imageSrc: imageSrc || createPlaceholderImage(plantInfo.nombreComun), type: 'plant', plantInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined };
+  };
   const handleStartCompare = (plantEntry: HistoryEntry) => { setComparisonPlants({ plantA: plantEntry, plantB: null }); setComparisonResult(null); setCurrentResult(null); setError(null); setView('comparator'); setIsHerbariumOpen(false); };
+  // Filters and sorting read the entries as they are shown, translated into the current language when possible.
   const filteredAndSortedHerbarium = useMemo(() => {
-    return [...herbarium].filter(item => (item.plantInfo?.nombreComun || item.diseaseInfo?.nombreEnfermedad || '').toLowerCase().includes(herbariumNameFilter.toLowerCase()))
-      .filter(item => !herbariumUseFilter || (item.type === 'plant' && item.plantInfo?.usosMedicinales.some(uso => uso.toLowerCase().includes(herbariumUseFilter.toLowerCase()))))
+    const shown = (item: HistoryEntry) => localizeEntry(item, language);
+    return [...herbarium].filter(item => (shown(item).plantInfo?.nombreComun || shown(item).diseaseInfo?.nombreEnfermedad || '').toLowerCase().includes(herbariumNameFilter.toLowerCase()))
+      .filter(item => !herbariumUseFilter || (item.type === 'plant' && shown(item).plantInfo?.usosMedicinales.some(uso => uso.toLowerCase().includes(herbariumUseFilter.toLowerCase()))))
       .sort((a, b) => {
-        const nameA = a.plantInfo?.nombreComun || a.diseaseInfo?.nombreEnfermedad || ''; const nameB = b.plantInfo?.nombreComun || b.diseaseInfo?.nombreEnfermedad || '';
+        const nameA = shown(a).plantInfo?.nombreComun || shown(a).diseaseInfo?.nombreEnfermedad || ''; const nameB = shown(b).plantInfo?.nombreComun || shown(b).diseaseInfo?.nombreEnfermedad || '';
         switch (herbariumSortOrder) { case 'name-asc': return nameA.localeCompare(nameB); case 'name-desc': return nameB.localeCompare(nameA); case 'date-asc': return a.timestamp - b.timestamp; default: return b.timestamp - a.timestamp; }
       });
-  }, [herbarium, herbariumSortOrder, herbariumNameFilter, herbariumUseFilter]);
+  }, [herbarium, herbariumSortOrder, herbariumNameFilter, herbariumUseFilter, language]);
+  const pendingHerbariumTranslations = useMemo(() => herbarium.filter(entry => needsTranslation(entry, language)).length, [herbarium, language]);
+  // Saved plants offered by the interaction checker, once each.
+  const herbariumPlants = useMemo(() => {
+    const plants = herbarium.filter(entry => entry.type === 'plant' && entry.plantInfo).map(entry => localizeEntry(entry, language).plantInfo!);
+    return plants.filter((plantInfo, index) => plants.findIndex(other => plantKey(other) === plantKey(plantInfo)) === index);
+  }, [herbarium, language]);
 
   const handleExportHerbarium = useCallback(() => {
     if (filteredAndSortedHerbarium.length === 0) { alert("The herbarium is empty or there are no results for the applied filters."); return; }
-    const exportData = filteredAndSortedHerbarium.map(entry => {
-        let summary = '';
-        if (entry.type === 'plant' && entry.plantInfo) {
-            summary = `Uses: ${entry.plantInfo.usosMedicinales.join(', ') || 'N/A'}. Toxicity: ${entry.plantInfo.toxicidad.descripcion || 'N/A'}`;
-        } else if (entry.type === 'disease' && entry.diseaseInfo) {
-            summary = `Symptoms: ${entry.diseaseInfo.sintomas.join(', ') || 'N/A'}`;
-        }
-        return { 
-            type: entry.type, 
-            name: entry.plantInfo?.nombreComun || entry.diseaseInfo?.nombreEnfermedad, 
-            scientificName: entry.plantInfo?.nombreCientifico || 'N/A', 
-            savedDate: new Date(entry.timestamp).toISOString(), 
-            summary: summary
-        };
-    });
-    const jsonString = JSON.stringify(exportData, null, 2); const blob = new Blob([jsonString], { type: 'application/json' }); const url = URL.createObjectURL(blob); const link = document.createElement('a'); link.href = url; link.download = `herbarium_export_${new Date().toISOString().split('T')[0]}.json`; document.body.appendChild(link); link.click(); document.body.removeChild(link); URL.revokeObjectURL(url);
+    downloadBlob(createHerbariumArchive(filteredAndSortedHerbarium), `herbarium_export_${new Date().toISOString().split('T')[0]}.herbario.json`);
   }, [filteredAndSortedHerbarium]);
 
+  const handleExportDarwinCore = useCallback(() => {
+    if (getOccurrenceEntries(filteredAndSortedHerbarium).length === 0) { alert(t('darwinCoreNoPlants')); return; }
+    downloadBlob(createDarwinCoreArchive(filteredAndSortedHerbarium), `herbarium_dwca_${new Date().toISOString().split('T')[0]}.zip`);
+  }, [filteredAndSortedHerbarium, t]);
+
+  const handleImportHerbarium = async (file: File) => {
+    try {
+        const incoming = parseHerbariumArchive(await file.text());
+        const { entries, added, updated } = mergeEntries(herbarium, incoming);
+        saveHerbarium(entries);
+        alert(t('herbariumImportResult', { added, updated }));
+    } catch (err: any) {
+        console.error("Failed to import herbarium archive.", err);
+        alert(err.message || t('unexpectedError'));
+    }
+  };
+
+  // --- ROUTING ---
+  // The address follows what is on screen (see services/router.ts), and the back button or a link
+  // brings the screen back to an address.
+  const baseRoute: Route = view === 'comparator' && comparisonPlants.plantA?.plantInfo
+    ? { name: 'compare', a: comparisonPlants.plantA.plantInfo.nombreCientifico, b: comparisonPlants.plantB?.plantInfo?.nombreCientifico }
+    : currentResult ? { name: 'entry', id: currentResult.id }
+    : mainMode === 'remedy' ? { name: 'remedy', query: remedyQuery || undefined }
+    : { name: mainMode };
+  const route: Route = isHerbariumOpen ? { name: 'herbarium', filter: herbariumNameFilter || undefined } : baseRoute;
+  const routePath = formatRoute(route);
+  const routeSyncRef = useRef({ isReady: false, applying: 0, replaceNext: true });
+  const [routeSettled, setRouteSettled] = useState(0);
+
+  // Left as it is while a request runs or its error shows, so a link that failed can be reloaded.
+  // Applying an address may correct it in place; the herbarium filter, too, keeps one page.
+  useEffect(() => {
+    const sync = routeSyncRef.current;
+    if (!sync.isReady || sync.applying > 0 || isLoading || error) return;
+    const replace = sync.replaceNext || (route.name === 'herbarium' && currentRoute().name === 'herbarium');
+    sync.replaceNext = false;
+    navigate(route, { replace });
+  }, [routePath, routeSettled, isLoading, error]);
+
+  const findSavedEntry = (id: string) => [...history, ...herbarium, ...trackedPlants.flatMap(plant => plant.entries)].find(entry => entry.id === id);
+  const findSavedPlant = (name: string) => [...herbarium, ...history].find(entry => entry.type === 'plant' && entry.plantInfo && normalizeQuery(entry.plantInfo.nombreCientifico) === normalizeQuery(name));
+
+  // Each plant from the herbarium or the history when it is there, else looked up; both make the comparison.
+  const handleOpenComparison = async (nameA: string, nameB?: string) => {
+    handleReset();
+    setIsLoading(true);
+    if (requiresApiKey && !effectiveApiKey) { setError(t('apiKeyError')); setIsApiKeyModalOpen(true); setIsLoading(false); return; }
+    const request = startRequest();
+    try {
+      const plantA = findSavedPlant(nameA) ?? await lookUpPlant(nameA, request.signal);
+      const plantB = nameB ? findSavedPlant(nameB) ?? await lookUpPlant(nameB, request.signal) : null;
+      if (!isCurrentRequest(request)) return;
+      setComparisonPlants({ plantA, plantB });
+      setView('comparator');
+      if (!plantB) return;
+      const result = await comparePlants(apiKeys, plantA.plantInfo!, plantB.plantInfo!, language, { signal: request.signal });
+      if (!isCurrentRequest(request)) return;
+      setComparisonResult(result);
+    } catch (err: any) {
+      if (!isCurrentRequest(request)) return;
+      setError(describeRequestError(err));
+      if (needsApiKeyAttention(err)) { setIsApiKeyModalOpen(true); }
+    } finally { if (finishRequest(request)) setIsLoading(false); }
+  };
+
+  const applyRoute = async (next: Route) => {
+    // Only the herbarium opened or closed over what is shown.
+    if (formatRoute(next) === formatRoute(baseRoute)) { if (isHerbariumOpen) closeHerbarium(); return; }
+    if (next.name === 'herbarium') { setIsHerbariumOpen(true); setHerbariumNameFilter(next.filter || ''); return; }
+    if (isHerbariumOpen) closeHerbarium();
+    switch (next.name) {
+      case 'entry': {
+        const entry = findSavedEntry(next.id);
+        if (entry) handleViewHistoryItem(entry);
+        else { handleReset(); setError(t('entryNotFound')); }
+        break;
+      }
+      case 'identify': if (next.query) await handleTextSearch(next.query); else handleReset(); break;
+      case 'remedy': if (next.query) await handleRemedySearch(next.query, false); else { handleReset(); setMainMode('remedy'); } break;
+      case 'compare': await handleOpenComparison(next.a, next.b); break;
+      default: handleReset(); setMainMode(next.name);
+    }
+  };
+
+  const handleRouteChange = async (next: Route) => {
+    const sync = routeSyncRef.current;
+    sync.applying++;
+    try { await applyRoute(next); } finally { sync.applying--; sync.replaceNext = true; setRouteSettled(count => count + 1); }
+  };
+  const routeChangeRef = useRef(handleRouteChange);
+  routeChangeRef.current = handleRouteChange;
+
+  // The address the app was opened at may point to a saved entry, so it waits for them.
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    routeSyncRef.current.isReady = true;
+    routeChangeRef.current(currentRoute());
+    return onRouteChange(next => routeChangeRef.current(next));
+  }, [isStorageLoaded]);
+
     const renderMainView = () => {
-        if (isLoading) return <Loader message={t(isTextSearching ? 'textSearchLoading' : 'analyzing')} subMessage={t(isTextSearching ? 'textSearchLoadingSub' : 'loadingMessage')} />;
+        if (isLoading && streamingProfile) return (
+            <div className="w-full flex flex-col items-center">
+                <div className="flex items-center gap-3 px-4 py-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-full shadow">
+                    <span className="w-4 h-4 border-2 border-t-transparent border-green-600 dark:border-emerald-500 rounded-full animate-spin"></span>
+                    <span className="text-sm font-semibold text-green-800 dark:text-emerald-200">{t('streamingProfile')}</span>
+                    <button onClick={() => { handleCancelRequest(); triggerHapticFeedback(); }} className="text-sm font-semibold text-gray-600 dark:text-slate-300 hover:underline">{t('cancel')}</button>
+                </div>
+                <ResultCard result={{ id: 'streaming', timestamp: Date.now(), imageSrc: streamingProfile.imageSrc, type: 'plant', plantInfo: streamingProfile.plantInfo as PlantInfo, sources: [] }} isStreaming onReset={handleReset} isInHerbarium={false} onToggleHerbarium={() => {}} onGenerateCareGuide={() => {}} isGeneratingCareGuide={false} />
+            </div>
+        );
+        if (isLoading) return <Loader message={t(isTextSearching ? 'textSearchLoading' : 'analyzing')} subMessage={t(isTextSearching ? 'textSearchLoadingSub' : 'loadingMessage')} onCancel={handleCancelRequest} />;
         if (error) return (
         <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md w-full">
             <Icon name="cross" className="w-16 h-16 text-red-500 mx-auto mb-4" /><h3 className="text-xl font-bold text-red-800 dark:text-red-300 mb-2">{t('errorTitle')}</h3><p className="text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/50 p-3 rounded-lg">{error}</p>
@@ -1196,26 +2022,40 @@ function App() {
         );
         if (currentResult) {
             const isInHerbarium = herbarium.some(entry => entry.id === currentResult.id);
-            if (currentResult.type === 'plant' && currentResult.plantInfo) return <ResultCard result={currentResult} onReset={handleReset} isInHerbarium={isInHerbarium} onToggleHerbarium={handleToggleHerbarium} onStartCompare={() => handleStartCompare(currentResult)} onGenerateCareGuide={handleGenerateCareGuide} isGeneratingCareGuide={isGeneratingCareGuide} />;
-            if (currentResult.type === 'disease' && currentResult.diseaseInfo) return <DiseaseResultCard result={currentResult} onReset={handleReset} isInHerbarium={isInHerbarium} onToggleHerbarium={handleToggleHerbarium} />;
+            const translationNotice = <TranslationNotice entry={currentResult} showOriginal={showOriginal} onToggleOriginal={() => { setShowOriginal(!showOriginal); triggerHapticFeedback(); }} onTranslate={handleTranslateEntry} isTranslating={isTranslatingEntry} />;
+            if (currentResult.type === 'plant' && currentResult.plantInfo) return <div className="w-full flex flex-col items-center">{translationNotice}<ResultCard result={displayedResult!} onReset={handleReset} isInHerbarium={isInHerbarium} onToggleHerbarium={handleToggleHerbarium} onStartCompare={() => handleStartCompare(currentResult)} onGenerateCareGuide={handleGenerateCareGuide} isGeneratingCareGuide={isGeneratingCareGuide} onSelectCandidate={handleSelectCandidate} switchingCandidate={switchingCandidate} onRefresh={handleRefreshResult} isRefreshing={isRefreshingResult} medications={medications} interactions={plantInteractions[plantKey(currentResult.plantInfo)]} onCheckInteractions={handleCheckPlantInteractions} isCheckingInteractions={isCheckingInteractions} safetyProfile={safetyProfile} tracking={trackingProps} /></div>;
+            if (currentResult.type === 'disease' && currentResult.diseaseInfo) return <div className="w-full flex flex-col items-center">{translationNotice}<DiseaseResultCard result={displayedResult!} onReset={handleReset} isInHerbarium={isInHerbarium} onToggleHerbarium={handleToggleHerbarium} tracking={trackingProps} onRecordTreatment={handleRecordTreatment} /></div>;
         }
-        if (image) return (
-        <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md">
-            <img src={image.src} alt="Selected Plant" className="max-h-64 w-auto mx-auto rounded-lg shadow-md mb-6" /><h3 className="text-xl font-bold text-green-900 dark:text-emerald-200 mb-6">{t('readyToAnalyze')}</h3>
-            <div className="flex justify-center gap-4"><button onClick={() => { setImage(null); triggerHapticFeedback(); }} className="px-6 py-3 bg-white dark:bg-slate-700 text-gray-700 dark:text-slate-300 font-semibold rounded-lg shadow-md border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600">{t('changePhoto')}</button><button onClick={() => { processImage(); triggerHapticFeedback(); }} className="px-6 py-3 bg-green-600 dark:bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 dark:hover:bg-emerald-700">{t('analyze')}</button></div>
-        </div>
+        const followUpNotice = followUpPlant && (
+            <div className="w-full max-w-2xl mb-4 p-3 rounded-lg border border-green-200 dark:border-emerald-800/50 bg-white/80 dark:bg-slate-800/80 flex items-center gap-3 text-sm">
+                <Icon name="pot" className="w-5 h-5 text-green-700 dark:text-emerald-400 flex-shrink-0" />
+                <span className="flex-grow text-gray-700 dark:text-slate-300">{t('followUpNotice', { name: followUpPlant.name })}</span>
+                <button onClick={() => setFollowUpPlantId(null)} className="font-semibold text-gray-600 dark:text-slate-300 hover:underline">{t('cancel')}</button>
+            </div>
+        );
+        const offlineNotice = !isOnline && (
+            <div className="w-full max-w-2xl mb-4 p-3 rounded-lg border border-amber-200 dark:border-amber-800/50 bg-amber-50/90 dark:bg-slate-800/80 flex items-center gap-3 text-sm" role="status">
+                <Icon name="globe" className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                <span className="text-gray-700 dark:text-slate-300">{t('offlineNotice')}</span>
+            </div>
         );
+        if (images.length > 0) return <div className="w-full flex flex-col items-center">{offlineNotice}{followUpNotice}<PhotoSetEditor images={images} allowMultiple={mainMode === 'identify'} onAddFiles={handleAddImages} onOrganChange={handleImageOrganChange} onRemove={handleRemoveImage} onClear={() => setImages([])} onAnalyze={processImage} /></div>;
         if (suggestedPlants) return <SuggestedPlantsList suggestions={suggestedPlants} query={remedyQuery} onSelect={handleTextSearch} onReset={handleReset} />;
+        if (interactionCheck) return <InteractionReportView report={interactionCheck.report} plants={interactionCheck.plants} medications={interactionCheck.medications} onReset={handleReset} />;
         
         const showDiscovery = mainMode === 'discover';
 
         return (
         <div className="flex flex-col items-center gap-4">
-            {showDiscovery ? <DiscoveryView onSelectPlant={handleTextSearch} onSelectCategory={(category) => handleRemedySearch(category, false)} /> : <MainInput onImageSelect={handleImageSelect} isLoading={isLoading} onTextSearch={handleTextSearch} onRemedySearch={handleRemedySearch} onError={setError} mode={mainMode} onModeChange={setMainMode} />}
+            {offlineNotice}
+            {followUpNotice}
+            {showDiscovery ? <DiscoveryView onSelectPlant={handleTextSearch} onSelectCategory={(category) => handleRemedySearch(category, false)} /> : <MainInput onImagesSelect={handleImagesSelect} isLoading={isLoading} onTextSearch={handleTextSearch} onRemedySearch={handleRemedySearch} onError={setError} mode={mainMode} onModeChange={setMainMode} medications={medications} onMedicationsChange={handleMedicationsChange} herbariumPlants={herbariumPlants} onCheckInteractions={handleCheckInteractions} />}
             
             <div className="flex flex-wrap justify-center items-center gap-4 mt-4">
-                {history.length > 0 && <button onClick={() => { setIsHistoryOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="history" className="w-5 h-5" />{t('history')}</button>}
+                {(history.length > 0 || pendingAnalyses.length > 0) && <button onClick={() => { setIsHistoryOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="history" className="w-5 h-5" />{t('history')}{pendingAnalyses.length > 0 && <span className="px-2 py-0.5 text-xs font-bold rounded-full bg-amber-500 text-white" title={t('pendingCount', { count: pendingAnalyses.length })}>{pendingAnalyses.length}</span>}</button>}
                 {herbarium.length > 0 && <button onClick={() => { setIsHerbariumOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="book" className="w-5 h-5" />{t('myHerbarium')}</button>}
+                <button onClick={() => { setIsMyPlantsOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="pot" className="w-5 h-5" />{t('myPlants')}</button>
+                {mappedObservations.some(entry => entry.location) && <button onClick={() => { setIsMapOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="map" className="w-5 h-5" />{t('observationMap')}</button>}
                 <button onClick={() => { setIsManualOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60">
                     <Icon name="help" className="w-5 h-5" />
                     {t('appManual')}
@@ -1231,21 +2071,24 @@ function App() {
 
         const handleComparisonSearch = async (query: string) => {
             setIsLoading(true); setError(null); setComparisonResult(null);
+            const request = startRequest();
             try {
-                const { plantInfo, sources, imageSrc, mapaDistribucionSrc } = await identifyPlantFromText(effectiveApiKey, query, language);
-                const finalImageSrc = imageSrc || createPlaceholderImage(plantInfo.nombreComun);
-                setComparisonPlants(prev => ({ ...prev, plantB: { id: `${Date.now()}-${plantInfo.nombreCientifico}`, timestamp: Date.now(), imageSrc: finalImageSrc, type: 'plant', plantInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined } }));
-            } catch (err: any) { setError(err.message || 'Could not find the plant to compare.'); } finally { setIsLoading(false); }
+                const plantB = await lookUpPlant(query, request.signal);
+                if (!isCurrentRequest(request)) return;
+                setComparisonPlants(prev => ({ ...prev, plantB }));
+            } catch (err: any) { if (isCurrentRequest(request)) setError(err instanceof RequestTimeoutError ? t('requestTimedOut') : (err.message || 'Could not find the plant to compare.')); } finally { if (finishRequest(request)) setIsLoading(false); }
         };
 
         const handleGenerateComparison = async () => {
             if (!comparisonPlants.plantA?.plantInfo || !comparisonPlants.plantB?.plantInfo) return;
             setIsLoading(true); setError(null); setComparisonResult(null);
+            const request = startRequest();
             try {
-                const result = await comparePlants(effectiveApiKey, comparisonPlants.plantA.plantInfo, comparisonPlants.plantB.plantInfo, language);
+                const result = await comparePlants(apiKeys, comparisonPlants.plantA.plantInfo, comparisonPlants.plantB.plantInfo, language, { signal: request.signal });
+                if (!isCurrentRequest(request)) return;
                 setComparisonResult(result);
                 triggerHapticFeedback([100, 30, 100]);
-            } catch (err: any) { setError(err.message || 'Could not generate the comparison.'); } finally { setIsLoading(false); }
+            } catch (err: any) { if (isCurrentRequest(request)) setError(err instanceof RequestTimeoutError ? t('requestTimedOut') : (err.message || 'Could not generate the comparison.')); } finally { if (finishRequest(request)) setIsLoading(false); }
         }
 
         const getToxicityBadge = (level: string) => {
@@ -1269,7 +2112,7 @@ function App() {
                     <div className="p-4 border border-gray-200 dark:border-slate-700 rounded-lg">{comparisonPlants.plantB ? (<div className="text-center"><img src={comparisonPlants.plantB.imageSrc} alt={comparisonPlants.plantB.plantInfo?.nombreComun} className="w-32 h-32 object-cover rounded-full mx-auto mb-4 shadow-lg" /><h3 className="font-bold text-xl text-green-800 dark:text-emerald-300">{comparisonPlants.plantB.plantInfo?.nombreComun}</h3><p className="text-sm italic text-gray-500 dark:text-slate-400">{comparisonPlants.plantB.plantInfo?.nombreCientifico}</p></div>) : (<div className="text-center"><h3 className="font-bold text-xl mb-4 text-gray-700 dark:text-slate-300">{t('selectPlantB')}</h3><SearchInput onSearch={handleComparisonSearch} isLoading={isLoading} /></div>)}</div>
                 </div>
                 <div className="text-center mb-8"><button onClick={() => { handleGenerateComparison(); triggerHapticFeedback(); }} disabled={!comparisonPlants.plantB || isLoading} className="px-8 py-4 bg-green-600 text-white font-bold text-lg rounded-lg shadow-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-transform transform hover:scale-105"><div className="flex items-center gap-3"><Icon name="compare" className="w-6 h-6" /><span>{isLoading && !comparisonResult ? t('generating') : t('generateComparison')}</span></div></button></div>
-                {isLoading && !comparisonResult && <Loader message={t('generatingComparison')} subMessage="" />}
+                {isLoading && !comparisonResult && <Loader message={t('generatingComparison')} subMessage="" onCancel={handleCancelRequest} />}
                 {error && <p className="text-red-500 text-center p-4 bg-red-100 dark:bg-red-900/50 rounded-lg">{error}</p>}
                 {comparisonResult && (
                     <div className="space-y-6 mt-8 border-t border-gray-200 dark:border-slate-700 pt-8">
@@ -1328,17 +2171,29 @@ function App() {
       {notification && <Notification message={notification} onClose={() => setNotification(null)} />}
       <div className="absolute top-4 right-4 z-10">
         <div className="flex items-center gap-1 bg-white/60 dark:bg-slate-800/60 p-1 rounded-full shadow-md">
-            <button onClick={() => { setLanguage('es'); triggerHapticFeedback(); }} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${language === 'es' ? 'bg-green-600 text-white' : 'text-gray-700 dark:text-slate-300'}`}>ES</button>
-            <button onClick={() => { setLanguage('en'); triggerHapticFeedback(); }} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${language === 'en' ? 'bg-green-600 text-white' : 'text-gray-700 dark:text-slate-300'}`}>EN</button>
+            <select value={language} onChange={(e) => { setLanguage(e.target.value); triggerHapticFeedback(); }} className="pl-3 pr-1 py-1 text-sm font-semibold rounded-full bg-transparent text-gray-700 dark:text-slate-300 focus:outline-none focus:ring-2 focus:ring-green-500 cursor-pointer" aria-label={t('languageLabel')} title={t('languageLabel')}>
+                {SUPPORTED_LANGUAGES.map(lang => <option key={lang} value={lang} className="text-gray-800">{languageName(lang)}</option>)}
+            </select>
             <div className="w-px h-5 bg-gray-300 dark:bg-slate-600"></div>
+            <button onClick={() => { setIsSafetyProfileOpen(true); triggerHapticFeedback(); }} className="relative p-2 rounded-full text-gray-700 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors" aria-label={t('safetyProfileTitle')} title={t('safetyProfileTitle')}>
+                <Icon name="shield" className="w-5 h-5" />
+                {!isSafetyProfileEmpty(safetyProfile) && <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-green-600 dark:bg-emerald-400"></span>}
+            </button>
+            <button onClick={() => { setIsUsageOpen(true); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-700 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors" aria-label={t('usageTitle')} title={t('usageTitle')}>
+                <Icon name="chart" className="w-5 h-5" />
+            </button>
             <button onClick={toggleTheme} className="p-2 rounded-full text-gray-700 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors" aria-label={t('toggleTheme')}>
                 <Icon name={theme === 'light' ? 'moon' : 'sun'} className="w-5 h-5" />
             </button>
         </div>
       </div>
       <ApiKeyModal isOpen={isApiKeyModalOpen} onClose={() => setIsApiKeyModalOpen(false)} onSave={handleReset} />
-      <HistoryModal isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} history={history} onSelectItem={handleViewHistoryItem} onClearHistory={() => saveHistory([])} />
-      <HerbariumModal isOpen={isHerbariumOpen} onClose={handleCloseHerbarium} herbarium={filteredAndSortedHerbarium} onSelectItem={handleViewHistoryItem} onRemoveItem={handleRemoveFromHerbarium} onExport={handleExportHerbarium} sortOrder={herbariumSortOrder} onSortOrderChange={(e) => setHerbariumSortOrder(e.target.value)} nameFilter={herbariumNameFilter} onNameFilterChange={(e) => setHerbariumNameFilter(e.target.value)} useFilter={herbariumUseFilter} onUseFilterChange={(e) => setHerbariumUseFilter(e.target.value)} onStartCompare={handleStartCompare} />
+      <UsageModal isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} />
+      <SafetyProfileModal isOpen={isSafetyProfileOpen} onClose={() => setIsSafetyProfileOpen(false)} profile={safetyProfile} onSave={handleSaveSafetyProfile} />
+      <ObservationMapModal isOpen={isMapOpen} onClose={() => setIsMapOpen(false)} entries={mappedObservations} onSelectItem={handleViewHistoryItem} />
+      <HistoryModal isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} history={history} onSelectItem={handleViewHistoryItem} onClearHistory={() => saveHistory([])} pending={{ pending: pendingAnalyses, runningId: runningAnalysisId, isOnline, onRetry: handleRetryPendingAnalysis, onDiscard: handleDiscardPendingAnalysis }} />
+      <HerbariumModal isOpen={isHerbariumOpen} onClose={handleCloseHerbarium} herbarium={filteredAndSortedHerbarium} onSelectItem={handleViewHistoryItem} onRemoveItem={handleRemoveFromHerbarium} onExport={handleExportHerbarium} onExportDarwinCore={handleExportDarwinCore} onImport={handleImportHerbarium} sortOrder={herbariumSortOrder} onSortOrderChange={(e) => setHerbariumSortOrder(e.target.value)} nameFilter={herbariumNameFilter} onNameFilterChange={(e) => setHerbariumNameFilter(e.target.value)} useFilter={herbariumUseFilter} onUseFilterChange={(e) => setHerbariumUseFilter(e.target.value)} onStartCompare={handleStartCompare} pendingTranslations={pendingHerbariumTranslations} translationProgress={herbariumTranslation} onTranslateAll={handleTranslateHerbarium} onCancelTranslation={handleCancelHerbariumTranslation} />
+      <MyPlantsModal isOpen={isMyPlantsOpen} onClose={() => setIsMyPlantsOpen(false)} plants={trackedPlants} onCreate={handleCreatePlant} onUpdate={handleUpdatePlant} onDelete={handleDeletePlant} onAddPhoto={handleAddPlantPhoto} onSelectEntry={handleViewHistoryItem} onFollowUp={handleStartFollowUp} reminders={careReminders} />
       <ManualModal isOpen={isManualOpen} onClose={() => setIsManualOpen(false)} />
       {view === 'main' ? renderMainView() : renderComparatorView()}
     </main>
@@ -1,6 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { useApiKey } from '../contexts/ApiKeyContext';
+import { useAiProvider } from '../contexts/AiProviderContext';
+import { AiFeature, AiProviderId, providerRequiresApiKey } from '../services/aiProvider';
+import { DEFAULT_MODELS, KNOWN_IMAGE_MODELS, KNOWN_TEXT_MODELS, MODEL_FEATURES, isImageFeature } from '../services/modelRegistry';
 import { useLanguage } from '../contexts/LanguageContext';
 import { Icon } from './Icons';
 
@@ -11,26 +14,50 @@ interface ApiKeyModalProps {
 }
 
 export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave }) => {
-  const { userApiKey, saveApiKey, clearApiKey, isUserProvided, usingSystemKey, effectiveApiKey } = useApiKey();
+  const { userApiKey, userApiKeys, saveApiKeys, clearApiKey, isUserProvided, usingSystemKey, effectiveApiKey } = useApiKey();
+  const { settings, saveSettings } = useAiProvider();
   const { t } = useLanguage();
-  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [apiKeyInputs, setApiKeyInputs] = useState<string[]>(['']);
+  const [providerDraft, setProviderDraft] = useState(settings);
   const [showDebug, setShowDebug] = useState(false);
+  const [showModels, setShowModels] = useState(false);
 
   useEffect(() => {
-    setApiKeyInput(userApiKey || '');
-  }, [userApiKey, isOpen]);
+    setApiKeyInputs(userApiKeys.length > 0 ? userApiKeys : ['']);
+  }, [userApiKeys, isOpen]);
+
+  useEffect(() => {
+    setProviderDraft(settings);
+  }, [settings, isOpen]);
 
   if (!isOpen) return null;
 
+  const draftRequiresKey = providerRequiresApiKey(providerDraft.provider);
+  const hasKeyInput = apiKeyInputs.some(key => key.trim());
+
+  const updateKeyInput = (index: number, value: string) => setApiKeyInputs(prev => prev.map((key, i) => i === index ? value : key));
+  const removeKeyInput = (index: number) => setApiKeyInputs(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : ['']);
+
+  const updateModelOverride = (feature: AiFeature, value: string) => {
+    const { [feature]: _previous, ...rest } = providerDraft.modelOverrides;
+    setProviderDraft({ ...providerDraft, modelOverrides: value ? { ...rest, [feature]: value } : rest });
+  };
+  const hasModelOverrides = Object.keys(providerDraft.modelOverrides).length > 0;
+
+  // Only real overrides are stored; a field left empty or set to the default keeps following the default.
+  const normalizeModelOverrides = (overrides: Partial<Record<AiFeature, string>>) =>
+    Object.fromEntries(Object.entries(overrides).map(([feature, model]) => [feature, model?.trim()]).filter(([feature, model]) => model && model !== DEFAULT_MODELS[feature as AiFeature]));
+
   const handleSave = () => {
-    saveApiKey(apiKeyInput);
+    saveApiKeys(apiKeyInputs);
+    saveSettings({ ...providerDraft, modelOverrides: normalizeModelOverrides(providerDraft.modelOverrides) });
     onSave();
     onClose();
   };
 
   const handleClear = () => {
     clearApiKey();
-    setApiKeyInput('');
+    setApiKeyInputs(['']);
     // If we have a system key, clearing the manual key effectively "resets" to the system key
     // We can trigger a save/retry logic here implicitly or let the user close the modal
     if (usingSystemKey) {
@@ -80,23 +107,88 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSav
             </div>
         )}
 
-        <div>
-            <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('yourApiKeyLabel')}</label>
-            <input 
-              id="apiKey"
-              type="password"
-              value={apiKeyInput}
-              onChange={(e) => setApiKeyInput(e.target.value)}
-              placeholder={t('apiKeyPlaceholder')}
+        <div className="mb-4">
+            <label htmlFor="aiProvider" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('aiProviderLabel')}</label>
+            <select
+              id="aiProvider"
+              value={providerDraft.provider}
+              onChange={(e) => setProviderDraft({ ...providerDraft, provider: e.target.value as AiProviderId })}
               className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200"
-            />
+            >
+              <option value="gemini">{t('aiProviderGemini')}</option>
+              <option value="openai-compatible">{t('aiProviderOpenAi')}</option>
+              <option value="mock">{t('aiProviderMock')}</option>
+            </select>
+            {providerDraft.provider === 'mock' && <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">{t('aiProviderMockHint')}</p>}
+            <label htmlFor="requestTimeout" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mt-3 mb-1">{t('requestTimeoutLabel')}</label>
+            <input id="requestTimeout" type="number" min={0} step={5} value={providerDraft.timeoutSeconds} onChange={(e) => setProviderDraft({ ...providerDraft, timeoutSeconds: Math.max(0, Number(e.target.value) || 0) })} className="w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200" />
+            <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{t('requestTimeoutHint')}</p>
+            {providerDraft.provider === 'openai-compatible' && (
+              <div className="mt-3 space-y-2">
+                <input type="url" value={providerDraft.baseUrl} onChange={(e) => setProviderDraft({ ...providerDraft, baseUrl: e.target.value })} placeholder={t('aiProviderBaseUrl')} aria-label={t('aiProviderBaseUrl')} className="w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200" />
+                <input type="text" value={providerDraft.model} onChange={(e) => setProviderDraft({ ...providerDraft, model: e.target.value })} placeholder={t('aiProviderModel')} aria-label={t('aiProviderModel')} className="w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200" />
+                <input type="text" value={providerDraft.imageModel} onChange={(e) => setProviderDraft({ ...providerDraft, imageModel: e.target.value })} placeholder={t('aiProviderImageModel')} aria-label={t('aiProviderImageModel')} className="w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200" />
+              </div>
+            )}
+            {providerDraft.provider === 'gemini' && (
+              <div className="mt-3">
+                <button onClick={() => setShowModels(!showModels)} className="text-sm font-medium text-green-700 dark:text-emerald-400 flex items-center gap-1 hover:underline">
+                  <Icon name="chevron-down" className={`w-4 h-4 transition-transform ${showModels ? '' : '-rotate-90'}`} />
+                  {t('modelsPerFeature')}{hasModelOverrides && ` (${Object.keys(providerDraft.modelOverrides).length})`}
+                </button>
+                {showModels && (
+                  <div className="mt-2 space-y-2">
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{t('modelsPerFeatureHint')}</p>
+                    {MODEL_FEATURES.map(feature => (
+                      <div key={feature} className="flex items-center gap-2">
+                        <label htmlFor={`model-${feature}`} className="w-32 flex-shrink-0 text-xs text-gray-700 dark:text-slate-300">{t(`usageFeature_${feature}`)}</label>
+                        <input id={`model-${feature}`} type="text" list={isImageFeature(feature) ? 'knownImageModels' : 'knownTextModels'} value={providerDraft.modelOverrides[feature] ?? ''} onChange={(e) => updateModelOverride(feature, e.target.value)} placeholder={DEFAULT_MODELS[feature]} className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200" />
+                      </div>
+                    ))}
+                    <datalist id="knownTextModels">{KNOWN_TEXT_MODELS.map(model => <option key={model} value={model} />)}</datalist>
+                    <datalist id="knownImageModels">{KNOWN_IMAGE_MODELS.map(model => <option key={model} value={model} />)}</datalist>
+                    {hasModelOverrides && (
+                      <button onClick={() => setProviderDraft({ ...providerDraft, modelOverrides: {} })} className="text-xs font-medium text-gray-500 dark:text-slate-400 hover:underline">{t('modelsResetDefaults')}</button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+        </div>
+
+        <div>
+            <label htmlFor="apiKey-0" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('yourApiKeyLabel')}</label>
+            <div className="space-y-2">
+              {apiKeyInputs.map((key, index) => (
+                <div key={index} className="flex gap-2">
+                  <input 
+                    id={`apiKey-${index}`}
+                    type="password"
+                    value={key}
+                    onChange={(e) => updateKeyInput(index, e.target.value)}
+                    placeholder={t('apiKeyPlaceholder')}
+                    aria-label={`${t('yourApiKeyLabel')} ${index + 1}`}
+                    className="flex-1 min-w-0 px-3 py-2 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:text-slate-200"
+                  />
+                  {apiKeyInputs.length > 1 && (
+                    <button onClick={() => removeKeyInput(index)} title={t('removeApiKey')} aria-label={t('removeApiKey')} className="px-2 text-gray-400 hover:text-red-600 dark:text-slate-500 dark:hover:text-red-400">
+                      <Icon name="trash" className="w-5 h-5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button onClick={() => setApiKeyInputs(prev => [...prev, ''])} className="mt-2 text-sm font-medium text-green-700 dark:text-emerald-400 hover:underline">
+              + {t('addApiKey')}
+            </button>
+            <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{t('apiKeyRotationHint')}</p>
         </div>
         
         <div className="flex flex-col sm:flex-row gap-2 mt-4">
             <button 
                 onClick={handleSave} 
                 className="flex-1 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 disabled:opacity-50"
-                disabled={!apiKeyInput.trim()}
+                disabled={draftRequiresKey && !hasKeyInput}
             >
                 {t('saveAndRetry')}
             </button>
@@ -121,8 +213,9 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSav
             
             {showDebug && (
                 <div className="mt-2 p-2 bg-gray-100 dark:bg-slate-900 rounded text-xs font-mono text-gray-600 dark:text-slate-400 space-y-1">
+                    <p>Provider: {settings.provider}</p>
                     <p>Active Key: {maskKey(effectiveApiKey)}</p>
-                    <p>Manual Key: {maskKey(userApiKey)}</p>
+                    <p>Manual Keys: {userApiKeys.length > 0 ? userApiKeys.map(maskKey).join(', ') : maskKey(null)}</p>
                     <p>System Key: {usingSystemKey ? 'Detected' : 'Not Detected'}</p>
                     <p>Env Key: {effectiveApiKey === userApiKey ? '(Overridden)' : maskKey(effectiveApiKey)}</p>
                 </div>
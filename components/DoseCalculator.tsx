@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { AgeBand, Dosage, DoseUnit, SafetyProfile } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { AGE_BANDS } from '../services/schemas';
+import { TYPICAL_WEIGHTS, calculateDose, convertibleUnits } from '../services/dosage';
+import { Icon } from './Icons';
+
+interface DoseCalculatorProps {
+  dosage: Dosage;
+  profile?: SafetyProfile;
+}
+
+// Under the free-text dose of a preparation: the reference dose, and the same scaled to the weight and
+// age band of whoever is going to take it.
+export const DoseCalculator: React.FC<DoseCalculatorProps> = ({ dosage, profile }) => {
+  const { t, formatNumber } = useLanguage();
+  const [ageBand, setAgeBand] = useState<AgeBand>(dosage.poblacion);
+  const [weight, setWeight] = useState(String(dosage.pesoReferencia || TYPICAL_WEIGHTS[dosage.poblacion]));
+  const [unit, setUnit] = useState<DoseUnit>(dosage.unidad);
+
+  const weightKg = Number(weight.replace(',', '.'));
+  const hasWeight = Number.isFinite(weightKg) && weightKg > 0;
+  const result = calculateDose(dosage, { weightKg: hasWeight ? weightKg : 0, ageBand, unit }, profile);
+  const amount = (value: number, doseUnit: DoseUnit) => `${formatNumber(value)} ${t(`doseUnit_${doseUnit}`)}`;
+
+  const handleAgeBandChange = (band: AgeBand) => {
+    setAgeBand(band);
+    setWeight(String(TYPICAL_WEIGHTS[band]));
+  };
+
+  const fieldClassName = "w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:focus:ring-emerald-500 dark:text-slate-200";
+
+  return (
+    <div className="hide-on-export mt-2 p-3 rounded-md border border-green-200 dark:border-emerald-800/50 bg-white dark:bg-slate-800">
+      <h6 className="flex items-center gap-2 font-semibold text-green-800 dark:text-emerald-300 mb-1"><Icon name="beaker" className="w-4 h-4" />{t('doseCalculator')}</h6>
+      <p className="text-xs text-gray-500 dark:text-slate-400 mb-3">
+        {t('doseReference', {
+          amount: amount(dosage.cantidad, dosage.unidad),
+          times: t('doseTimesPerDay', { count: dosage.tomasAlDia }),
+          max: amount(dosage.dosisMaximaDiaria, dosage.unidad),
+          population: t(`dosePopulation_${dosage.poblacion}`),
+          weight: formatNumber(dosage.pesoReferencia),
+        })}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+        <label className="text-xs font-semibold text-gray-600 dark:text-slate-400">{t('doseAgeBand')}
+          <select value={ageBand} onChange={(e) => handleAgeBandChange(e.target.value as AgeBand)} className={`mt-1 ${fieldClassName}`}>
+            {(AGE_BANDS as AgeBand[]).map(band => <option key={band} value={band}>{t(`dosePopulation_${band}`)}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-semibold text-gray-600 dark:text-slate-400">{t('doseWeight')}
+          <input type="number" inputMode="decimal" min="1" step="any" value={weight} onChange={(e) => setWeight(e.target.value)} className={`mt-1 ${fieldClassName}`} />
+        </label>
+        <label className="text-xs font-semibold text-gray-600 dark:text-slate-400">{t('doseUnit')}
+          <select value={unit} onChange={(e) => setUnit(e.target.value as DoseUnit)} className={`mt-1 ${fieldClassName}`}>
+            {convertibleUnits(dosage).map(option => <option key={option} value={option}>{t(`doseUnit_${option}`)}</option>)}
+          </select>
+        </label>
+      </div>
+      {result.blockedBy ? (
+        <p className="flex items-start gap-2 p-2 rounded-md bg-red-50 dark:bg-red-900/30 text-sm font-semibold text-red-800 dark:text-red-300" role="alert">
+          <Icon name="cross" className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {result.blockedBy === 'infant' && !dosage.contraindicadoEn?.includes('infant') ? t('doseInfantNotCalculated') : t('doseContraindicated', { population: t(`dosePopulation_${result.blockedBy}`) })}
+        </p>
+      ) : hasWeight ? (
+        <dl className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-2 rounded-md bg-green-50 dark:bg-emerald-900/40"><dt className="text-xs text-gray-600 dark:text-slate-400">{t('dosePerDose')}</dt><dd className="font-bold text-green-900 dark:text-emerald-200">{amount(result.perDose, result.unit)}</dd></div>
+          <div className="p-2 rounded-md bg-green-50 dark:bg-emerald-900/40"><dt className="text-xs text-gray-600 dark:text-slate-400">{t('doseFrequency')}</dt><dd className="font-bold text-green-900 dark:text-emerald-200">{t('doseTimesPerDay', { count: result.timesPerDay })}</dd></div>
+          <div className="p-2 rounded-md bg-green-50 dark:bg-emerald-900/40"><dt className="text-xs text-gray-600 dark:text-slate-400">{t('doseMaxDaily')}</dt><dd className="font-bold text-green-900 dark:text-emerald-200">{amount(result.maxDaily, result.unit)}</dd></div>
+        </dl>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-slate-400">{t('doseEnterWeight')}</p>
+      )}
+      <p className="text-xs text-gray-500 dark:text-slate-400 mt-3">{t('doseCalculatorNote')}</p>
+    </div>
+  );
+};
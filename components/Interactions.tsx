@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { HerbDrugInteraction, InteractionReport, InteractionSeverity, PlantInfo } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { addListItem, plantLabel, sortBySeverity } from '../services/interactions';
+import { Icon } from './Icons';
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  Minor: 'bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300',
+  Moderate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+  Major: 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300',
+  Contraindicated: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+};
+
+export const SeverityBadge: React.FC<{ severity: InteractionSeverity }> = ({ severity }) => {
+  const { t } = useLanguage();
+  return <span className={`px-2 py-0.5 text-xs font-bold rounded-full whitespace-nowrap ${SEVERITY_STYLES[severity] || SEVERITY_STYLES.Moderate}`}>{t(`interactionSeverity_${severity}`)}</span>;
+};
+
+const InteractionItem: React.FC<{ interaction: HerbDrugInteraction; showPlant: boolean }> = ({ interaction, showPlant }) => {
+  const { t } = useLanguage();
+  return (
+    <li className="p-4 border border-gray-200 dark:border-slate-700 rounded-lg bg-gray-50 dark:bg-slate-900/50 text-left">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <SeverityBadge severity={interaction.severidad} />
+        <h4 className="font-bold text-gray-800 dark:text-slate-200 break-words">{showPlant ? `${interaction.planta} + ${interaction.medicamento}` : interaction.medicamento}</h4>
+      </div>
+      <p className="text-sm text-gray-700 dark:text-slate-300"><strong className="font-semibold">{t('interactionCompound')}:</strong> {interaction.compuestoAfectado}</p>
+      <p className="text-sm text-gray-700 dark:text-slate-300"><strong className="font-semibold">{t('interactionMechanism')}:</strong> {interaction.mecanismo}</p>
+      <p className="mt-2 text-sm text-gray-800 dark:text-slate-200 italic">{interaction.recomendacion}</p>
+    </li>
+  );
+};
+
+interface InteractionFormProps {
+  medications: string[];
+  onMedicationsChange: (medications: string[]) => void;
+  herbariumPlants: PlantInfo[];
+  isLoading: boolean;
+  onCheck: (plants: string[]) => void;
+}
+
+// The "Interactions" mode of the main input: the saved medication list, plus the plants to check
+// against it, picked from the herbarium or typed in.
+export const InteractionForm: React.FC<InteractionFormProps> = ({ medications, onMedicationsChange, herbariumPlants, isLoading, onCheck }) => {
+  const { t } = useLanguage();
+  const [medicationInput, setMedicationInput] = useState('');
+  const [plantInput, setPlantInput] = useState('');
+  const [plants, setPlants] = useState<string[]>([]);
+
+  const handleAddMedication = (e: React.FormEvent) => {
+    e.preventDefault();
+    onMedicationsChange(addListItem(medications, medicationInput));
+    setMedicationInput('');
+  };
+
+  const handleAddPlant = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPlants(addListItem(plants, plantInput));
+    setPlantInput('');
+  };
+
+  const togglePlant = (label: string) => setPlants(prev => prev.includes(label) ? prev.filter(plant => plant !== label) : [...prev, label]);
+  const herbariumLabels = herbariumPlants.map(plantLabel);
+  const typedPlants = plants.filter(plant => !herbariumLabels.includes(plant));
+  const inputClassName = "flex-grow min-w-0 px-3 py-2 bg-white dark:bg-slate-700 border border-green-300 dark:border-slate-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 dark:focus:ring-emerald-500";
+  const addButtonClassName = "px-4 py-2 text-sm font-semibold rounded-lg bg-green-50 dark:bg-emerald-900/40 text-green-800 dark:text-emerald-300 hover:bg-green-100 dark:hover:bg-emerald-900/70 disabled:opacity-50";
+
+  const chip = (label: string, onRemove: () => void, removeLabel: string) => (
+    <li key={label} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 text-sm rounded-full bg-green-100 dark:bg-emerald-900/50 text-green-800 dark:text-emerald-200">
+      {label}
+      <button type="button" onClick={onRemove} className="p-1 rounded-full hover:bg-green-200 dark:hover:bg-emerald-800" aria-label={removeLabel}><Icon name="trash" className="w-3 h-3" /></button>
+    </li>
+  );
+
+  return (
+    <div className="w-full text-left space-y-5">
+      <div>
+        <h3 className="font-semibold text-gray-700 dark:text-slate-300 mb-2">{t('myMedications')}</h3>
+        <form onSubmit={handleAddMedication} className="flex gap-2">
+          <input type="text" value={medicationInput} onChange={(e) => setMedicationInput(e.target.value)} disabled={isLoading} placeholder={t('medicationPlaceholder')} className={inputClassName} />
+          <button type="submit" disabled={isLoading || !medicationInput.trim()} className={addButtonClassName}>{t('add')}</button>
+        </form>
+        {medications.length > 0
+          ? <ul className="flex flex-wrap gap-2 mt-2">{medications.map(medication => chip(medication, () => onMedicationsChange(medications.filter(item => item !== medication)), t('removeMedication', { name: medication })))}</ul>
+          : <p className="text-xs text-gray-500 dark:text-slate-400 mt-2">{t('medicationsPrivacyNote')}</p>}
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-700 dark:text-slate-300 mb-2">{t('plantsToCheck')}</h3>
+        {herbariumPlants.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {herbariumPlants.map((plantInfo, index) => {
+              const label = herbariumLabels[index];
+              const isSelected = plants.includes(label);
+              return (
+                <button key={label} type="button" onClick={() => togglePlant(label)} aria-pressed={isSelected} className={`inline-flex items-center gap-1 px-3 py-1 text-sm rounded-full border transition-colors ${isSelected ? 'bg-green-600 dark:bg-emerald-600 border-green-600 dark:border-emerald-600 text-white' : 'bg-white dark:bg-slate-700 border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 hover:bg-green-50 dark:hover:bg-slate-600'}`}>
+                  <Icon name="book" className="w-3 h-3" />{plantInfo.nombreComun}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        <form onSubmit={handleAddPlant} className="flex gap-2">
+          <input type="text" value={plantInput} onChange={(e) => setPlantInput(e.target.value)} disabled={isLoading} placeholder={t('interactionPlantPlaceholder')} className={inputClassName} />
+          <button type="submit" disabled={isLoading || !plantInput.trim()} className={addButtonClassName}>{t('add')}</button>
+        </form>
+        {typedPlants.length > 0 && <ul className="flex flex-wrap gap-2 mt-2">{typedPlants.map(plant => chip(plant, () => togglePlant(plant), t('removePlant', { name: plant })))}</ul>}
+      </div>
+
+      <button onClick={() => onCheck(plants)} disabled={isLoading || medications.length === 0 || plants.length === 0} className="w-full inline-flex items-center justify-center gap-2 px-6 py-3 bg-green-600 dark:bg-emerald-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 dark:hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed">
+        <Icon name="shield" className="w-5 h-5" />{t('checkInteractions')}
+      </button>
+    </div>
+  );
+};
+
+interface InteractionReportViewProps {
+  report: InteractionReport;
+  plants: string[];
+  medications: string[];
+  onReset: () => void;
+}
+
+export const InteractionReportView: React.FC<InteractionReportViewProps> = ({ report, plants, medications, onReset }) => {
+  const { t } = useLanguage();
+  const interactions = sortBySeverity(report.interacciones);
+  return (
+    <div className="w-full max-w-2xl p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg border border-green-200 dark:border-emerald-700 text-center">
+      <h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200 mb-2">{t('interactionReportTitle')}</h2>
+      <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">{t('interactionReportChecked', { plants: plants.join(', '), medications: medications.join(', ') })}</p>
+      <p className="text-gray-700 dark:text-slate-300 mb-6">{report.resumen}</p>
+      {interactions.length > 0
+        ? <ul className="space-y-3">{interactions.map((interaction, index) => <InteractionItem key={index} interaction={interaction} showPlant />)}</ul>
+        : <div className="p-4 rounded-lg bg-green-50 dark:bg-emerald-900/40 text-green-800 dark:text-emerald-300 font-semibold">{t('noInteractionsFound')}</div>}
+      <p className="text-xs text-gray-500 dark:text-slate-400 mt-6">{t('interactionDisclaimer')}</p>
+      <button onClick={onReset} className="mt-6 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">{t('anotherSearch')}</button>
+    </div>
+  );
+};
+
+interface PreparationInteractionsProps {
+  interactions?: HerbDrugInteraction[]; // Undefined until this plant has been checked against the current list
+  medications: string[];
+  onCheck?: () => void;
+  isChecking?: boolean;
+}
+
+// Heads the preparations of a plant profile: the conflicts with the user's medications, or an
+// offer to look for them.
+export const PreparationInteractions: React.FC<PreparationInteractionsProps> = ({ interactions, medications, onCheck, isChecking = false }) => {
+  const { t } = useLanguage();
+  if (medications.length === 0) return null;
+
+  if (!interactions) {
+    if (!onCheck) return null;
+    return (
+      <div className="hide-on-export mb-6 p-3 rounded-lg border border-gray-200 dark:border-slate-700 flex flex-wrap items-center gap-3 text-sm">
+        <Icon name="shield" className="w-5 h-5 text-green-700 dark:text-emerald-400 flex-shrink-0" />
+        <span className="flex-grow text-gray-700 dark:text-slate-300">{t('interactionsNotChecked', { count: medications.length })}</span>
+        <button onClick={onCheck} disabled={isChecking} className="inline-flex items-center gap-2 px-3 py-1 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors disabled:opacity-60 disabled:cursor-wait">
+          {isChecking && <span className="w-3 h-3 border-2 border-t-transparent border-white rounded-full animate-spin"></span>}
+          {isChecking ? t('checkingInteractions') : t('checkInteractions')}
+        </button>
+      </div>
+    );
+  }
+
+  if (interactions.length === 0) {
+    return (
+      <div className="mb-6 p-3 rounded-lg bg-green-50 dark:bg-emerald-900/40 flex items-center gap-3 text-sm text-green-800 dark:text-emerald-300">
+        <Icon name="shield" className="w-5 h-5 flex-shrink-0" />{t('noInteractionsWithMedications')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-red-200 dark:border-red-800/50 bg-red-50 dark:bg-red-900/30">
+      <h4 className="flex items-center gap-2 font-bold text-red-800 dark:text-red-300 mb-3"><Icon name="cross" className="w-5 h-5" />{t('interactionsWithMedications', { count: interactions.length })}</h4>
+      <ul className="space-y-3">{sortBySeverity(interactions).map((interaction, index) => <InteractionItem key={index} interaction={interaction} showPlant={false} />)}</ul>
+    </div>
+  );
+};
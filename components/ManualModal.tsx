@@ -17,12 +17,18 @@ const ManualContentEs: React.FC = () => (
       <li><strong className="font-semibold">Identificación Multimodal de Plantas</strong>: Identifica plantas al instante tomando una foto, subiendo una imagen o buscando por nombre. La aplicación tiene en cuenta la geolocalización para mejorar la precisión con la flora local.</li>
       <li><strong className="font-semibold">Diagnóstico de Enfermedades de Plantas</strong>: Toma una foto de una planta enferma y la IA diagnosticará posibles enfermedades, plagas o deficiencias nutricionales, ofreciendo opciones de tratamiento orgánico y químico.</li>
       <li><strong className="font-semibold">Buscador de Remedios</strong>: Busca plantas basándote en síntomas o usos tradicionales (p. ej., "alivio para el dolor de cabeza"). La búsqueda puede priorizar plantas nativas de tu ubicación actual.</li>
+      <li><strong className="font-semibold">Comprobador de Interacciones con Medicamentos</strong>: Guarda la lista de medicamentos que tomas (solo en tu dispositivo) y compruébala con plantas de tu herbario o cualquier planta que escribas. Cada interacción indica su gravedad, el mecanismo, el compuesto implicado y una recomendación, y los conflictos se señalan en las preparaciones del perfil de la planta.</li>
+      <li><strong className="font-semibold">Perfil de Seguridad Personal</strong>: Indica si hay embarazo o lactancia, niños pequeños o mascotas en casa, alergias y enfermedades crónicas (solo en tu dispositivo). Las identificaciones y búsquedas de remedios se adaptan a él, los perfiles de plantas empiezan con las contraindicaciones que te afectan y las sugerencias de remedios muy tóxicas se ocultan tras un aviso.</li>
+      <li><strong className="font-semibold">Mis Plantas</strong>: Pon nombre a las plantas que cuidas y asócialas con sus identificaciones, guías de cuidado y diagnósticos. Cada planta tiene una cronología con sus fotos, los tratamientos de un diagnóstico que has aplicado y los diagnósticos posteriores, para que anotes si un tratamiento funcionó.</li>
+      <li><strong className="font-semibold">Calendario de Cuidados y Recordatorios</strong>: Una planta con su guía de cuidado asociada tiene un calendario de riego, abonado y trasplante que se adapta a la estación (invertida si las fotos se tomaron en el hemisferio sur). Marca cada tarea como hecha para llevar un registro y activa los recordatorios para recibir notificaciones locales cuando toque.</li>
+      <li><strong className="font-semibold">Funciona sin Conexión</strong>: Instala la app desde el navegador en tu pantalla de inicio. El herbario, el historial y Mis Plantas se abren sin conexión, y las fotos que analices sin cobertura quedan en cola (marcadas como pendientes en el historial) y se identifican automáticamente al recuperar la conexión.</li>
+      <li><strong className="font-semibold">Enlaces y Botón Atrás</strong>: La dirección sigue lo que ves en pantalla: <code>/identify</code>, <code>/diagnose</code>, <code>/remedy?q=…</code>, <code>/discover</code>, <code>/compare/&lt;planta&gt;/&lt;planta&gt;</code>, <code>/entry/&lt;id&gt;</code> y <code>/herbarium?filter=…</code>. Al recargar no pierdes el sitio, el botón atrás lo recorre y las recetas compartidas enlazan a su planta. Los enlaces a entradas se abren en el dispositivo que guardó la entrada.</li>
       <li><strong className="font-semibold">Perfiles Detallados de Plantas</strong>: Obtén información completa para cada planta identificada, incluyendo:
         <ul className="list-['-_'] list-inside space-y-2 mt-2 pl-6">
           <li><strong>Datos Botánicos</strong>: Nombre científico, sinónimos, descripción, hábitat y estado de conservación.</li>
           <li><strong>Usos</strong>: Aplicaciones medicinales y culinarias detalladas.</li>
           <li><strong>Ciencia</strong>: Compuestos activos clave y advertencias de toxicidad.</li>
-          <li><strong>Guías Prácticas</strong>: Recetas de preparación tradicionales con instrucciones, dosis y contexto histórico.</li>
+          <li><strong>Guías Prácticas</strong>: Recetas de preparación tradicionales con instrucciones, dosis y contexto histórico. Una calculadora ajusta cada dosis al peso y la edad, convierte entre gramos, mililitros, cucharaditas y gotas, y no calcula para los grupos en los que la preparación está contraindicada.</li>
           <li><strong>Seguridad</strong>: Comparaciones claras con plantas tóxicas de apariencia similar para evitar confusiones.</li>
           <li><strong>Mapa de Distribución</strong>: Un mapa generado por IA que muestra las regiones nativas y naturalizadas de la planta.</li>
         </ul>
@@ -36,14 +42,15 @@ const ManualContentEs: React.FC = () => (
         </ul>
       </li>
       <li><strong className="font-semibold">Comparador Botánico</strong>: Una herramienta única para comparar dos plantas diferentes una al lado de la otra, analizando sus usos medicinales, compuestos activos y niveles de toxicidad.</li>
-      <li><strong className="font-semibold">Herbario Personal</strong>: Guarda tus hallazgos favoritos o más relevantes en una colección personal, filtrable y ordenable. También puedes exportar los datos de tu herbario a un archivo JSON.</li>
+      <li><strong className="font-semibold">Herbario Personal</strong>: Guarda tus hallazgos favoritos o más relevantes en una colección personal, filtrable y ordenable. También puedes exportarlo como un archivo completo (con fotos, mapas y guías de cuidado) e importarlo en otro dispositivo; las entradas repetidas se combinan. Las plantas identificadas también se pueden exportar como Darwin Core Archive para publicarlas en GBIF u otras bases de datos de biodiversidad.</li>
       <li><strong className="font-semibold">Historial de Sesión</strong>: Guarda automáticamente tus consultas recientes para un acceso rápido.</li>
+      <li><strong className="font-semibold">Mapa de Observaciones</strong>: Cada observación con ubicación aparece en un mapa mundial sin conexión, agrupada y coloreada por toxicidad o por tipo. Toca un marcador para abrir su ficha.</li>
       <li><strong className="font-semibold">Interfaz Bilingüe</strong>: Totalmente disponible en español e inglés.</li>
     </ul>
 
     <h2 className="text-3xl font-bold text-green-900 dark:text-emerald-200 mt-8 mb-4 border-b border-gray-300 dark:border-slate-700 pb-2">Cómo Usar</h2>
     <ol className="list-decimal list-inside space-y-3 mb-6 text-lg">
-      <li><strong className="font-semibold">Selecciona un Modo</strong>: Elige entre <code>Identificar</code>, <code>Diagnosticar</code> o <code>Remedio</code>.</li>
+      <li><strong className="font-semibold">Selecciona un Modo</strong>: Elige entre <code>Identificar</code>, <code>Diagnosticar</code>, <code>Remedio</code> o <code>Interacciones</code>.</li>
       <li><strong className="font-semibold">Proporciona la Entrada</strong>:
         <ul className="list-['-_'] list-inside space-y-2 mt-2 pl-6">
           <li>Para <strong>Identificar</strong>: Toma una foto, sube una imagen o escribe el nombre de la planta.</li>
@@ -70,7 +77,7 @@ const ManualContentEs: React.FC = () => (
     <h2 className="text-3xl font-bold text-green-900 dark:text-emerald-200 mt-8 mb-4 border-b border-gray-300 dark:border-slate-700 pb-2">Pila Tecnológica</h2>
     <ul className="list-disc list-inside space-y-3 mb-6 text-lg">
       <li><strong className="font-semibold">Frontend</strong>: React (con Hooks)</li>
-      <li><strong className="font-semibold">IA</strong>: Google Gemini API (<code>gemini-2.5-flash</code> para análisis, <code>imagen-4.0-generate-001</code> para generación de imágenes)</li>
+      <li><strong className="font-semibold">IA</strong>: Google Gemini API (<code>gemini-2.5-flash</code> para análisis, <code>imagen-4.0-generate-001</code> para generación de imágenes por defecto; configurable por función)</li>
       <li><strong className="font-semibold">Estilos</strong>: Tailwind CSS</li>
       <li><strong className="font-semibold">Despliegue</strong>: Se ejecuta directamente en el navegador usando módulos ES y un <code>import map</code>.</li>
     </ul>
@@ -92,12 +99,18 @@ const ManualContentEn: React.FC = () => (
             <li><strong className="font-semibold">Multi-Modal Plant Identification</strong>: Identify plants instantly by taking a photo, uploading an image, or searching by name. The app considers geolocation to improve accuracy with local flora.</li>
             <li><strong className="font-semibold">Plant Disease Diagnosis</strong>: Snap a photo of a sick plant, and the AI will diagnose potential diseases, pests, or nutritional deficiencies, offering organic and chemical treatment options.</li>
             <li><strong className="font-semibold">Remedy Finder</strong>: Search for plants based on symptoms or traditional uses (e.g., "headache relief"). The search can prioritize plants native to your current location.</li>
+            <li><strong className="font-semibold">Herb–Drug Interaction Checker</strong>: Keep a list of the medications you take (stored only on your device) and check it against plants from your herbarium or any plant you type. Each interaction comes with its severity, mechanism, the compound involved and a recommendation, and conflicts are flagged on the preparations of the plant's profile.</li>
+            <li><strong className="font-semibold">Personal Safety Profile</strong>: Tell the app about pregnancy or breastfeeding, young children or pets at home, allergies and chronic conditions (stored only on your device). Identifications and remedy searches are tailored to it, plant profiles open with the contraindications that apply to you, and highly toxic remedy suggestions are hidden behind a warning.</li>
+            <li><strong className="font-semibold">My Plants</strong>: Give the plants you look after a name and attach their identifications, care guides and diagnoses to them. Each plant has a timeline with its photos, the treatments you applied from a diagnosis and the follow-up diagnoses, so you can record whether a treatment worked.</li>
+            <li><strong className="font-semibold">Care Schedule &amp; Reminders</strong>: A plant whose care guide is attached gets a watering, fertilizing and repotting calendar that adapts to the season (flipped for photos taken in the southern hemisphere). Mark each task as done to keep a log, and turn on reminders to get local notifications when a task is due.</li>
+            <li><strong className="font-semibold">Works Offline</strong>: Install the app from the browser to your home screen. The herbarium, history and My Plants open without a connection, and photos you analyze offline are queued (marked as pending in the history) and identified automatically when the connection returns.</li>
+            <li><strong className="font-semibold">Links & Back Button</strong>: The address follows what is on screen: <code>/identify</code>, <code>/diagnose</code>, <code>/remedy?q=…</code>, <code>/discover</code>, <code>/compare/&lt;plant&gt;/&lt;plant&gt;</code>, <code>/entry/&lt;id&gt;</code> and <code>/herbarium?filter=…</code>. Reloading keeps your place, the back button steps through it, and shared recipes link to their plant. Entry links open on the device that saved the entry.</li>
             <li><strong className="font-semibold">Detailed Plant Profiles</strong>: Get comprehensive information for each identified plant, including:
                 <ul className="list-['-_'] list-inside space-y-2 mt-2 pl-6">
                     <li><strong>Botanical Data</strong>: Scientific name, synonyms, description, habitat, and conservation status.</li>
                     <li><strong>Uses</strong>: Detailed medicinal and culinary applications.</li>
                     <li><strong>Science</strong>: Key active compounds and toxicity warnings.</li>
-                    <li><strong>Practical Guides</strong>: Traditional preparation recipes with instructions, dosage, and historical context.</li>
+                    <li><strong>Practical Guides</strong>: Traditional preparation recipes with instructions, dosage, and historical context. A dose calculator scales each dose to body weight and age, converts between grams, millilitres, teaspoons and drops, and refuses to calculate for groups the preparation is contraindicated in.</li>
                     <li><strong>Safety</strong>: Clear comparisons with similar-looking toxic plants to avoid confusion.</li>
                     <li><strong>Distribution Map</strong>: An AI-generated map showing the plant's native and naturalized regions.</li>
                 </ul>
@@ -111,14 +124,15 @@ const ManualContentEn: React.FC = () => (
                 </ul>
             </li>
             <li><strong className="font-semibold">Botanical Comparator</strong>: A unique tool to compare two different plants side-by-side, analyzing their medicinal uses, active compounds, and toxicity levels.</li>
-            <li><strong className="font-semibold">Personal Herbarium</strong>: Save your favorite or most relevant findings to a personal, filterable, and sortable collection. You can also export your herbarium data to a JSON file.</li>
+            <li><strong className="font-semibold">Personal Herbarium</strong>: Save your favorite or most relevant findings to a personal, filterable, and sortable collection. You can also export it as a complete archive (with photos, maps and care guides) and import it on another device; duplicate entries are merged. Identified plants can also be exported as a Darwin Core Archive for GBIF and other biodiversity databases.</li>
             <li><strong className="font-semibold">Session History</strong>: Automatically saves your recent queries for quick access.</li>
+            <li><strong className="font-semibold">Observation Map</strong>: Every observation with a location appears on an offline world map, clustered and colored by toxicity or by type. Tap a marker to open its record.</li>
             <li><strong className="font-semibold">Bilingual Interface</strong>: Fully available in both English and Spanish.</li>
         </ul>
 
         <h2 className="text-3xl font-bold text-green-900 dark:text-emerald-200 mt-8 mb-4 border-b border-gray-300 dark:border-slate-700 pb-2">How to Use</h2>
         <ol className="list-decimal list-inside space-y-3 mb-6 text-lg">
-            <li><strong className="font-semibold">Select a Mode</strong>: Choose between <code>Identify</code>, <code>Diagnose</code>, or <code>Remedy</code>.</li>
+            <li><strong className="font-semibold">Select a Mode</strong>: Choose between <code>Identify</code>, <code>Diagnose</code>, <code>Remedy</code>, or <code>Interactions</code>.</li>
             <li><strong className="font-semibold">Provide Input</strong>:
                 <ul className="list-['-_'] list-inside space-y-2 mt-2 pl-6">
                     <li>For <strong>Identify</strong>: Take a photo, upload an image, or type the plant's name.</li>
@@ -145,7 +159,7 @@ const ManualContentEn: React.FC = () => (
         <h2 className="text-3xl font-bold text-green-900 dark:text-emerald-200 mt-8 mb-4 border-b border-gray-300 dark:border-slate-700 pb-2">Technology Stack</h2>
         <ul className="list-disc list-inside space-y-3 mb-6 text-lg">
             <li><strong className="font-semibold">Frontend</strong>: React (with Hooks)</li>
-            <li><strong className="font-semibold">AI</strong>: Google Gemini API (<code>gemini-2.5-flash</code> for analysis, <code>imagen-4.0-generate-001</code> for image generation)</li>
+            <li><strong className="font-semibold">AI</strong>: Google Gemini API (<code>gemini-2.5-flash</code> for analysis, <code>imagen-4.0-generate-001</code> for image generation by default; configurable per feature)</li>
             <li><strong className="font-semibold">Styling</strong>: Tailwind CSS</li>
             <li><strong className="font-semibold">Deployment</strong>: Runs directly in the browser using ES modules and an import map.</li>
         </ul>
@@ -0,0 +1,375 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CareTask, HistoryEntry, TrackedPlant, TreatmentKind, TreatmentOutcome } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { localizeEntry } from '../services/entryTranslation';
+import { TimelineEvent, buildTimeline, detachEntry, findAppliedTreatment, isSameProblem, latestIdentification, latestPlantImage, recordCareDone } from '../services/trackedPlants';
+import { ScheduledCareTask, daysUntilDue, getCareSchedule } from '../services/careSchedule';
+import { Icon } from './Icons';
+
+const OUTCOMES: TreatmentOutcome[] = ['improved', 'unchanged', 'worse'];
+
+const OUTCOME_STYLES: Record<TreatmentOutcome, string> = {
+  improved: 'bg-green-600 border-green-600 text-white dark:bg-emerald-600 dark:border-emerald-600',
+  unchanged: 'bg-amber-500 border-amber-500 text-white',
+  worse: 'bg-red-600 border-red-600 text-white',
+};
+
+const CARE_TASK_ICONS: Record<CareTask, string> = { watering: 'watering-can', fertilizing: 'beaker', repotting: 'repot' };
+
+const entryTitle = (entry: HistoryEntry, language: string): string => {
+  const shown = localizeEntry(entry, language);
+  return shown.plantInfo?.nombreComun || shown.diseaseInfo?.nombreEnfermedad || '...';
+};
+
+// "Due today", "In 3 days", "2 days overdue".
+const useDueLabel = () => {
+  const { t } = useLanguage();
+  return (task: ScheduledCareTask): string => {
+    const days = daysUntilDue(task);
+    return days === 0 ? t('careDueToday') : days > 0 ? t('careDueIn', { count: days }) : t('careOverdue', { count: -days });
+  };
+};
+
+interface TrackPlantControlProps {
+  entry: HistoryEntry;
+  plants: TrackedPlant[];
+  onAddToPlant: (plantId: string) => void;
+  onAddToNewPlant: (name: string) => void;
+}
+
+// In the button row of a result: which of "My Plants" the entry is about, or a way to attach it to one.
+export const TrackPlantControl: React.FC<TrackPlantControlProps> = ({ entry, plants, onAddToPlant, onAddToNewPlant }) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const [target, setTarget] = useState('');
+  const [name, setName] = useState('');
+  const trackedPlant = plants.find(plant => plant.id === entry.trackedPlantId);
+
+  if (trackedPlant) {
+    return <span className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-green-100 text-green-800 dark:bg-emerald-900/50 dark:text-emerald-300"><Icon name="pot" className="w-4 h-4" />{t('trackedIn', { name: trackedPlant.name })}</span>;
+  }
+
+  const isNew = target === '' || !plants.some(plant => plant.id === target);
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNew) { if (name.trim()) onAddToNewPlant(name.trim()); } else { onAddToPlant(target); }
+    setIsOpen(false);
+    setName('');
+  };
+
+  if (!isOpen) {
+    return <button onClick={() => { setTarget(plants[plants.length - 1]?.id || ''); setIsOpen(true); }} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-green-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"><Icon name="pot" className="w-4 h-4" />{t('addToMyPlants')}</button>;
+  }
+
+  const fieldClassName = "min-w-0 px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:focus:ring-emerald-500 dark:text-slate-200";
+  return (
+    <form onSubmit={handleSubmit} className="hide-on-export w-full flex flex-wrap items-center gap-2 p-2 rounded-lg border border-green-200 dark:border-emerald-800/50">
+      {plants.length > 0 && (
+        <select value={isNew ? '' : target} onChange={(e) => setTarget(e.target.value)} className={fieldClassName} aria-label={t('myPlants')}>
+          {plants.map(plant => <option key={plant.id} value={plant.id}>{plant.name}</option>)}
+          <option value="">{t('newPlantOption')}</option>
+        </select>
+      )}
+      {isNew && <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={t('newPlantPlaceholder')} autoFocus className={`flex-grow ${fieldClassName}`} />}
+      <button type="submit" disabled={isNew && !name.trim()} className="px-4 py-2 text-sm font-semibold rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50">{t('add')}</button>
+      <button type="button" onClick={() => setIsOpen(false)} className="px-3 py-2 text-sm font-semibold rounded-md text-gray-600 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700">{t('cancel')}</button>
+    </form>
+  );
+};
+
+interface TreatmentListProps {
+  treatments: string[];
+  kind: TreatmentKind;
+  diagnosis: HistoryEntry;
+  trackedPlant?: TrackedPlant;
+  onRecord: (kind: TreatmentKind, index: number, description: string) => void;
+}
+
+// The treatments of a diagnosis. Once the diagnosis belongs to a tracked plant, each can be marked as applied.
+export const TreatmentList: React.FC<TreatmentListProps> = ({ treatments, kind, diagnosis, trackedPlant, onRecord }) => {
+  const { t, formatDate } = useLanguage();
+  return (
+    <ul className="list-disc pl-5 space-y-1">
+      {treatments.map((treatment, index) => {
+        const applied = trackedPlant && findAppliedTreatment(trackedPlant, diagnosis.id, kind, index);
+        return (
+          <li key={index} className="break-words">
+            {treatment}
+            {trackedPlant && (applied
+              ? <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800 dark:bg-emerald-900/50 dark:text-emerald-300"><Icon name="clipboard-check" className="w-3 h-3" />{t('treatmentAppliedOn', { date: formatDate(applied.appliedAt) })}</span>
+              : <button onClick={() => onRecord(kind, index, treatment)} className="hide-on-export ml-2 px-2 py-0.5 text-xs font-semibold rounded-full border border-green-300 dark:border-emerald-700 text-green-700 dark:text-emerald-300 hover:bg-green-50 dark:hover:bg-emerald-900/40">{t('markTreatmentApplied')}</button>)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+interface TimelineItemProps {
+  event: TimelineEvent;
+  plant: TrackedPlant;
+  onUpdate: (plant: TrackedPlant) => void;
+  onSelectEntry: (entry: HistoryEntry) => void;
+}
+
+const TimelineItem: React.FC<TimelineItemProps> = ({ event, plant, onUpdate, onSelectEntry }) => {
+  const { t, language, formatDate } = useLanguage();
+  const removeButton = (onRemove: () => void, label: string) => (
+    <button onClick={onRemove} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-600 dark:hover:text-red-400 transition-colors flex-shrink-0" aria-label={label} title={label}><Icon name="trash" className="w-4 h-4" /></button>
+  );
+  const date = <p className="text-xs text-gray-500 dark:text-slate-400">{formatDate(event.at, { dateStyle: 'medium', timeStyle: 'short' })}</p>;
+
+  if (event.type === 'entry') {
+    const { entry } = event;
+    return (
+      <li className="flex items-center gap-2">
+        <button onClick={() => onSelectEntry(entry)} className="flex-grow min-w-0 text-left flex items-center gap-3 p-2 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors">
+          <img src={entry.imageSrc} alt="" className="w-14 h-14 object-cover rounded-md shadow-sm flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t(entry.type === 'plant' ? 'timelineIdentification' : 'timelineDiagnosis')}</p>
+            <p className="font-semibold text-green-800 dark:text-emerald-300 flex items-center gap-2 truncate"><Icon name={entry.type === 'plant' ? 'leaf' : 'bug'} className="w-4 h-4 flex-shrink-0" />{entryTitle(entry, language)}</p>
+            {date}
+          </div>
+        </button>
+        {removeButton(() => onUpdate(detachEntry(plant, entry.id)), t('removeFromPlant'))}
+      </li>
+    );
+  }
+
+  if (event.type === 'photo') {
+    const { photo } = event;
+    return (
+      <li className="flex items-center gap-2">
+        <div className="flex-grow flex items-center gap-3 p-2">
+          <img src={photo.src} alt="" className="w-14 h-14 object-cover rounded-md shadow-sm flex-shrink-0" />
+          <div><p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('timelinePhoto')}</p>{date}</div>
+        </div>
+        {removeButton(() => onUpdate({ ...plant, photos: plant.photos.filter(other => other.id !== photo.id) }), t('removePhoto'))}
+      </li>
+    );
+  }
+
+  if (event.type === 'care') {
+    const { care } = event;
+    return (
+      <li className="flex items-center gap-2">
+        <div className="flex-grow flex items-center gap-3 p-2">
+          <div className="w-14 h-14 rounded-md bg-blue-50 dark:bg-slate-700 flex items-center justify-center flex-shrink-0"><Icon name={CARE_TASK_ICONS[care.task]} className="w-6 h-6 text-blue-500 dark:text-sky-400" /></div>
+          <div><p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t(`careDone_${care.task}`)}</p>{date}</div>
+        </div>
+        {removeButton(() => onUpdate({ ...plant, careLog: (plant.careLog || []).filter(other => other.id !== care.id) }), t('removeCareDone'))}
+      </li>
+    );
+  }
+
+  const { treatment, diagnosis, followUp } = event;
+  const setOutcome = (outcome: TreatmentOutcome) => onUpdate({
+    ...plant,
+    treatments: plant.treatments.map(other => other.id === treatment.id ? { ...other, outcome: other.outcome === outcome ? undefined : outcome } : other),
+  });
+  return (
+    <li className="flex items-start gap-2">
+      <div className="flex-grow min-w-0 p-3 rounded-lg border border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-slate-400 flex items-center gap-1"><Icon name={treatment.kind === 'organic' ? 'leaf' : 'beaker'} className="w-3 h-3" />{t(`treatmentKind_${treatment.kind}`)}</p>
+        <p className="text-sm text-gray-800 dark:text-slate-200 break-words">{treatment.description}</p>
+        {diagnosis && <p className="text-xs text-gray-500 dark:text-slate-400">{t('treatmentFor', { diagnosis: entryTitle(diagnosis, language) })}</p>}
+        {date}
+        <p className="mt-2 text-xs text-gray-600 dark:text-slate-300">
+          {!followUp ? t('followUpNone')
+            : diagnosis && isSameProblem(diagnosis, followUp) ? t('followUpSame', { date: formatDate(followUp.timestamp), diagnosis: entryTitle(followUp, language) })
+            : t('followUpDifferent', { date: formatDate(followUp.timestamp), diagnosis: entryTitle(followUp, language) })}
+        </p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <span className="text-xs font-semibold text-gray-600 dark:text-slate-400">{t('treatmentOutcome')}</span>
+          {OUTCOMES.map(outcome => (
+            <button key={outcome} onClick={() => setOutcome(outcome)} aria-pressed={treatment.outcome === outcome} className={`px-2 py-0.5 text-xs font-semibold rounded-full border transition-colors ${treatment.outcome === outcome ? OUTCOME_STYLES[outcome] : 'border-gray-300 dark:border-slate-600 text-gray-600 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700'}`}>{t(`treatmentOutcome_${outcome}`)}</button>
+          ))}
+        </div>
+      </div>
+      {removeButton(() => onUpdate({ ...plant, treatments: plant.treatments.filter(other => other.id !== treatment.id) }), t('removeTreatment'))}
+    </li>
+  );
+};
+
+interface CareSchedulePanelProps {
+  plant: TrackedPlant;
+  onUpdate: (plant: TrackedPlant) => void;
+  onSelectEntry: (entry: HistoryEntry) => void;
+  reminders: CareRemindersProps;
+}
+
+export interface CareRemindersProps {
+  isSupported: boolean;
+  isEnabled: boolean;
+  onToggle: () => void;
+}
+
+// What is due next for the plant, from the calendar of its care guide, with a button to log each task as done.
+const CareSchedulePanel: React.FC<CareSchedulePanelProps> = ({ plant, onUpdate, onSelectEntry, reminders }) => {
+  const { t, formatDate } = useLanguage();
+  const dueLabel = useDueLabel();
+  const schedule = getCareSchedule(plant);
+  const identification = latestIdentification(plant);
+
+  return (
+    <section className="mb-4 p-3 rounded-lg border border-blue-200 dark:border-sky-800/50 bg-blue-50/50 dark:bg-slate-900/50">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="font-semibold text-blue-900 dark:text-sky-300 flex items-center gap-2"><Icon name="watering-can" className="w-5 h-5" />{t('careSchedule')}</h3>
+        {reminders.isSupported && schedule.length > 0 && (
+          <button onClick={reminders.onToggle} aria-pressed={reminders.isEnabled} className={`px-3 py-1 text-xs font-semibold rounded-full border transition-colors ${reminders.isEnabled ? 'bg-blue-600 border-blue-600 text-white' : 'border-blue-300 dark:border-sky-700 text-blue-700 dark:text-sky-300 hover:bg-blue-100 dark:hover:bg-sky-900/40'}`}>{t(reminders.isEnabled ? 'careRemindersOn' : 'careRemindersEnable')}</button>
+        )}
+      </div>
+      {schedule.length > 0 ? (
+        <>
+          <ul className="space-y-2">
+            {schedule.map(scheduled => {
+              const isDue = daysUntilDue(scheduled) <= 0;
+              return (
+                <li key={scheduled.task} className="flex items-center gap-3">
+                  <Icon name={CARE_TASK_ICONS[scheduled.task]} className="w-5 h-5 text-blue-500 dark:text-sky-400 flex-shrink-0" />
+                  <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-semibold text-gray-800 dark:text-slate-200">{t(`careTask_${scheduled.task}`)} · <span className={isDue ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-slate-400'}>{dueLabel(scheduled)}</span></p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {scheduled.interval > 0 ? t('careIntervalThisSeason', { count: scheduled.interval }) : t('carePausedThisSeason')}
+                      {' · '}
+                      {scheduled.lastDoneAt ? t('careLastDone', { date: formatDate(scheduled.lastDoneAt) }) : t('careNeverDone')}
+                    </p>
+                  </div>
+                  <button onClick={() => onUpdate(recordCareDone(plant, scheduled.task))} className="px-3 py-1 text-xs font-semibold rounded-full border border-green-300 dark:border-emerald-700 text-green-700 dark:text-emerald-300 hover:bg-green-50 dark:hover:bg-emerald-900/40 flex-shrink-0">{t('markCareDone')}</button>
+                </li>
+              );
+            })}
+          </ul>
+          {reminders.isSupported && <p className="mt-3 text-xs text-gray-500 dark:text-slate-400">{t('careRemindersNote')}</p>}
+        </>
+      ) : identification ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm text-gray-600 dark:text-slate-400 flex-grow">{t('careScheduleMissing')}</p>
+          <button onClick={() => onSelectEntry(identification)} className="px-3 py-1 text-xs font-semibold rounded-full border border-blue-300 dark:border-sky-700 text-blue-700 dark:text-sky-300 hover:bg-blue-100 dark:hover:bg-sky-900/40">{t('openIdentification')}</button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-slate-400">{t('careScheduleNeedsIdentification')}</p>
+      )}
+    </section>
+  );
+};
+
+interface MyPlantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plants: TrackedPlant[];
+  onCreate: (name: string) => void;
+  onUpdate: (plant: TrackedPlant) => void;
+  onDelete: (plantId: string) => void;
+  onAddPhoto: (plantId: string, file: File) => void;
+  onSelectEntry: (entry: HistoryEntry) => void;
+  onFollowUp: (plantId: string) => void;
+  reminders: CareRemindersProps;
+}
+
+export const MyPlantsModal: React.FC<MyPlantsModalProps> = ({ isOpen, onClose, plants, onCreate, onUpdate, onDelete, onAddPhoto, onSelectEntry, onFollowUp, reminders }) => {
+  const { t, language } = useLanguage();
+  const dueLabel = useDueLabel();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [nameDraft, setNameDraft] = useState('');
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const selected = plants.find(plant => plant.id === selectedId);
+
+  useEffect(() => { if (selected) setNameDraft(selected.name); }, [selected?.id]);
+  useEffect(() => { if (!isOpen) setSelectedId(null); }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+  };
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && selected) onAddPhoto(selected.id, file);
+    event.target.value = '';
+  };
+
+  const handleRename = () => {
+    if (selected && nameDraft.trim() && nameDraft.trim() !== selected.name) onUpdate({ ...selected, name: nameDraft.trim() });
+  };
+
+  const handleDelete = () => {
+    if (selected && window.confirm(t('deletePlantConfirm', { name: selected.name }))) {
+      onDelete(selected.id);
+      setSelectedId(null);
+    }
+  };
+
+  const actionClassName = "inline-flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors";
+  const timeline = selected ? buildTimeline(selected) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center gap-4 flex-shrink-0">
+          {selected ? (
+            <div className="flex items-center gap-2 min-w-0 flex-grow">
+              <button onClick={() => setSelectedId(null)} className="p-1 rounded-full text-gray-500 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700 flex-shrink-0" aria-label={t('myPlants')}><Icon name="chevron-down" className="w-6 h-6 rotate-90" /></button>
+              <input type="text" value={nameDraft} onChange={(e) => setNameDraft(e.target.value)} onBlur={handleRename} onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }} className="min-w-0 flex-grow text-2xl font-bold text-green-900 dark:text-emerald-200 bg-transparent border-b border-transparent hover:border-gray-300 focus:border-green-500 focus:outline-none" aria-label={t('plantName')} />
+            </div>
+          ) : <h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200 flex items-center gap-2"><Icon name="pot" className="w-6 h-6" />{t('myPlants')}</h2>}
+          <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition flex-shrink-0"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+
+        {selected ? (
+          <>
+            <div className="px-6 py-3 border-b border-gray-200 dark:border-slate-700 flex flex-wrap gap-2 flex-shrink-0">
+              <button onClick={() => photoInputRef.current?.click()} className={`${actionClassName} bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600`}><Icon name="camera" className="w-4 h-4" />{t('addPlantPhoto')}</button>
+              <input ref={photoInputRef} type="file" accept="image/*" className="hidden" onChange={handlePhotoChange} />
+              <button onClick={() => onFollowUp(selected.id)} className={`${actionClassName} bg-green-600 text-white hover:bg-green-700`}><Icon name="bug" className="w-4 h-4" />{t('followUpDiagnosis')}</button>
+              <button onClick={handleDelete} className={`${actionClassName} ml-auto text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30`}><Icon name="trash" className="w-4 h-4" />{t('deletePlant')}</button>
+            </div>
+            <div className="overflow-y-auto p-4 flex-grow">
+              <CareSchedulePanel plant={selected} onUpdate={onUpdate} onSelectEntry={onSelectEntry} reminders={reminders} />
+              {timeline.length > 0
+                ? <ol className="space-y-2">{timeline.map(event => <TimelineItem key={`${event.type}-${event.type === 'entry' ? event.entry.id : event.type === 'photo' ? event.photo.id : event.type === 'care' ? event.care.id : event.treatment.id}`} event={event} plant={selected} onUpdate={onUpdate} onSelectEntry={onSelectEntry} />)}</ol>
+                : <p className="text-center p-8 text-gray-500 dark:text-slate-400">{t('timelineEmpty')}</p>}
+            </div>
+          </>
+        ) : (
+          <div className="overflow-y-auto p-4 flex-grow">
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-3">{t('myPlantsDescription')}</p>
+            <form onSubmit={handleCreate} className="flex gap-2 mb-4">
+              <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder={t('newPlantPlaceholder')} className="flex-grow min-w-0 px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:focus:ring-emerald-500 dark:text-slate-200" />
+              <button type="submit" disabled={!newName.trim()} className="px-4 py-2 text-sm font-semibold rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50">{t('createPlant')}</button>
+            </form>
+            {plants.length > 0 ? (
+              <ul>
+                {[...plants].reverse().map(plant => {
+                  const image = latestPlantImage(plant);
+                  const identification = latestIdentification(plant);
+                  const nextTask = getCareSchedule(plant)[0];
+                  return (
+                    <li key={plant.id}>
+                      <button onClick={() => setSelectedId(plant.id)} className="w-full text-left p-3 flex items-center gap-4 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors">
+                        {image ? <img src={image} alt="" className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0" /> : <div className="w-16 h-16 rounded-md bg-green-50 dark:bg-slate-700 flex items-center justify-center flex-shrink-0"><Icon name="pot" className="w-8 h-8 text-green-300 dark:text-slate-500" /></div>}
+                        <div className="min-w-0">
+                          <p className="font-semibold text-green-800 dark:text-emerald-300 truncate">{plant.name}</p>
+                          {identification && <p className="text-sm text-gray-500 dark:text-slate-400 italic truncate">{entryTitle(identification, language)}</p>}
+                          <p className="text-xs text-gray-500 dark:text-slate-400">{t('timelineEventCount', { count: plant.entries.length + plant.photos.length + plant.treatments.length + (plant.careLog?.length || 0) })}</p>
+                          {nextTask && <p className={`text-xs font-semibold flex items-center gap-1 ${daysUntilDue(nextTask) <= 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-700 dark:text-sky-300'}`}><Icon name={CARE_TASK_ICONS[nextTask.task]} className="w-3 h-3" />{t(`careTask_${nextTask.task}`)} · {dueLabel(nextTask)}</p>}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <div className="text-center p-8"><Icon name="pot" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('noTrackedPlants')}</p></div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { HistoryEntry, ToxicityInfo } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { WORLD_OUTLINE } from '../services/worldOutline';
+import { Icon } from './Icons';
+
+interface ObservationMapModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[];
+  onSelectItem: (item: HistoryEntry) => void;
+}
+
+type ColorMode = 'toxicity' | 'type';
+
+interface Cluster {
+  x: number;
+  y: number;
+  entries: HistoryEntry[];
+}
+
+// Equirectangular projection: 2 units per degree, so the whole world is 720x360.
+const MAP_WIDTH = 720;
+const MAP_HEIGHT = 360;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 64;
+const MARKER_RADIUS = 7; // Screen-space sizes, divided by the zoom when drawing
+const CLUSTER_CELL = 28;
+
+const project = (longitude: number, latitude: number) => ({ x: (longitude + 180) * 2, y: (90 - latitude) * 2 });
+
+const OUTLINE_PATH = WORLD_OUTLINE.map(ring => ring.map(([lon, lat], i) => {
+  const { x, y } = project(lon, lat);
+  return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+}).join('') + 'Z').join('');
+
+const TOXICITY_ORDER: ToxicityInfo['nivelToxicidad'][] = ['None', 'Low', 'Medium', 'High', 'Lethal'];
+const TOXICITY_COLORS: Record<ToxicityInfo['nivelToxicidad'], string> = { None: '#22c55e', Low: '#eab308', Medium: '#f97316', High: '#ef4444', Lethal: '#9333ea' };
+const TYPE_COLORS = { plant: '#16a34a', disease: '#dc2626' };
+const UNKNOWN_COLOR = '#64748b';
+
+// Clusters take the most severe toxicity they contain, so a dangerous plant is never hidden behind a green dot.
+const clusterColor = (entries: HistoryEntry[], mode: ColorMode): string => {
+  if (mode === 'type') {
+    const plants = entries.filter(entry => entry.type === 'plant').length;
+    return plants >= entries.length - plants ? TYPE_COLORS.plant : TYPE_COLORS.disease;
+  }
+  const levels = entries.map(entry => TOXICITY_ORDER.indexOf(entry.plantInfo?.toxicidad.nivelToxicidad as ToxicityInfo['nivelToxicidad'])).filter(index => index >= 0);
+  return levels.length > 0 ? TOXICITY_COLORS[TOXICITY_ORDER[Math.max(...levels)]] : UNKNOWN_COLOR;
+};
+
+const fitView = (entries: HistoryEntry[]) => {
+  if (entries.length === 0) return { cx: MAP_WIDTH / 2, cy: MAP_HEIGHT / 2, zoom: MIN_ZOOM };
+  const points = entries.map(entry => project(entry.location!.longitude, entry.location!.latitude));
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const zoom = Math.min(MAX_ZOOM / 4, Math.max(MIN_ZOOM, Math.min(MAP_WIDTH / ((maxX - minX) * 1.4 || 1), MAP_HEIGHT / ((maxY - minY) * 1.4 || 1))));
+  return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, zoom };
+};
+
+export const ObservationMapModal: React.FC<ObservationMapModalProps> = ({ isOpen, onClose, entries, onSelectItem }) => {
+  const { t, formatDate } = useLanguage();
+  const located = useMemo(() => entries.filter(entry => entry.location), [entries]);
+  const [colorMode, setColorMode] = useState<ColorMode>('toxicity');
+  const [view, setView] = useState(() => fitView(located));
+  const [openCluster, setOpenCluster] = useState<Cluster | null>(null);
+  const dragRef = useRef<{ x: number; y: number; cx: number; cy: number; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (isOpen) { setView(fitView(located)); setOpenCluster(null); }
+  }, [isOpen, located]);
+
+  const clusters = useMemo(() => {
+    const cell = CLUSTER_CELL / view.zoom;
+    const cells = new Map<string, Cluster>();
+    for (const entry of located) {
+      const { x, y } = project(entry.location!.longitude, entry.location!.latitude);
+      const key = `${Math.floor(x / cell)}:${Math.floor(y / cell)}`;
+      const cluster = cells.get(key);
+      if (cluster) {
+        cluster.x = (cluster.x * cluster.entries.length + x) / (cluster.entries.length + 1);
+        cluster.y = (cluster.y * cluster.entries.length + y) / (cluster.entries.length + 1);
+        cluster.entries.push(entry);
+      } else {
+        cells.set(key, { x, y, entries: [entry] });
+      }
+    }
+    return Array.from(cells.values());
+  }, [located, view.zoom]);
+
+  if (!isOpen) return null;
+
+  const viewWidth = MAP_WIDTH / view.zoom;
+  const viewHeight = MAP_HEIGHT / view.zoom;
+  const viewBox = `${view.cx - viewWidth / 2} ${view.cy - viewHeight / 2} ${viewWidth} ${viewHeight}`;
+
+  const zoomBy = (factor: number, cx = view.cx, cy = view.cy) => setView({ cx, cy, zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor)) });
+
+  const handleClusterClick = (cluster: Cluster) => {
+    if (cluster.entries.length === 1) { onSelectItem(cluster.entries[0]); return; }
+    const samePlace = cluster.entries.every(entry => entry.location!.latitude === cluster.entries[0].location!.latitude && entry.location!.longitude === cluster.entries[0].location!.longitude);
+    if (samePlace || view.zoom >= MAX_ZOOM) { setOpenCluster(cluster); return; }
+    zoomBy(4, cluster.x, cluster.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, cx: view.cx, cy: view.cy, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !svgRef.current) return;
+    const scale = viewWidth / svgRef.current.getBoundingClientRect().width;
+    const dx = (e.clientX - drag.x) * scale;
+    const dy = (e.clientY - drag.y) * scale;
+    if (Math.abs(e.clientX - drag.x) + Math.abs(e.clientY - drag.y) > 3) drag.moved = true;
+    setView(prev => ({ ...prev, cx: drag.cx - dx, cy: drag.cy - dy }));
+  };
+
+  const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => zoomBy(e.deltaY < 0 ? 1.5 : 1 / 1.5);
+
+  const legend = colorMode === 'toxicity'
+    ? TOXICITY_ORDER.map(level => ({ color: TOXICITY_COLORS[level], label: t(`toxicityLevel_${level}`) })).concat([{ color: UNKNOWN_COLOR, label: t('mapLegendUnknown') }])
+    : [{ color: TYPE_COLORS.plant, label: t('mapLegendPlant') }, { color: TYPE_COLORS.disease, label: t('mapLegendDisease') }];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200">{t('observationMapTitle')}</h2>
+          <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="p-4 border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50 flex flex-wrap items-center justify-between gap-2 flex-shrink-0">
+          <select value={colorMode} onChange={(e) => setColorMode(e.target.value as ColorMode)} className="px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:focus:ring-emerald-500 dark:text-slate-200">
+            <option value="toxicity">{t('mapColorByToxicity')}</option>
+            <option value="type">{t('mapColorByType')}</option>
+          </select>
+          <div className="flex flex-wrap gap-3 text-xs text-gray-600 dark:text-slate-400">
+            {legend.map(({ color, label }) => <span key={label} className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: color }} />{label}</span>)}
+          </div>
+        </div>
+        <div className="relative flex-grow overflow-hidden">
+          {located.length === 0 ? (
+            <div className="text-center p-10"><Icon name="map" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('observationMapEmpty')}</p></div>
+          ) : (
+            <>
+              <svg ref={svgRef} viewBox={viewBox} className="w-full h-auto bg-sky-100 dark:bg-slate-900 touch-none select-none cursor-grab" style={{ aspectRatio: `${MAP_WIDTH} / ${MAP_HEIGHT}` }}
+                onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={() => { setTimeout(() => { dragRef.current = null; }, 0); }} onPointerLeave={() => { dragRef.current = null; }} onWheel={handleWheel}>
+                <path d={OUTLINE_PATH} className="fill-green-50 dark:fill-slate-700 stroke-green-300 dark:stroke-slate-500" strokeWidth={0.6 / view.zoom} />
+                {clusters.map((cluster, index) => {
+                  const count = cluster.entries.length;
+                  const radius = (count > 1 ? MARKER_RADIUS + Math.min(8, Math.log2(count) * 2) : MARKER_RADIUS) / view.zoom;
+                  const title = count === 1 ? (cluster.entries[0].plantInfo?.nombreComun || cluster.entries[0].diseaseInfo?.nombreEnfermedad || '') : t('mapClusterCount', { count });
+                  return (
+                    <g key={index} className="cursor-pointer" onClick={() => { if (!dragRef.current?.moved) handleClusterClick(cluster); }}>
+                      <title>{title}</title>
+                      <circle cx={cluster.x} cy={cluster.y} r={radius} fill={clusterColor(cluster.entries, colorMode)} stroke="white" strokeWidth={1.5 / view.zoom} />
+                      {count > 1 && <text x={cluster.x} y={cluster.y} dy="0.35em" textAnchor="middle" fill="white" fontSize={9 / view.zoom} fontWeight="bold">{count}</text>}
+                    </g>
+                  );
+                })}
+              </svg>
+              <div className="absolute top-2 right-2 flex flex-col gap-1">
+                <button onClick={() => zoomBy(2)} className="w-8 h-8 bg-white dark:bg-slate-700 rounded shadow font-bold text-gray-700 dark:text-slate-200" aria-label={t('mapZoomIn')}>+</button>
+                <button onClick={() => zoomBy(0.5)} className="w-8 h-8 bg-white dark:bg-slate-700 rounded shadow font-bold text-gray-700 dark:text-slate-200" aria-label={t('mapZoomOut')}>−</button>
+              </div>
+            </>
+          )}
+        </div>
+        {openCluster && (
+          <ul className="p-2 border-t border-gray-200 dark:border-slate-700 max-h-48 overflow-y-auto flex-shrink-0">
+            {openCluster.entries.map(item => (
+              <li key={item.id}><button onClick={() => onSelectItem(item)} className="w-full text-left p-2 flex items-center gap-3 rounded-lg hover:bg-green-50 dark:hover:bg-emerald-900/50 transition-colors"><img src={item.imageSrc} alt="" className="w-10 h-10 object-cover rounded-md flex-shrink-0" /><span className="font-semibold text-green-800 dark:text-emerald-300">{item.plantInfo?.nombreComun || item.diseaseInfo?.nombreEnfermedad}</span><span className="text-xs text-gray-500 dark:text-slate-400 ml-auto">{formatDate(item.capturedAt ?? item.timestamp)}</span></button></li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
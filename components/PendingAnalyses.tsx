@@ -0,0 +1,54 @@
+import React from 'react';
+import { PendingAnalysis } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Icon } from './Icons';
+
+export interface PendingAnalysisListProps {
+  pending: PendingAnalysis[];
+  runningId: string | null;
+  isOnline: boolean;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+// At the top of the history: photos analyzed without a connection, with where each one stands.
+export const PendingAnalysisList: React.FC<PendingAnalysisListProps> = ({ pending, runningId, isOnline, onRetry, onDiscard }) => {
+  const { t, formatDate } = useLanguage();
+  if (pending.length === 0) return null;
+
+  return (
+    <ul className="mb-2 pb-2 border-b border-gray-200 dark:border-slate-700">
+      {pending.map(analysis => {
+        const isRunning = analysis.id === runningId;
+        return (
+          <li key={analysis.id} className="p-4 flex items-center gap-4">
+            <img src={analysis.photos[0]?.src} alt="" className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0 opacity-75" />
+            <div className="flex-grow min-w-0">
+              <p className="font-semibold text-gray-700 dark:text-slate-300 flex items-center gap-2">
+                <Icon name={analysis.type === 'plant' ? 'leaf' : 'bug'} className="w-4 h-4 text-gray-400 dark:text-slate-500" />
+                {t(analysis.type === 'plant' ? 'pendingIdentification' : 'pendingDiagnosis')}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-slate-400">{formatDate(analysis.createdAt, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+              {isRunning ? (
+                <span className="mt-1 inline-flex items-center gap-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300"><span className="w-3 h-3 border-2 border-t-transparent border-current rounded-full animate-spin"></span>{t('pendingRunning')}</span>
+              ) : analysis.error ? (
+                <>
+                  <span className="mt-1 inline-block px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300">{t('pendingFailed')}</span>
+                  <p className="text-xs text-red-700 dark:text-red-400 break-words">{analysis.error}</p>
+                </>
+              ) : (
+                <span className="mt-1 inline-block px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300">{t(isOnline ? 'pendingQueued' : 'pendingOffline')}</span>
+              )}
+            </div>
+            {!isRunning && (
+              <div className="flex flex-col gap-1 flex-shrink-0">
+                <button onClick={() => onRetry(analysis.id)} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-green-100 dark:hover:bg-emerald-900/50 hover:text-green-700 dark:hover:text-emerald-400 transition-colors" aria-label={t('pendingRetry')} title={t('pendingRetry')}><Icon name="refresh" className="w-5 h-5" /></button>
+                <button onClick={() => onDiscard(analysis.id)} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-600 dark:hover:text-red-400 transition-colors" aria-label={t('pendingDiscard')} title={t('pendingDiscard')}><Icon name="trash" className="w-5 h-5" /></button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { PlantInfo, SafetyProfile } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getToxicityWarnings, isSafetyProfileEmpty } from '../services/safetyProfile';
+import { Icon } from './Icons';
+
+interface SafetyBannersProps {
+  plantInfo: PlantInfo;
+  profile: SafetyProfile;
+  isTailored: boolean; // The profile was written for the current safety profile
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
+// Contraindications for the user, at the top of a plant profile: the ones the model wrote for their
+// safety profile, plus those that follow from the toxicity level alone.
+export const SafetyBanners: React.FC<SafetyBannersProps> = ({ plantInfo, profile, isTailored, onRefresh, isRefreshing = false }) => {
+  const { t } = useLanguage();
+  if (isSafetyProfileEmpty(profile)) return null;
+
+  const alerts = isTailored ? plantInfo.alertasPerfil || [] : [];
+  const warnings = getToxicityWarnings(profile, plantInfo.toxicidad?.nivelToxicidad);
+  const items = [...warnings.map(warning => t(`safetyWarning_${warning}`)), ...alerts];
+
+  return (
+    <div className="mb-6 space-y-3">
+      {items.length > 0 && (
+        <div className="p-4 rounded-xl border-2 border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/30" role="alert">
+          <h3 className="flex items-center gap-2 font-bold text-lg text-red-800 dark:text-red-300 mb-2"><Icon name="cross" className="w-6 h-6 flex-shrink-0" />{t('safetyBannerTitle')}</h3>
+          <ul className="list-disc pl-8 space-y-1 text-red-800 dark:text-red-200">{items.map((item, i) => <li key={i} className="break-words">{item}</li>)}</ul>
+        </div>
+      )}
+      {!isTailored && (
+        <div className="hide-on-export p-3 rounded-lg border border-amber-200 dark:border-amber-800/50 bg-amber-50 dark:bg-amber-900/30 flex flex-wrap items-center gap-3 text-sm">
+          <Icon name="shield" className="w-5 h-5 text-amber-700 dark:text-amber-400 flex-shrink-0" />
+          <span className="flex-grow text-amber-800 dark:text-amber-300">{t('safetyNotTailored')}</span>
+          {onRefresh && (
+            <button onClick={onRefresh} disabled={isRefreshing} className="inline-flex items-center gap-2 px-3 py-1 bg-amber-600 text-white font-semibold rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-60 disabled:cursor-wait">
+              {isRefreshing && <span className="w-3 h-3 border-2 border-t-transparent border-white rounded-full animate-spin"></span>}
+              {t('safetyTailorNow')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
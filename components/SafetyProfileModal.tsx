@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { SafetyProfile } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { addListItem } from '../services/interactions';
+import { EMPTY_SAFETY_PROFILE } from '../services/safetyProfile';
+import { Icon } from './Icons';
+
+interface SafetyProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: SafetyProfile;
+  onSave: (profile: SafetyProfile) => void;
+}
+
+// Plant families behind most herbal allergies; the names are botanical, so they are not translated.
+const COMMON_ALLERGENS = ['Asteraceae', 'Apiaceae', 'Lamiaceae'];
+const PET_KEYS = ['pet_dog', 'pet_cat', 'pet_rabbit', 'pet_bird', 'pet_horse'];
+
+interface ListFieldProps {
+  label: string;
+  placeholder: string;
+  items: string[];
+  suggestions?: string[];
+  onChange: (items: string[]) => void;
+}
+
+const ListField: React.FC<ListFieldProps> = ({ label, placeholder, items, suggestions = [], onChange }) => {
+  const { t } = useLanguage();
+  const [input, setInput] = useState('');
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(addListItem(items, input));
+    setInput('');
+  };
+  const missing = suggestions.filter(suggestion => !items.includes(suggestion));
+
+  return (
+    <div>
+      <h3 className="font-semibold text-gray-700 dark:text-slate-300 mb-2">{label}</h3>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input type="text" value={input} onChange={(e) => setInput(e.target.value)} placeholder={placeholder} className="flex-grow min-w-0 px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:focus:ring-emerald-500 dark:text-slate-200" />
+        <button type="submit" disabled={!input.trim()} className="px-4 py-2 text-sm font-semibold rounded-md bg-green-50 dark:bg-emerald-900/40 text-green-800 dark:text-emerald-300 hover:bg-green-100 dark:hover:bg-emerald-900/70 disabled:opacity-50">{t('add')}</button>
+      </form>
+      {(items.length > 0 || missing.length > 0) && (
+        <ul className="flex flex-wrap gap-2 mt-2">
+          {items.map(item => (
+            <li key={item} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 text-sm rounded-full bg-green-100 dark:bg-emerald-900/50 text-green-800 dark:text-emerald-200">
+              {item}
+              <button type="button" onClick={() => onChange(items.filter(other => other !== item))} className="p-1 rounded-full hover:bg-green-200 dark:hover:bg-emerald-800" aria-label={t('removeListItem', { name: item })}><Icon name="trash" className="w-3 h-3" /></button>
+            </li>
+          ))}
+          {missing.map(suggestion => (
+            <li key={suggestion}>
+              <button type="button" onClick={() => onChange(addListItem(items, suggestion))} className="px-3 py-1 text-sm rounded-full border border-dashed border-gray-300 dark:border-slate-600 text-gray-600 dark:text-slate-400 hover:bg-gray-50 dark:hover:bg-slate-700">+ {suggestion}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const SafetyProfileModal: React.FC<SafetyProfileModalProps> = ({ isOpen, onClose, profile, onSave }) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<SafetyProfile>(profile);
+
+  useEffect(() => {
+    if (isOpen) setDraft(profile);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<SafetyProfile>) => setDraft(prev => ({ ...prev, ...changes }));
+  const handleSave = () => { onSave(draft); onClose(); };
+  const pregnancyOptions: SafetyProfile['pregnancy'][] = ['none', 'pregnant', 'breastfeeding'];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200 flex items-center gap-2"><Icon name="shield" className="w-6 h-6" />{t('safetyProfileTitle')}</h2>
+          <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-5">
+          <p className="text-sm text-gray-600 dark:text-slate-400">{t('safetyProfileDescription')}</p>
+
+          <div>
+            <h3 className="font-semibold text-gray-700 dark:text-slate-300 mb-2">{t('safetyPregnancy')}</h3>
+            <div className="flex w-full bg-gray-100 dark:bg-slate-700 rounded-full p-1">
+              {pregnancyOptions.map(option => (
+                <button key={option} type="button" onClick={() => update({ pregnancy: option })} className={`flex-1 py-1.5 px-2 rounded-full text-sm font-semibold transition-colors ${draft.pregnancy === option ? 'bg-white dark:bg-slate-800 shadow text-green-800 dark:text-emerald-200' : 'text-gray-600 dark:text-slate-300'}`}>{t(`safetyPregnancy_${option}`)}</button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 cursor-pointer">
+            <span className="font-semibold text-gray-700 dark:text-slate-300">{t('safetyChildren')}</span>
+            <input type="checkbox" checked={draft.childrenAtHome} onChange={(e) => update({ childrenAtHome: e.target.checked })} className="w-5 h-5 accent-green-600" />
+          </label>
+
+          <ListField label={t('safetyPets')} placeholder={t('safetyPetsPlaceholder')} items={draft.pets} suggestions={PET_KEYS.map(key => t(key))} onChange={(pets) => update({ pets })} />
+          <ListField label={t('safetyAllergies')} placeholder={t('safetyAllergiesPlaceholder')} items={draft.allergies} suggestions={COMMON_ALLERGENS} onChange={(allergies) => update({ allergies })} />
+          <ListField label={t('safetyConditions')} placeholder={t('safetyConditionsPlaceholder')} items={draft.conditions} onChange={(conditions) => update({ conditions })} />
+
+          <p className="text-xs text-gray-500 dark:text-slate-400">{t('safetyProfilePrivacyNote')}</p>
+        </div>
+        <div className="p-4 border-t border-gray-200 dark:border-slate-700 flex justify-between gap-3 flex-shrink-0">
+          <button onClick={() => setDraft({ ...EMPTY_SAFETY_PROFILE })} className="px-4 py-2 text-sm font-semibold text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30">{t('safetyProfileClear')}</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-green-600 text-white text-sm font-semibold rounded-md hover:bg-green-700 transition-colors">{t('save')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { canTranslate, getEntryLanguage, getPartLanguage, localizeEntry } from '../services/entryTranslation';
+import { Icon } from './Icons';
+
+interface TranslationNoticeProps {
+  entry: HistoryEntry; // As stored, not localized
+  showOriginal: boolean;
+  onToggleOriginal: () => void;
+  onTranslate: () => void;
+  isTranslating: boolean;
+}
+
+// Shown above a saved entry written in another language: offers to translate it, or says it has
+// been translated and lets the reader switch back to the original.
+export const TranslationNotice: React.FC<TranslationNoticeProps> = ({ entry, showOriginal, onToggleOriginal, onTranslate, isTranslating }) => {
+  const { t, language, languageName } = useLanguage();
+  const isPending = canTranslate(entry, language);
+  const isTranslated = localizeEntry(entry, language) !== entry;
+  if (!isPending && !isTranslated) return null;
+
+  const sourceLanguage = [getEntryLanguage(entry), getPartLanguage(entry, 'careGuide')].find(part => part !== language);
+  const message = isPending
+    ? (sourceLanguage ? t('translationSavedIn', { language: languageName(sourceLanguage) }) : t('translationSavedInUnknown'))
+    : showOriginal
+      ? t('translationShowingOriginal')
+      : (sourceLanguage ? t('translationShowing', { language: languageName(sourceLanguage) }) : t('translationShowingUnknown'));
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mt-4 -mb-4 px-4 py-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-xl shadow flex flex-wrap items-center gap-3 text-sm">
+      <Icon name="globe" className="w-5 h-5 text-green-700 dark:text-emerald-400 flex-shrink-0" />
+      <span className="flex-grow text-gray-700 dark:text-slate-300">{message}</span>
+      {isTranslated && (
+        <button onClick={onToggleOriginal} className="font-semibold text-gray-600 dark:text-slate-300 hover:underline">{showOriginal ? t('showTranslation') : t('showOriginal')}</button>
+      )}
+      {isPending && (
+        <button onClick={onTranslate} disabled={isTranslating} className="inline-flex items-center gap-2 px-3 py-1 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors disabled:opacity-60 disabled:cursor-wait">
+          {isTranslating && <span className="w-3 h-3 border-2 border-t-transparent border-white rounded-full animate-spin"></span>}
+          {isTranslating ? t('translatingEntry') : t('translateEntry', { language: languageName(language) })}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { UsageRecord } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAiProvider } from '../contexts/AiProviderContext';
+import { clearUsageRecords } from '../services/plantRepository';
+import { loadUsageRecords, startOfMonth, summarizeUsage, UsageTotals } from '../services/usageLog';
+import { Icon } from './Icons';
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose }) => {
+  const { t, formatDate } = useLanguage();
+  const { settings, saveSettings } = useAiProvider();
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setBudgetInput(settings.monthlyBudgetUsd ? String(settings.monthlyBudgetUsd) : '');
+    setIsLoading(true);
+    setLoadFailed(false);
+    // The month may have started more than DAYS_SHOWN ago; load whichever window is wider.
+    loadUsageRecords(Math.min(startOfMonth(), Date.now() - DAYS_SHOWN * DAY_MS))
+      .then(setRecords)
+      .catch(e => { console.error("Failed to load the usage log", e); setLoadFailed(true); })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const monthStart = startOfMonth();
+  const month = useMemo(() => summarizeUsage(records.filter(record => record.timestamp >= monthStart)), [records, monthStart]);
+  const recentDays = useMemo(() => summarizeUsage(records.filter(record => record.timestamp >= Date.now() - DAYS_SHOWN * DAY_MS)).byDay, [records]);
+
+  if (!isOpen) return null;
+
+  const budget = settings.monthlyBudgetUsd;
+  const budgetUsed = budget > 0 ? Math.min(1, month.total.cost / budget) : 0;
+  const isOverBudget = budget > 0 && month.total.cost >= budget;
+
+  const handleSaveBudget = () => {
+    const value = parseFloat(budgetInput.replace(',', '.'));
+    saveSettings({ ...settings, monthlyBudgetUsd: Number.isFinite(value) && value > 0 ? value : 0 });
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('usageClearConfirm'))) return;
+    try {
+      await clearUsageRecords();
+      setRecords([]);
+    } catch (e) {
+      console.error("Failed to clear the usage log", e);
+    }
+  };
+
+  const featureLabel = (feature: string) => t(`usageFeature_${feature}`);
+  const dayLabel = (day: string) => formatDate(new Date(`${day}T00:00:00`), { weekday: 'short', day: 'numeric', month: 'short' });
+
+  const renderRow = (label: string, totals: UsageTotals, showLatency: boolean) => (
+    <tr key={label} className="border-t border-gray-100 dark:border-slate-700">
+      <td className="py-2 pr-2 font-medium text-gray-800 dark:text-slate-200">{label}</td>
+      <td className="py-2 px-2 text-right">{totals.requests}{totals.failures > 0 && <span className="text-red-600 dark:text-red-400"> ({totals.failures})</span>}</td>
+      <td className="py-2 px-2 text-right">{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</td>
+      <td className="py-2 px-2 text-right">{totals.images}</td>
+      {showLatency && <td className="py-2 px-2 text-right">{(totals.latencyMs / Math.max(1, totals.requests) / 1000).toFixed(1)} s</td>}
+      <td className="py-2 pl-2 text-right font-semibold">{formatCost(totals.cost)}</td>
+    </tr>
+  );
+
+  const renderTable = (title: string, rows: [string, UsageTotals][], label: (key: string) => string, showLatency: boolean) => (
+    <div>
+      <h3 className="font-bold text-lg text-green-900 dark:text-emerald-200 mb-2">{title}</h3>
+      {rows.length === 0 ? <p className="text-sm text-gray-500 dark:text-slate-400">{t('usageEmpty')}</p> : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-gray-600 dark:text-slate-400">
+            <thead>
+              <tr className="text-xs uppercase tracking-wide text-gray-500 dark:text-slate-500">
+                <th className="py-1 pr-2 text-left font-semibold"></th>
+                <th className="py-1 px-2 text-right font-semibold">{t('usageRequests')}</th>
+                <th className="py-1 px-2 text-right font-semibold">{t('usageTokens')}</th>
+                <th className="py-1 px-2 text-right font-semibold">{t('usageImages')}</th>
+                {showLatency && <th className="py-1 px-2 text-right font-semibold">{t('usageLatency')}</th>}
+                <th className="py-1 pl-2 text-right font-semibold">{t('usageCost')}</th>
+              </tr>
+            </thead>
+            <tbody>{rows.map(([key, totals]) => renderRow(label(key), totals, showLatency))}</tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-2xl font-bold text-green-900 dark:text-emerald-200 flex items-center gap-2"><Icon name="chart" className="w-6 h-6" />{t('usageTitle')}</h2>
+          <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center py-10"><div className="w-8 h-8 border-4 border-green-500 border-t-transparent rounded-full animate-spin" /></div>
+          ) : loadFailed ? (
+            <p className="text-center text-red-600 dark:text-red-400">{t('usageLoadError')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {[
+                  { label: t('usageMonthCost'), value: formatCost(month.total.cost) },
+                  { label: t('usageRequests'), value: String(month.total.requests) },
+                  { label: t('usageTokens'), value: formatTokens(month.total.inputTokens + month.total.outputTokens) },
+                  { label: t('usageImages'), value: String(month.total.images) },
+                ].map(({ label, value }) => (
+                  <div key={label} className="bg-green-50 dark:bg-slate-900/50 rounded-lg p-3 text-center">
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{label}</p>
+                    <p className="text-xl font-bold text-green-800 dark:text-emerald-300">{value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-gray-50 dark:bg-slate-900/50 rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-end gap-2">
+                  <label className="flex-grow text-sm font-semibold text-gray-700 dark:text-slate-300">
+                    {t('usageBudgetLabel')}
+                    <input type="number" min="0" step="0.5" inputMode="decimal" value={budgetInput} onChange={(e) => setBudgetInput(e.target.value)} placeholder={t('usageBudgetPlaceholder')} className="mt-1 w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-green-500 dark:focus:ring-emerald-500 dark:text-slate-200" />
+                  </label>
+                  <button onClick={handleSaveBudget} className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-md hover:bg-green-700 transition-colors">{t('usageBudgetSave')}</button>
+                </div>
+                {budget > 0 && (
+                  <>
+                    <div className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                      <div className={`h-full ${isOverBudget ? 'bg-red-500' : budgetUsed > 0.8 ? 'bg-amber-500' : 'bg-green-500'}`} style={{ width: `${budgetUsed * 100}%` }} />
+                    </div>
+                    <p className={`text-sm ${isOverBudget ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-600 dark:text-slate-400'}`}>
+                      {isOverBudget ? t('usageBudgetExceeded', { budget: formatCost(budget) }) : t('usageBudgetProgress', { spent: formatCost(month.total.cost), budget: formatCost(budget) })}
+                    </p>
+                  </>
+                )}
+                <p className="text-xs text-gray-500 dark:text-slate-400">{t('usageBudgetHint')}</p>
+              </div>
+
+              {renderTable(t('usageByFeature'), month.byFeature, featureLabel, true)}
+              {renderTable(t('usageByDay'), recentDays, dayLabel, false)}
+
+              <p className="text-xs text-gray-500 dark:text-slate-400 italic">{t('usageDisclaimer')}</p>
+            </>
+          )}
+        </div>
+        {records.length > 0 && (
+          <div className="p-4 border-t border-gray-200 dark:border-slate-700 flex justify-end flex-shrink-0">
+            <button onClick={handleClear} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"><Icon name="trash" className="w-4 h-4" />{t('usageClear')}</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
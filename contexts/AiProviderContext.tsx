@@ -0,0 +1,40 @@
+import React, { createContext, useState, useContext, ReactNode } from 'react';
+import { AiProviderSettings, getAiProviderSettings, setAiProviderSettings, providerRequiresApiKey } from '../services/aiProvider';
+
+interface AiProviderContextState {
+  settings: AiProviderSettings;
+  saveSettings: (settings: AiProviderSettings) => void;
+  requiresApiKey: boolean;
+}
+
+const AiProviderContext = createContext<AiProviderContextState | undefined>(undefined);
+
+export const AiProviderProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<AiProviderSettings>(getAiProviderSettings);
+
+  const saveSettings = (newSettings: AiProviderSettings) => {
+    setAiProviderSettings(newSettings);
+    setSettings(newSettings);
+    console.log(`[AiProviderContext] Active provider: ${newSettings.provider}`);
+  };
+
+  const value: AiProviderContextState = {
+    settings,
+    saveSettings,
+    requiresApiKey: providerRequiresApiKey(settings.provider),
+  };
+
+  return (
+    <AiProviderContext.Provider value={value}>
+      {children}
+    </AiProviderContext.Provider>
+  );
+};
+
+export const useAiProvider = (): AiProviderContextState => {
+  const context = useContext(AiProviderContext);
+  if (context === undefined) {
+    throw new Error('useAiProvider must be used within an AiProviderProvider');
+  }
+  return context;
+};
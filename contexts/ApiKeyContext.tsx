@@ -1,18 +1,25 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
 
 interface ApiKeyContextState {
-  userApiKey: string | null;
+  userApiKeys: string[]; // Keys entered by the user, in rotation order
+  userApiKey: string | null; // First user key, kept for places that only show one
+  apiKeys: string[]; // Keys the AI client rotates through: the user's, or the system key
   effectiveApiKey: string | null;
   isUserProvided: boolean;
-  saveApiKey: (key: string) => void;
+  saveApiKeys: (keys: string[]) => void;
   clearApiKey: () => void;
   usingSystemKey: boolean;
 }
 
+const STORAGE_KEY = 'userApiKeys';
+const LEGACY_STORAGE_KEY = 'userApiKey';
+
+const normalizeKeys = (keys: string[]) => Array.from(new Set(keys.map(key => key.trim()).filter(Boolean)));
+
 const ApiKeyContext = createContext<ApiKeyContextState | undefined>(undefined);
 
 export const ApiKeyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [userApiKey, setUserApiKey] = useState<string | null>(null);
+  const [userApiKeys, setUserApiKeys] = useState<string[]>([]);
 
   // Logic to retrieve the Environment Key safely.
   // We prioritize VITE_GEMINI_API_KEY from import.meta.env as this is the standard way 
@@ -34,52 +41,66 @@ export const ApiKeyProvider: React.FC<{ children: ReactNode }> = ({ children })
     console.debug("Could not read environment variables directly.");
   }
 
-  // Load manually saved key from LocalStorage on mount
+  // Load manually saved keys from LocalStorage on mount, upgrading the single key older versions stored
   useEffect(() => {
     try {
-      const storedKey = localStorage.getItem('userApiKey');
-      if (storedKey) {
-        console.log("Loaded manual API Key from storage.");
-        setUserApiKey(storedKey);
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const legacyKey = localStorage.getItem(LEGACY_STORAGE_KEY);
+      const storedKeys = stored ? normalizeKeys(JSON.parse(stored)) : legacyKey ? normalizeKeys([legacyKey]) : [];
+      if (!stored && legacyKey) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(storedKeys));
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+      if (storedKeys.length > 0) {
+        console.log(`Loaded ${storedKeys.length} manual API key(s) from storage.`);
+        setUserApiKeys(storedKeys);
       } else {
         console.log("No manual API Key found in storage.");
       }
     } catch (e) {
-      console.error("Failed to read userApiKey from localStorage", e);
+      console.error("Failed to read userApiKeys from localStorage", e);
     }
   }, []);
 
+  const userApiKey = userApiKeys[0] || null;
+  const apiKeys = userApiKeys.length > 0 ? userApiKeys : envApiKey ? [envApiKey] : [];
+
   // Debugging log to see which key is being active
   const effectiveApiKey = userApiKey || envApiKey;
   useEffect(() => {
     if (effectiveApiKey) {
-        const source = userApiKey ? 'Manual (User Override)' : 'System (Environment)';
+        const source = userApiKey ? `Manual (User Override, ${userApiKeys.length} key(s))` : 'System (Environment)';
         const masked = effectiveApiKey.length > 5 ? `${effectiveApiKey.substring(0, 5)}...` : '***';
         console.log(`[ApiKeyContext] Active Key Source: ${source}. Key preview: ${masked}`);
     } else {
         console.log("[ApiKeyContext] No API Key currently configured.");
     }
-  }, [effectiveApiKey, userApiKey]);
+  }, [effectiveApiKey, userApiKey, userApiKeys.length]);
 
-  const saveApiKey = (key: string) => {
-    const trimmedKey = key.trim();
-    if (trimmedKey) {
-      localStorage.setItem('userApiKey', trimmedKey);
-      setUserApiKey(trimmedKey);
+  const saveApiKeys = (keys: string[]) => {
+    const normalized = normalizeKeys(keys);
+    if (normalized.length === 0) {
+      clearApiKey();
+      return;
     }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(normalized));
+    setUserApiKeys(normalized);
   };
 
   const clearApiKey = () => {
-    localStorage.removeItem('userApiKey');
-    setUserApiKey(null);
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    setUserApiKeys([]);
   };
   
   const value: ApiKeyContextState = {
+    userApiKeys,
     userApiKey,
+    apiKeys,
     effectiveApiKey,
-    isUserProvided: !!userApiKey,
-    usingSystemKey: !userApiKey && !!envApiKey,
-    saveApiKey,
+    isUserProvided: userApiKeys.length > 0,
+    usingSystemKey: userApiKeys.length === 0 && !!envApiKey,
+    saveApiKeys,
     clearApiKey,
   };
 
@@ -1,371 +1,133 @@
-import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useMemo } from 'react';
 
-const esTranslations = {
-  "appName": "Herbario IA",
-  "identifyPlant": "Identificar",
-  "diagnosePlant": "Diagnosticar",
-  "findRemedy": "Remedio",
-  "discover": "Descubrir",
-  "discoverTitle": "Descubre el Mundo Botánico",
-  "discoverDescription": "Explora plantas por categorías, encuentra especies locales o sorpréndete con la planta del día.",
-  "plantOfTheDay": "Planta del Día",
-  "exploreCategories": "Explorar por Categorías",
-  "plantsNearYou": "Plantas Cerca de Ti",
-  "findLocalPlantsButton": "Encontrar Plantas Cerca de Mí",
-  "gettingLocation": "Obteniendo tu ubicación...",
-  "findingPlants": "Buscando plantas en tu zona...",
-  "locationPermissionDenied": "Permiso de ubicación denegado. No podemos sugerir plantas locales.",
-  "category_relaxation": "Relajación y Estrés",
-  "category_digestion": "Salud Digestiva",
-  "category_skin": "Cuidado de la Piel",
-  "category_first_aid": "Primeros Auxilios",
-  "searchByNamePlaceholder": "Buscar planta por nombre...",
-  "takePhoto": "Tomar Foto",
-  "uploadFile": "Subir Archivo",
-  "warningDisclaimer": "Advertencia: Esta aplicación es una herramienta con fines educativos e informativos. No constituye consejo médico. Consulta siempre a un profesional cualificado.",
-  "analyzing": "Analizando...",
-  "loadingMessage": "Esto puede tardar un momento.",
-  "errorTitle": "Error",
-  "tryAgain": "Intentar de Nuevo",
-  "history": "Historial",
-  "myHerbarium": "Mi Herbario",
-  "medicinalUses": "Usos Medicinales",
-  "toxicity": "Toxicidad",
-  "sources": "Fuentes",
-  "save": "Guardar",
-  "saved": "Guardado",
-  "compare": "Comparar",
-  "anotherQuery": "Realizar otra consulta",
-  "manageApiKey": "Gestionar Clave de API",
-  "apiKeyModalTitle": "Parece que has alcanzado el límite de consultas o la clave de API no es válida. Puedes introducir tu propia clave de API de Gemini para continuar.",
-  "yourApiKeyLabel": "Tu Clave de API de Gemini",
-  "apiKeyPlaceholder": "Introduce tu clave aquí",
-  "saveAndRetry": "Guardar y Reintentar",
-  "clearKey": "Borrar Clave",
-  "getYourApiKey": "Puedes obtener tu clave de API en {link}. Tu clave se guarda de forma segura solo en tu navegador.",
-  "apiKeyError": "Por favor, configura tu clave de API para continuar.",
-  "unexpectedError": "Ocurrió un error inesperado.",
-  "alsoKnownAs": "También conocida como",
-  "habitat": "Hábitat",
-  "flowering": "Floración",
-  "conservation": "Conservación",
-  "distributionMap": "Mapa de Distribución Geográfica",
-  "culinaryUses": "Usos Culinarios",
-  "activeCompounds": "Principios Activos y sus Usos",
-  "similarPlants": "Plantas con las que se confunde (¡cuidado!)",
-  "preparationsAndRecipes": "Preparaciones y Recetas",
-  "share": "Compartir",
-  "copied": "Copiado",
-  "similarActivePlants": "Otras Plantas con Principios Activos Similares",
-  "sharedActiveCompound": "Principio Activo Compartido",
-  "keyDifference": "Diferencia Clave",
-  "importantDisclaimerSimilar": "Importante: Siempre ten extrema precaución al identificar plantas para consumo. En caso de duda, consulta a un experto. La identificación por IA puede no ser 100% precisa.",
-  "ingredients": "Ingredientes",
-  "instructions": "Instrucciones",
-  "recommendedDose": "Dosis Recomendada",
-  "possibleSideEffects": "Posibles Efectos Secundarios",
-  "historicalContext": "Contexto Histórico",
-  "identifyPlantTitle": "Identifica una planta por nombre o fotografía.",
-  "diagnosePlantTitle": "Sube una foto para diagnosticar un problema.",
-  "remedySearchTitle": "Busca plantas para tratar un síntoma o dolencia.",
-  "orSeparator": "O",
-  "remedySearchPlaceholder": "Escribe un síntoma, dolencia o uso...",
-  "prioritizeLocal": "Priorizar plantas locales",
-  "readyToAnalyze": "¿Lista para ser analizada?",
-  "changePhoto": "Cambiar Foto",
-  "analyze": "Analizar",
-  "textSearchLoading": "Buscando información...",
-  "textSearchLoadingSub": "La generación de imágenes puede tardar un poco más.",
-  "close": "Cerrar",
-  "historyModalTitle": "Historial",
-  "noHistory": "No hay búsquedas en tu historial.",
-  "clearHistory": "Borrar Historial",
-  "clearHistoryConfirm": "¿Estás seguro? Esta acción borrará todo tu historial.",
-  "herbariumModalTitle": "Mi Herbario",
-  "filterByName": "Filtrar por nombre...",
-  "filterByUse": "Filtrar por uso (plantas)...",
-  "sortBy": "Ordenar por",
-  "sortDateDesc": "Más recientes",
-  "sortDateAsc": "Más antiguos",
-  "sortNameAsc": "Nombre (A-Z)",
-  "sortNameDesc": "Nombre (Z-A)",
-  "noHerbarium": "Tu herbario está vacío. ¡Guarda plantas para empezar tu colección!",
-  "exportToJson": "Exportar a JSON",
-  "removeFromHerbarium": "Eliminar del herbario",
-  "remedySuggestionsTitle": "Sugerencias para \"{query}\"",
-  "remedySuggestionsSubtitle": "Hemos encontrado estas plantas que podrían ayudarte. Haz clic en una para ver su ficha completa.",
-  "anotherSearch": "Realizar otra búsqueda",
-  "botanicalComparator": "Comparador Botánico",
-  "selectPlantB": "Seleccionar Planta B",
-  "generateComparison": "Generar Comparación",
-  "backToMainSearch": "Volver a la Búsqueda Principal",
-  "generatingComparison": "Generando comparación...",
-  "comparativeAnalysis": "Análisis Comparativo",
-  "similarities": "Similitudes",
-  "differences": "Diferencias",
-  "symptoms": "Síntomas",
-  "causes": "Causas",
-  "organicTreatment": "Tratamiento Orgánico",
-  "chemicalTreatment": "Tratamiento Químico",
-  "prevention": "Prevención",
-  "diseaseDiagnostic": "Diagnóstico Fitosanitario",
-  "commonlyAffects": "Afecta comúnmente a",
-  "generateCareGuide": "Generar Guía de Cuidado",
-  "careGuide": "Guía de Cuidado",
-  "generating": "Generando...",
-  "watering": "Riego",
-  "light": "Luz",
-  "soil": "Suelo",
-  "temperatureAndHumidity": "Temperatura y Humedad",
-  "fertilization": "Fertilización",
-  "pruningAndPests": "Poda y Plagas",
-  "frequency": "Frecuencia",
-  "method": "Método",
-  "methods": "Métodos",
-  "level": "Nivel",
-  "location": "Ubicación",
-  "type": "Tipo",
-  "drainage": "Drenaje",
-  "temperature": "Temperatura",
-  "humidity": "Humedad",
-  "pruning": "Poda",
-  "commonPests": "Plagas Comunes",
-  "repotting": "Trasplante",
-  "propagation": "Propagación",
-  "additionalTips": "Consejos Adicionales",
-  "airPurification": "Purificación del Aire",
-  "petSafety": "Seguridad para Mascotas",
-  "funFact": "Dato Curioso",
-  "appManual": "Manual de la App",
-  "imageGenerationFailedWarning": "No se pudo generar la imagen. Esto puede ocurrir si la clave de API no tiene permisos para el modelo de generación de imágenes.",
-  "toxicityLevel": "Nivel de Toxicidad",
-  "toxicCompounds": "Compuestos Tóxicos",
-  "affectedSystems": "Sistemas Afectados",
-  "firstAid": "Primeros Auxilios",
-  "toxicityLevel_None": "Ninguna",
-  "toxicityLevel_Low": "Baja",
-  "toxicityLevel_Medium": "Media",
-  "toxicityLevel_High": "Alta",
-  "toxicityLevel_Lethal": "Letal",
-  "exportToPdf": "Exportar a PDF",
-  "exporting": "Exportando...",
-  "dosageNotSpecified": "Dosis no especificada. Consultar a un profesional.",
-  "savedToHerbarium": "¡Guardado en tu Herbario!",
-  "sharing": "Compartiendo...",
-  "checkOutPlant": "Echa un vistazo a esta planta:",
-  "identifiedWith": "identificada con",
-  "principiosActivos": "Principios Activos",
-  "diferenciasBotanicas": "Diferencias Botánicas",
-  "compartidos": "Compartidos",
-  "unicos": "Únicos",
-  "unicosPlantaA": "Únicos de {plantName}",
-  "unicosPlantaB": "Únicos de {plantName}",
-  "apariencia": "Apariencia",
-  "toggleTheme": "Cambiar tema"
-};
+// --- LOCALES ---
+// UI strings live in locales/<language>.json, so adding a language means adding a file there.
+// Each file is its own chunk and only the active language and its fallbacks are ever downloaded.
+
+export type Language = string;
+
+type Translations = Record<string, string>;
+type Replacements = { [key: string]: string | number };
+
+const LOCALE_FILES = import.meta.glob<Translations>('../locales/*.json', { import: 'default' });
+
+export const SUPPORTED_LANGUAGES: Language[] = Object.keys(LOCALE_FILES)
+  .map(path => path.match(/([^/]+)\.json$/)?.[1])
+  .filter((language): language is Language => !!language)
+  .sort();
+
+export const DEFAULT_LANGUAGE: Language = 'es';
+
+// A key missing from the active locale is looked up in English, then in Spanish (the app's
+// original language, always complete), and only then shown as the raw key.
+const FALLBACK_LANGUAGES: Language[] = ['en', 'es'];
 
-const enTranslations = {
-  "appName": "AI Herbarium",
-  "identifyPlant": "Identify",
-  "diagnosePlant": "Diagnose",
-  "findRemedy": "Remedy",
-  "discover": "Discover",
-  "discoverTitle": "Discover the Botanical World",
-  "discoverDescription": "Explore plants by category, find local species, or be surprised by the plant of the day.",
-  "plantOfTheDay": "Plant of the Day",
-  "exploreCategories": "Explore by Categories",
-  "plantsNearYou": "Plants Near You",
-  "findLocalPlantsButton": "Find Plants Near Me",
-  "gettingLocation": "Getting your location...",
-  "findingPlants": "Finding plants in your area...",
-  "locationPermissionDenied": "Location permission denied. We cannot suggest local plants.",
-  "category_relaxation": "Relaxation & Stress",
-  "category_digestion": "Digestive Health",
-  "category_skin": "Skin Care",
-  "category_first_aid": "First Aid",
-  "searchByNamePlaceholder": "Search plant by name...",
-  "takePhoto": "Take Photo",
-  "uploadFile": "Upload File",
-  "warningDisclaimer": "Warning: This application is an educational and informational tool. It does not constitute medical advice. Always consult a qualified professional.",
-  "analyzing": "Analyzing...",
-  "loadingMessage": "This may take a moment.",
-  "errorTitle": "Error",
-  "tryAgain": "Try Again",
-  "history": "History",
-  "myHerbarium": "My Herbarium",
-  "medicinalUses": "Medicinal Uses",
-  "toxicity": "Toxicity",
-  "sources": "Sources",
-  "save": "Save",
-  "saved": "Saved",
-  "compare": "Compare",
-  "anotherQuery": "Make another query",
-  "manageApiKey": "Manage API Key",
-  "apiKeyModalTitle": "It seems you've reached the query limit or the API key is invalid. You can enter your own Gemini API key to continue.",
-  "yourApiKeyLabel": "Your Gemini API Key",
-  "apiKeyPlaceholder": "Enter your key here",
-  "saveAndRetry": "Save and Retry",
-  "clearKey": "Clear Key",
-  "getYourApiKey": "You can get your API key from {link}. Your key is stored securely in your browser only.",
-  "apiKeyError": "Please set up your API key to continue.",
-  "unexpectedError": "An unexpected error occurred.",
-  "alsoKnownAs": "Also known as",
-  "habitat": "Habitat",
-  "flowering": "Flowering",
-  "conservation": "Conservation",
-  "distributionMap": "Geographic Distribution Map",
-  "culinaryUses": "Culinary Uses",
-  "activeCompounds": "Active Compounds and Their Uses",
-  "similarPlants": "Similar Plants and Warnings",
-  "preparationsAndRecipes": "Preparations and Recipes",
-  "share": "Share",
-  "copied": "Copied",
-  "similarActivePlants": "Other Plants with Similar Active Compounds",
-  "sharedActiveCompound": "Shared Active Compound",
-  "keyDifference": "Key Difference",
-  "importantDisclaimerSimilar": "Important: Always exercise extreme caution when identifying plants for consumption. When in doubt, consult an expert. AI identification may not be 100% accurate.",
-  "ingredients": "Ingredients",
-  "instructions": "Instructions",
-  "recommendedDose": "Recommended Dose",
-  "possibleSideEffects": "Possible Side Effects",
-  "historicalContext": "Historical Context",
-  "identifyPlantTitle": "Identify a plant by name or photograph.",
-  "diagnosePlantTitle": "Upload a photo to diagnose a problem.",
-  "remedySearchTitle": "Search for plants to treat a symptom or ailment.",
-  "orSeparator": "OR",
-  "remedySearchPlaceholder": "Enter a symptom, ailment, or use...",
-  "prioritizeLocal": "Prioritize local plants",
-  "readyToAnalyze": "Ready to be analyzed?",
-  "changePhoto": "Change Photo",
-  "analyze": "Analyze",
-  "textSearchLoading": "Searching for information...",
-  "textSearchLoadingSub": "Image generation may take a little longer.",
-  "close": "Close",
-  "historyModalTitle": "History",
-  "noHistory": "There are no searches in your history.",
-  "clearHistory": "Clear History",
-  "clearHistoryConfirm": "Are you sure? This action will delete your entire history.",
-  "herbariumModalTitle": "My Herbarium",
-  "filterByName": "Filter by name...",
-  "filterByUse": "Filter by use (plants)...",
-  "sortBy": "Sort by",
-  "sortDateDesc": "Most recent",
-  "sortDateAsc": "Oldest",
-  "sortNameAsc": "Name (A-Z)",
-  "sortNameDesc": "Name (Z-A)",
-  "noHerbarium": "Your herbarium is empty. Save plants to start your collection!",
-  "exportToJson": "Export to JSON",
-  "removeFromHerbarium": "Remove from herbarium",
-  "remedySuggestionsTitle": "Suggestions for \"{query}\"",
-  "remedySuggestionsSubtitle": "We found these plants that might help you. Click on one to see its full details.",
-  "anotherSearch": "Perform another search",
-  "botanicalComparator": "Botanical Comparator",
-  "selectPlantB": "Select Plant B",
-  "generateComparison": "Generate Comparison",
-  "backToMainSearch": "Back to Main Search",
-  "generatingComparison": "Generating comparison...",
-  "comparativeAnalysis": "Comparative Analysis",
-  "similarities": "Similarities",
-  "differences": "Differences",
-  "symptoms": "Symptoms",
-  "causes": "Causes",
-  "organicTreatment": "Organic Treatment",
-  "chemicalTreatment": "Chemical Treatment",
-  "prevention": "Prevention",
-  "diseaseDiagnostic": "Plant Disease Diagnosis",
-  "commonlyAffects": "Commonly affects",
-  "generateCareGuide": "Generate Care Guide",
-  "careGuide": "Care Guide",
-  "generating": "Generating...",
-  "watering": "Watering",
-  "light": "Light",
-  "soil": "Soil",
-  "temperatureAndHumidity": "Temperature & Humidity",
-  "fertilization": "Fertilization",
-  "pruningAndPests": "Pruning & Pests",
-  "frequency": "Frequency",
-  "method": "Method",
-  "methods": "Methods",
-  "level": "Level",
-  "location": "Location",
-  "type": "Type",
-  "drainage": "Drainage",
-  "temperature": "Temperature",
-  "humidity": "Humidity",
-  "pruning": "Pruning",
-  "commonPests": "Common Pests",
-  "repotting": "Repotting",
-  "propagation": "Propagation",
-  "additionalTips": "Additional Tips",
-  "airPurification": "Air Purification",
-  "petSafety": "Pet Safety",
-  "funFact": "Fun Fact",
-  "appManual": "App Manual",
-  "imageGenerationFailedWarning": "Could not generate the image. This can happen if the API key does not have permissions for the image generation model.",
-  "toxicityLevel": "Toxicity Level",
-  "toxicCompounds": "Toxic Compounds",
-  "affectedSystems": "Affected Systems",
-  "firstAid": "First Aid",
-  "toxicityLevel_None": "None",
-  "toxicityLevel_Low": "Low",
-  "toxicityLevel_Medium": "Medium",
-  "toxicityLevel_High": "High",
-  "toxicityLevel_Lethal": "Lethal",
-  "exportToPdf": "Export to PDF",
-  "exporting": "Exporting...",
-  "dosageNotSpecified": "Dosage not specified. Consult a professional.",
-  "savedToHerbarium": "Saved to your Herbarium!",
-  "sharing": "Sharing...",
-  "checkOutPlant": "Check out this plant:",
-  "identifiedWith": "identified with",
-  "principiosActivos": "Active Compounds",
-  "diferenciasBotanicas": "Botanical Differences",
-  "compartidos": "Shared",
-  "unicos": "Unique",
-  "unicosPlantaA": "Unique to {plantName}",
-  "unicosPlantaB": "Unique to {plantName}",
-  "apariencia": "Appearance",
-  "toggleTheme": "Toggle theme"
+const STORAGE_KEY = 'language';
+
+const loadedLocales: Record<Language, Translations> = {};
+
+const fallbackChain = (language: Language): Language[] =>
+  [language, ...FALLBACK_LANGUAGES.filter(fallback => fallback !== language)];
+
+const loadLocale = async (language: Language): Promise<void> => {
+  if (loadedLocales[language]) return;
+  const load = LOCALE_FILES[`../locales/${language}.json`];
+  if (!load) throw new Error(`There is no locale file for "${language}".`);
+  loadedLocales[language] = await load();
 };
 
-type Language = 'es' | 'en';
+const loadLanguage = (language: Language) => Promise.all(fallbackChain(language).map(loadLocale));
+
+// The saved choice wins; otherwise the first browser language we have a locale for, by its base
+// code ("pt-BR" -> "pt").
+const detectLanguage = (): Language => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved && SUPPORTED_LANGUAGES.includes(saved)) return saved;
+  const browserLanguages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of browserLanguages) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (base && SUPPORTED_LANGUAGES.includes(base)) return base;
+  }
+  return DEFAULT_LANGUAGE;
+};
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: string, replacements?: { [key: string]: string | number }) => string;
+  // Passing a numeric `count` selects the plural form `<key>_<category>` (Intl.PluralRules
+  // categories: one, few, many, other...) when the locale defines it. Numbers are formatted.
+  t: (key: string, replacements?: Replacements) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  languageName: (lang: Language) => string;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-const translations = { es: esTranslations, en: enTranslations };
-
 export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [language, setLanguage] = useState<Language>('es');
+  const [language, setLanguageState] = useState<Language>(detectLanguage);
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    loadLanguage(language)
+      .catch(e => console.error(`Failed to load the "${language}" translations`, e))
+      .finally(() => setIsReady(true));
+  }, []);
 
   useEffect(() => {
     document.documentElement.lang = language;
   }, [language]);
 
-  const t = useCallback((key: string, replacements?: { [key: string]: string | number }): string => {
-    const translationSet = translations[language];
-    if (!translationSet) {
-      return key; // Fallback to key if translations are somehow missing
-    }
-    let translation = (translationSet as any)[key] || key;
+  // The new locale is loaded before switching, so the UI never flashes raw keys.
+  const setLanguage = useCallback((lang: Language) => {
+    loadLanguage(lang)
+      .then(() => {
+        localStorage.setItem(STORAGE_KEY, lang);
+        setLanguageState(lang);
+      })
+      .catch(e => console.error(`Failed to load the "${lang}" translations`, e));
+  }, []);
+
+  const pluralRules = useMemo(() => new Intl.PluralRules(language), [language]);
+  const numberFormat = useMemo(() => new Intl.NumberFormat(language), [language]);
+
+  const t = useCallback((key: string, replacements?: Replacements): string => {
+    const chain = fallbackChain(language);
+    const lookup = (candidate: string) => chain.map(lang => loadedLocales[lang]?.[candidate]).find(text => text !== undefined);
+
+    const count = replacements?.count;
+    let translation = (typeof count === 'number' ? lookup(`${key}_${pluralRules.select(count)}`) ?? lookup(`${key}_other`) : undefined)
+      ?? lookup(key)
+      ?? key;
     if (replacements) {
       Object.entries(replacements).forEach(([rKey, value]) => {
-        translation = translation.replace(`{${rKey}}`, String(value));
+        translation = translation.split(`{${rKey}}`).join(typeof value === 'number' ? numberFormat.format(value) : value);
       });
     }
     return translation;
-  }, [language]);
+  }, [language, isReady, pluralRules, numberFormat]);
+
+  const formatNumber = useCallback((value: number, options?: Intl.NumberFormatOptions) =>
+    options ? new Intl.NumberFormat(language, options).format(value) : numberFormat.format(value), [language, numberFormat]);
+
+  const formatDate = useCallback((value: number | Date, options?: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(language, options).format(value), [language]);
 
-  const value = { language, setLanguage, t };
+  // Languages are listed by their own name ("français", "català"), capitalised.
+  const languageName = useCallback((lang: Language) => {
+    try {
+      const name = new Intl.DisplayNames([lang], { type: 'language' }).of(lang) || lang;
+      return name.charAt(0).toLocaleUpperCase(lang) + name.slice(1);
+    } catch {
+      return lang.toUpperCase();
+    }
+  }, []);
+
+  const value = { language, setLanguage, t, formatNumber, formatDate, languageName };
 
   return (
     <LanguageContext.Provider value={value}>
-      {children}
+      {isReady ? children : null}
     </LanguageContext.Provider>
   );
 };
@@ -376,4 +138,4 @@ export const useLanguage = (): LanguageContextType => {
     throw new Error('useLanguage must be used within a LanguageProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -3,7 +3,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ApiKeyProvider } from './contexts/ApiKeyContext';
+import { AiProviderProvider } from './contexts/AiProviderContext';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { registerServiceWorker } from './services/offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,9 +16,13 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ApiKeyProvider>
-      <LanguageProvider>
-        <App />
-      </LanguageProvider>
+      <AiProviderProvider>
+        <LanguageProvider>
+          <App />
+        </LanguageProvider>
+      </AiProviderProvider>
     </ApiKeyProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
@@ -0,0 +1,157 @@
+// Service worker. Keeps the app shell and the vendor libraries cached so the app opens offline, and
+// shows the care reminders the app publishes (see services/careReminders.ts) once they are due, even
+// with the app closed where periodic background sync is available.
+
+const SHELL_CACHE = 'app-shell-v1';
+const VENDOR_CACHE = 'vendor-v1';
+const REMINDERS_CACHE = 'care-reminders';
+const REMINDERS_URL = '/care-reminders.json';
+const SHOWN_URL = '/care-reminders-shown.json';
+const MAX_SHOWN = 500;
+
+// The libraries index.html loads from CDNs; keep in step with it.
+const VENDOR_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js',
+  'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js',
+];
+// Hosts of those libraries and of the import map, whose modules load further modules.
+const VENDOR_HOSTS = ['cdn.tailwindcss.com', 'cdnjs.cloudflare.com', 'aistudiocdn.com'];
+const SHELL_FILES = ['/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+
+// The page, and the hashed scripts and styles the build references from it. One missing file (the page
+// also links styles that may not exist) must not leave the rest uncached.
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch('/', { cache: 'reload' });
+  if (!response.ok) return;
+  const html = await response.clone().text();
+  await cache.put('/', response);
+  const assets = [...html.matchAll(/(?:src|href)="(\/[^"/][^"]*)"/g)].map(match => match[1]);
+  await Promise.all([...new Set([...assets, ...SHELL_FILES])].map(url => cache.add(url).catch(() => undefined)));
+  await syncAssets(html).catch(e => console.warn('Could not cache the chunks the app loads later', e));
+};
+
+// Fetched without CORS, as the page loads them with plain <script> tags: the responses are opaque,
+// which scripts can still run.
+const precacheVendor = async () => {
+  const cache = await caches.open(VENDOR_CACHE);
+  await Promise.all(VENDOR_URLS.map(async url => cache.put(url, await fetch(url, { mode: 'no-cors' }))));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(Promise.all([precacheShell(), precacheVendor()])
+    .catch(e => console.warn('Precaching failed; the app will be cached as it is used', e))
+    .then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  const kept = [SHELL_CACHE, VENDOR_CACHE, REMINDERS_CACHE];
+  event.waitUntil(caches.keys()
+    .then(keys => Promise.all(keys.filter(key => !kept.includes(key)).map(key => caches.delete(key))))
+    .then(() => self.clients.claim()));
+});
+
+// Fresh when online, the last copy otherwise. Every page of the app is the same shell, cached as '/'.
+const networkFirst = async (request, cacheKey = request, onFresh) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(cacheKey, response.clone());
+      if (onFresh) onFresh(response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// For files that never change under the same URL: built assets are hashed, vendor URLs are versioned.
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') await (await caches.open(cacheName)).put(request, response.clone());
+  return response;
+};
+
+// Built files live in /assets/: the page references the entry points by absolute path, and chunks
+// reference the chunks they load (the translations) relative to themselves.
+const assetPaths = (text) => [...text.matchAll(/(?:\/assets\/|"\.\/)([\w.-]+\.(?:js|css))/g)].map(match => `/assets/${match[1]}`);
+
+// Caches the files of the build the page references, chunks loaded later included, and deletes those
+// of earlier builds: the service worker itself does not change between deploys, so nothing else
+// would. Nothing is deleted unless every current file could be read.
+const syncAssets = async (html) => {
+  const referenced = new Set();
+  const pending = assetPaths(html);
+  while (pending.length > 0) {
+    const path = pending.pop();
+    if (referenced.has(path)) continue;
+    referenced.add(path);
+    const response = await cacheFirst(path, SHELL_CACHE);
+    if (!response.ok) throw new Error(`Could not load ${path}`);
+    if (path.endsWith('.js')) pending.push(...assetPaths(await response.clone().text()));
+  }
+  const cache = await caches.open(SHELL_CACHE);
+  const stale = (await cache.keys()).filter(request => {
+    const { pathname } = new URL(request.url);
+    return pathname.startsWith('/assets/') && !referenced.has(pathname);
+  });
+  await Promise.all(stale.map(request => cache.delete(request)));
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    if (request.mode === 'navigate') {
+      const onFresh = (page) => event.waitUntil(page.text().then(syncAssets).catch(e => console.warn('Could not update the cached app files', e)));
+      event.respondWith(networkFirst(request, '/', onFresh));
+    }
+    else if (url.pathname.startsWith('/assets/')) event.respondWith(cacheFirst(request, SHELL_CACHE));
+    else event.respondWith(networkFirst(request));
+  } else if (VENDOR_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, VENDOR_CACHE));
+  }
+});
+
+// --- CARE REMINDERS ---
+
+const readJson = async (cache, url) => {
+  const response = await cache.match(url);
+  return response ? response.json() : [];
+};
+
+// Each reminder is shown once: the ids already shown are kept next to the list, the latest ones only.
+const showDueReminders = async () => {
+  const cache = await caches.open(REMINDERS_CACHE);
+  const reminders = await readJson(cache, REMINDERS_URL);
+  const shown = new Set(await readJson(cache, SHOWN_URL));
+  const now = Date.now();
+  for (const reminder of reminders) {
+    if (reminder.dueAt > now || shown.has(reminder.id)) continue;
+    await self.registration.showNotification(reminder.title, { body: reminder.body, tag: reminder.id, data: { url: '/' } });
+    shown.add(reminder.id);
+  }
+  const kept = [...shown].slice(-MAX_SHOWN);
+  await cache.put(SHOWN_URL, new Response(JSON.stringify(kept), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'care-reminders') event.waitUntil(showDueReminders());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'check-care-reminders') event.waitUntil(showDueReminders());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) =>
+    windows.length > 0 ? windows[0].focus() : self.clients.openWindow((event.notification.data && event.notification.data.url) || '/')));
+});
@@ -0,0 +1,108 @@
+import { Schema } from "@google/genai";
+import { GroundingSource } from '../types';
+
+// --- PROVIDER CONTRACT ---
+// Every AI call in geminiService goes through one of these backends, so the app can
+// run against Gemini, an OpenAI-compatible local server, or offline fixtures.
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type AiFeature = 'identify' | 'diagnose' | 'compare' | 'remedy' | 'local' | 'careGuide' | 'map' | 'plantImage' | 'translate' | 'interactions';
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface GenerateContentRequest {
+  feature: AiFeature;
+  model: string;
+  parts: ContentPart[];
+  useGrounding?: boolean;
+  responseMimeType?: 'application/json';
+  responseSchema?: Schema; // Structured-output contract; only enforced server-side for JSON responses
+  signal?: AbortSignal;
+  onPartialText?: (text: string) => void; // When set, the response is streamed and this receives the text so far
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateContentResult {
+  text: string;
+  sources: GroundingSource[];
+  usage?: TokenUsage; // As reported by the backend; missing when it doesn't report any
+}
+
+export interface GenerateImageRequest {
+  feature: AiFeature;
+  model: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  generateContent: (request: GenerateContentRequest) => Promise<GenerateContentResult>;
+  // Resolves to a data URL, or null when the backend cannot produce images.
+  generateImage: (request: GenerateImageRequest) => Promise<string | null>;
+}
+
+// --- SETTINGS ---
+
+export interface AiProviderSettings {
+  provider: AiProviderId;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  model: string; // Chat model for the OpenAI-compatible provider
+  imageModel: string; // Optional image model for the OpenAI-compatible provider
+  timeoutSeconds: number; // Per-call limit before a request is aborted; 0 disables it
+  monthlyBudgetUsd: number; // Estimated monthly spend after which image generation is blocked; 0 disables it
+  modelOverrides: Partial<Record<AiFeature, string>>; // Gemini model per feature; see modelRegistry for the defaults
+}
+
+const SETTINGS_STORAGE_KEY = 'aiProviderSettings';
+
+const readEnvProvider = (): AiProviderId | null => {
+  try {
+    const env = typeof import.meta !== 'undefined' ? (import.meta as any).env : undefined;
+    const value = env?.VITE_AI_PROVIDER;
+    if (value === 'gemini' || value === 'openai-compatible' || value === 'mock') return value;
+  } catch (e) {
+    console.debug("Could not read VITE_AI_PROVIDER from the environment.");
+  }
+  return null;
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: AiProviderSettings = {
+  provider: readEnvProvider() || 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llava',
+  imageModel: '',
+  timeoutSeconds: 60,
+  monthlyBudgetUsd: 0,
+  modelOverrides: {},
+};
+
+const loadSettings = (): AiProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read AI provider settings from localStorage", e);
+  }
+  return { ...DEFAULT_PROVIDER_SETTINGS };
+};
+
+let activeSettings: AiProviderSettings = loadSettings();
+
+export const getAiProviderSettings = (): AiProviderSettings => activeSettings;
+
+export const setAiProviderSettings = (settings: AiProviderSettings) => {
+  activeSettings = settings;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const providerRequiresApiKey = (provider: AiProviderId): boolean => provider === 'gemini';
@@ -0,0 +1,76 @@
+import { isServiceWorkerEnabled } from './offline';
+
+// --- CARE REMINDERS ---
+// Local notifications for the care schedule. The app writes the upcoming tasks to the Cache API, where
+// the service worker (public/sw.js) can read them without the app open; it shows the ones that are due
+// on periodic background sync, where the browser supports it, and whenever the app asks it to check.
+
+const REMINDERS_ENABLED_STORAGE_KEY = 'careRemindersEnabled';
+const REMINDERS_CACHE = 'care-reminders';
+const REMINDERS_URL = '/care-reminders.json';
+const PERIODIC_SYNC_TAG = 'care-reminders';
+const PERIODIC_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+const OPEN_APP_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Already written (already translated) when published, as the worker has no access to the app's texts.
+export interface CareReminder {
+  id: string; // Changes with the due date, so every round is notified once
+  title: string;
+  body: string;
+  dueAt: number;
+}
+
+// Periodic Background Sync is not in the DOM typings yet.
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+    unregister: (tag: string) => Promise<void>;
+  };
+}
+
+// The worker shows them, so they need it registered.
+export const areRemindersSupported = (): boolean =>
+  isServiceWorkerEnabled() && 'Notification' in window && 'caches' in window;
+
+export const loadRemindersEnabled = (): boolean =>
+  areRemindersSupported() && Notification.permission === 'granted' && localStorage.getItem(REMINDERS_ENABLED_STORAGE_KEY) === 'true';
+
+// Asks for permission to notify. False when it is refused; the app then keeps showing due tasks only.
+export const enableReminders = async (): Promise<boolean> => {
+  if (!areRemindersSupported() || await Notification.requestPermission() !== 'granted') return false;
+  localStorage.setItem(REMINDERS_ENABLED_STORAGE_KEY, 'true');
+  const registration = await navigator.serviceWorker.ready as PeriodicSyncRegistration;
+  try {
+    await registration.periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+  } catch (e) {
+    // Only installed apps may sync in the background; reminders then show while the app is open.
+    console.warn("Periodic background sync is not available", e);
+  }
+  return true;
+};
+
+export const disableReminders = async () => {
+  localStorage.removeItem(REMINDERS_ENABLED_STORAGE_KEY);
+  if (!areRemindersSupported()) return;
+  await caches.delete(REMINDERS_CACHE);
+  const registration = await navigator.serviceWorker.ready as PeriodicSyncRegistration;
+  await registration.periodicSync?.unregister(PERIODIC_SYNC_TAG).catch(() => undefined);
+};
+
+// Replaces the reminders the worker knows about and has it show the ones already due.
+export const publishReminders = async (reminders: CareReminder[]) => {
+  const cache = await caches.open(REMINDERS_CACHE);
+  await cache.put(REMINDERS_URL, new Response(JSON.stringify(reminders), { headers: { 'Content-Type': 'application/json' } }));
+  await checkReminders();
+};
+
+export const checkReminders = async () => {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'check-care-reminders' });
+};
+
+// While the app is open it asks for a check every hour. Returns the function that stops it.
+export const startReminderChecks = (): (() => void) => {
+  const interval = setInterval(() => checkReminders().catch(e => console.error("Failed to check care reminders", e)), OPEN_APP_CHECK_INTERVAL_MS);
+  return () => clearInterval(interval);
+};
@@ -0,0 +1,88 @@
+import { CareCalendar, CareTask, HistoryEntry, Season, SeasonalInterval, TrackedPlant } from '../types';
+import { SEASONS } from './schemas';
+
+// --- CARE SCHEDULE ---
+// Turns the structured calendar of a care guide into the next due date of each task of a tracked
+// plant. The interval follows the season, and a task waits while its season is off.
+
+export const CARE_TASKS: CareTask[] = ['watering', 'fertilizing', 'repotting'];
+
+const CALENDAR_KEYS: Record<CareTask, keyof CareCalendar> = { watering: 'riego', fertilizing: 'fertilizacion', repotting: 'trasplante' };
+
+// Meteorological seasons start on the first of March, June, September and December in both
+// hemispheres; only which one starts when changes.
+const SEASON_START_MONTHS = [2, 5, 8, 11];
+
+export const seasonOf = (at: number, southern: boolean): Season => {
+  const index = Math.floor(((new Date(at).getMonth() + 10) % 12) / 3);
+  return SEASONS[southern ? (index + 2) % 4 : index] as Season;
+};
+
+const startOfDay = (at: number): number => new Date(at).setHours(0, 0, 0, 0);
+
+const addDays = (at: number, days: number): number => {
+  const date = new Date(at);
+  date.setDate(date.getDate() + days);
+  return startOfDay(date.getTime());
+};
+
+const nextSeasonStart = (at: number): number => {
+  const date = new Date(at);
+  const month = SEASON_START_MONTHS.find(start => start > date.getMonth());
+  return month === undefined ? new Date(date.getFullYear() + 1, SEASON_START_MONTHS[0], 1).getTime() : new Date(date.getFullYear(), month, 1).getTime();
+};
+
+// The moment itself if the task is done in its season, else the start of the next season when it is.
+const nextActiveMoment = (intervals: SeasonalInterval, at: number, southern: boolean): number | undefined => {
+  let moment = at;
+  for (let i = 0; i < SEASONS.length; i++) {
+    if (intervals[seasonOf(moment, southern)] > 0) return moment;
+    moment = nextSeasonStart(moment);
+  }
+  return undefined;
+};
+
+// The interval of the season the task was last done in, held back to the next season when the task
+// is done if it lands in one when it is not. Undefined when the task is never done.
+export const nextDueDate = (intervals: SeasonalInterval, lastDoneAt: number, southern: boolean): number | undefined => {
+  const days = intervals[seasonOf(lastDoneAt, southern)];
+  const due = nextActiveMoment(intervals, days > 0 ? addDays(lastDoneAt, days) : lastDoneAt, southern);
+  return due === undefined ? undefined : startOfDay(due);
+};
+
+// Seasons are flipped when the plant's photos were taken south of the equator.
+export const isSouthernHemisphere = (plant: TrackedPlant): boolean => {
+  const located = [...plant.entries].reverse().find(entry => entry.location);
+  return !!located?.location && located.location.latitude < 0;
+};
+
+// The latest identification whose care guide came with a calendar.
+export const findCareCalendarEntry = (plant: TrackedPlant): HistoryEntry | undefined =>
+  [...plant.entries].reverse().find(entry => entry.type === 'plant' && entry.careGuide?.calendario);
+
+export const lastCareDone = (plant: TrackedPlant, task: CareTask): number | undefined =>
+  (plant.careLog || []).filter(care => care.task === task).reduce<number | undefined>((latest, care) => latest === undefined || care.doneAt > latest ? care.doneAt : latest, undefined);
+
+export interface ScheduledCareTask {
+  task: CareTask;
+  dueAt: number; // Midnight of the day it is due
+  interval: number; // Days between rounds in the current season; 0 while it is paused
+  lastDoneAt?: number;
+}
+
+// Soonest first. A task never marked as done counts from the day the plant was added.
+export const getCareSchedule = (plant: TrackedPlant, now = Date.now()): ScheduledCareTask[] => {
+  const calendar = findCareCalendarEntry(plant)?.careGuide?.calendario;
+  if (!calendar) return [];
+  const southern = isSouthernHemisphere(plant);
+  return CARE_TASKS.flatMap(task => {
+    const intervals = calendar[CALENDAR_KEYS[task]];
+    const lastDoneAt = lastCareDone(plant, task);
+    const dueAt = nextDueDate(intervals, lastDoneAt ?? plant.createdAt, southern);
+    return dueAt === undefined ? [] : [{ task, dueAt, interval: intervals[seasonOf(now, southern)], lastDoneAt }];
+  }).sort((a, b) => a.dueAt - b.dueAt);
+};
+
+// Whole days from today to the due date: 0 today, negative when overdue.
+export const daysUntilDue = (task: ScheduledCareTask, now = Date.now()): number =>
+  Math.round((task.dueAt - startOfDay(now)) / (24 * 60 * 60 * 1000));
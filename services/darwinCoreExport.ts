@@ -0,0 +1,90 @@
+import { HistoryEntry } from '../types';
+import { createZip } from './zip';
+
+// --- DARWIN CORE ARCHIVE ---
+// Turns saved plant identifications into a Darwin Core Archive (occurrence core + meta.xml + eml.xml)
+// that GBIF's IPT, iNaturalist importers and similar biodiversity tools accept.
+
+const DWC_NS = 'http://rs.tdwg.org/dwc/terms/';
+const DC_NS = 'http://purl.org/dc/terms/';
+const CORE_FILE = 'occurrence.csv';
+
+interface DwcTerm {
+  term: string; // Full term URI, as meta.xml expects it
+  value: (entry: HistoryEntry) => string | number | undefined;
+}
+
+// Column order matters: meta.xml indexes the fields by position, and occurrenceID doubles as the core id.
+const TERMS: DwcTerm[] = [
+  { term: `${DWC_NS}occurrenceID`, value: entry => `urn:herbario-ia:occurrence:${entry.id}` },
+  { term: `${DWC_NS}basisOfRecord`, value: () => 'HumanObservation' },
+  { term: `${DC_NS}type`, value: () => 'StillImage' },
+  { term: `${DWC_NS}eventDate`, value: entry => new Date(entry.capturedAt ?? entry.timestamp).toISOString() },
+  { term: `${DWC_NS}scientificName`, value: entry => entry.plantInfo?.nombreCientifico },
+  { term: `${DWC_NS}vernacularName`, value: entry => entry.plantInfo?.nombreComun },
+  { term: `${DWC_NS}kingdom`, value: () => 'Plantae' },
+  { term: `${DWC_NS}decimalLatitude`, value: entry => entry.location?.latitude },
+  { term: `${DWC_NS}decimalLongitude`, value: entry => entry.location?.longitude },
+  { term: `${DWC_NS}geodeticDatum`, value: entry => entry.location ? 'WGS84' : undefined },
+  { term: `${DWC_NS}coordinateUncertaintyInMeters`, value: entry => entry.location?.accuracy !== undefined ? Math.max(1, Math.round(entry.location.accuracy)) : undefined },
+  { term: `${DWC_NS}minimumElevationInMeters`, value: entry => entry.location?.altitude !== undefined ? Math.round(entry.location.altitude) : undefined },
+  { term: `${DWC_NS}maximumElevationInMeters`, value: entry => entry.location?.altitude !== undefined ? Math.round(entry.location.altitude) : undefined },
+  { term: `${DWC_NS}georeferenceSources`, value: entry => entry.location ? (entry.location.source === 'exif' ? 'Photo EXIF GPS' : 'Device geolocation') : undefined },
+  { term: `${DWC_NS}identifiedBy`, value: () => 'Herbario IA (automated image identification)' },
+  { term: `${DWC_NS}dateIdentified`, value: entry => new Date(entry.timestamp).toISOString() },
+  { term: `${DWC_NS}identificationVerificationStatus`, value: () => 'unverified' },
+  { term: `${DWC_NS}identificationRemarks`, value: entry => {
+      const confidence = entry.candidates?.find(c => c.nombreCientifico === entry.plantInfo?.nombreCientifico)?.confianza;
+      return confidence !== undefined ? `Model confidence: ${Math.round(confidence * 100)}%` : undefined;
+  } },
+  { term: `${DWC_NS}occurrenceStatus`, value: () => 'present' },
+];
+
+const csvField = (value: string | number | undefined): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const xmlEscape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildOccurrenceCsv = (entries: HistoryEntry[]): string => {
+  const header = TERMS.map(({ term }) => term.substring(term.lastIndexOf('/') + 1)).join(',');
+  const rows = entries.map(entry => TERMS.map(({ value }) => csvField(value(entry))).join(','));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+const buildMetaXml = (): string => `<?xml version="1.0" encoding="UTF-8"?>
+<archive xmlns="http://rs.tdwg.org/dwc/text/" metadata="eml.xml">
+  <core encoding="UTF-8" fieldsTerminatedBy="," linesTerminatedBy="\\n" fieldsEnclosedBy="&quot;" ignoreHeaderLines="1" rowType="${DWC_NS}Occurrence">
+    <files>
+      <location>${CORE_FILE}</location>
+    </files>
+    <id index="0" />
+${TERMS.map(({ term }, index) => `    <field index="${index}" term="${term}"/>`).join('\n')}
+  </core>
+</archive>
+`;
+
+const buildEml = (title: string, created: Date): string => `<?xml version="1.0" encoding="UTF-8"?>
+<eml:eml xmlns:eml="eml://ecoinformatics.org/eml-2.1.1" packageId="herbario-ia-${created.getTime()}" system="herbario-ia" xml:lang="en">
+  <dataset>
+    <title>${xmlEscape(title)}</title>
+    <creator><organizationName>Herbario IA</organizationName></creator>
+    <pubDate>${created.toISOString().split('T')[0]}</pubDate>
+    <abstract><para>Plant occurrences recorded with Herbario IA. Identifications were made by an AI model from photographs and have not been verified by an expert.</para></abstract>
+  </dataset>
+</eml:eml>
+`;
+
+// Only plant entries are occurrences; disease diagnoses carry no taxon to report.
+export const getOccurrenceEntries = (entries: HistoryEntry[]) => entries.filter(entry => entry.type === 'plant' && entry.plantInfo?.nombreCientifico);
+
+export const createDarwinCoreArchive = (entries: HistoryEntry[], title = 'Herbario IA observations'): Blob => {
+  const created = new Date();
+  return createZip([
+    { name: CORE_FILE, content: buildOccurrenceCsv(getOccurrenceEntries(entries)) },
+    { name: 'meta.xml', content: buildMetaXml() },
+    { name: 'eml.xml', content: buildEml(title, created) },
+  ], created);
+};
@@ -0,0 +1,92 @@
+import { AgeBand, Dosage, DosePopulation, DoseUnit, SafetyProfile } from '../types';
+
+// --- DOSE CALCULATOR ---
+// Scales the structured dose of a preparation to a person's body weight and age band. The result is
+// an estimate that never goes above the reference dose the model gave.
+
+const ML_PER_TSP = 5;
+const DROPS_PER_ML = 20;
+
+// Older adults start lower, as they clear most compounds more slowly.
+const ELDERLY_FACTOR = 0.75;
+
+// A sensible body weight to start the calculator with, per age band.
+export const TYPICAL_WEIGHTS: Record<AgeBand, number> = { infant: 8, child: 25, adolescent: 55, adult: 70, elderly: 70 };
+
+const isVolume = (unit: DoseUnit) => unit !== 'g';
+
+const toMl = (amount: number, unit: DoseUnit): number =>
+  unit === 'tsp' ? amount * ML_PER_TSP : unit === 'drops' ? amount / DROPS_PER_ML : amount;
+
+const fromMl = (ml: number, unit: DoseUnit): number =>
+  unit === 'tsp' ? ml / ML_PER_TSP : unit === 'drops' ? ml * DROPS_PER_ML : ml;
+
+// Volumes convert freely; grams only to and from teaspoons, and only when the dose says how much
+// of the dried plant fits in one. Null when the conversion is not possible.
+export const convertDose = (amount: number, from: DoseUnit, to: DoseUnit, gramsPerTsp?: number): number | null => {
+  if (from === to) return amount;
+  if (isVolume(from) && isVolume(to)) return fromMl(toMl(amount, from), to);
+  if (!gramsPerTsp) return null;
+  if (from === 'g' && to === 'tsp') return amount / gramsPerTsp;
+  if (from === 'tsp' && to === 'g') return amount * gramsPerTsp;
+  return null;
+};
+
+// The units a dose can be shown in, its own first.
+export const convertibleUnits = (dosage: Dosage): DoseUnit[] => {
+  const units: DoseUnit[] = ['g', 'ml', 'tsp', 'drops'];
+  return [dosage.unidad, ...units.filter(unit => unit !== dosage.unidad && convertDose(1, dosage.unidad, unit, dosage.gramosPorCucharadita) !== null)];
+};
+
+// Rounded down to a step that can be measured, so rounding never raises the dose.
+const MEASURABLE_STEPS: Record<DoseUnit, number> = { g: 0.1, ml: 0.5, tsp: 0.25, drops: 1 };
+
+export const roundDose = (amount: number, unit: DoseUnit): number => {
+  const step = MEASURABLE_STEPS[unit];
+  const rounded = Math.floor(amount / step + 1e-9) * step;
+  return rounded > 0 ? Number(rounded.toFixed(2)) : Number(amount.toPrecision(2));
+};
+
+export interface DoseRequest {
+  weightKg: number;
+  ageBand: AgeBand;
+  unit: DoseUnit;
+}
+
+export interface DoseCalculation {
+  blockedBy?: DosePopulation; // Set when the dose is not calculated for this person
+  perDose: number;
+  timesPerDay: number;
+  maxDaily: number;
+  unit: DoseUnit;
+}
+
+// The population the calculation must not be made for, if any: the age band or the pregnancy in the
+// safety profile when the dose lists it as contraindicated, and always infants unless the dose was
+// written for them.
+export const findBlockingPopulation = (dosage: Dosage, ageBand: AgeBand, profile?: SafetyProfile): DosePopulation | undefined => {
+  const contraindicated = dosage.contraindicadoEn || [];
+  if (contraindicated.includes(ageBand)) return ageBand;
+  if (ageBand === 'infant' && dosage.poblacion !== 'infant') return 'infant';
+  if (profile && profile.pregnancy !== 'none' && contraindicated.includes(profile.pregnancy)) return profile.pregnancy;
+  return undefined;
+};
+
+// Clark's rule (dose × weight / reference weight), capped at the reference dose, then the age band
+// factor. The daily maximum is scaled the same way and limits the number of doses.
+export const calculateDose = (dosage: Dosage, request: DoseRequest, profile?: SafetyProfile): DoseCalculation => {
+  const blockedBy = findBlockingPopulation(dosage, request.ageBand, profile);
+  const convert = (amount: number) => convertDose(amount, dosage.unidad, request.unit, dosage.gramosPorCucharadita) ?? amount;
+  const unit = convertDose(1, dosage.unidad, request.unit, dosage.gramosPorCucharadita) === null ? dosage.unidad : request.unit;
+  if (blockedBy) return { blockedBy, perDose: 0, timesPerDay: 0, maxDaily: 0, unit };
+
+  const weightFactor = dosage.pesoReferencia > 0 ? Math.min(1, request.weightKg / dosage.pesoReferencia) : 1;
+  const ageFactor = request.ageBand === 'elderly' && dosage.poblacion !== 'elderly' ? ELDERLY_FACTOR : 1;
+  const factor = weightFactor * ageFactor;
+
+  const perDose = roundDose(convert(dosage.cantidad * factor), unit);
+  const maxDaily = roundDose(convert(dosage.dosisMaximaDiaria * factor), unit);
+  const allowedDoses = perDose > 0 ? Math.floor(maxDaily / perDose + 1e-9) : 0;
+  const timesPerDay = Math.max(1, Math.min(Math.round(dosage.tomasAlDia) || 1, allowedDoses || 1));
+  return { perDose, timesPerDay, maxDaily, unit };
+};
@@ -0,0 +1,110 @@
+import { EntryTranslation, HistoryEntry, TranslatablePart } from '../types';
+import { RequestOptions, throwIfAborted } from './requestControl';
+import { TranslatableContent, translateEntryContent } from './geminiService';
+
+// --- ENTRY TRANSLATION ---
+// Entries keep the content in the language it was generated in. Translations into other UI
+// languages are requested on demand and stored next to it in `entry.translations`, one record per
+// language, so each language is only paid for once and the original is never overwritten.
+
+const TRANSLATABLE_PARTS: TranslatablePart[] = ['plantInfo', 'diseaseInfo', 'careGuide'];
+
+// Prompt versions end in the language they were rendered in ("identify@2/es"); an answer that took
+// two prompts records both ("identify@4/es+structure@1/es"). Entries saved before versions were
+// recorded have no known language.
+const languageOfVersion = (promptVersion?: string): string | undefined => promptVersion?.split('+')[0].split('/')[1];
+
+// The care guide is generated separately, possibly after switching language, so it has its own.
+export const getPartLanguage = (entry: HistoryEntry, part: TranslatablePart): string | undefined =>
+  languageOfVersion(part === 'careGuide' ? entry.careGuidePromptVersion : entry.promptVersion);
+
+// The language of the main content: the plant profile or the diagnosis.
+export const getEntryLanguage = (entry: HistoryEntry): string | undefined => languageOfVersion(entry.promptVersion);
+
+// Parts present on the entry that are written in another language and not translated into `language`
+// yet. Parts in an unknown language may well be written in it already; they are only included when
+// the reader asks for that entry.
+export const getPartsToTranslate = (entry: HistoryEntry, language: string, { includeUnknown = false } = {}): TranslatablePart[] =>
+  TRANSLATABLE_PARTS.filter(part => {
+    const partLanguage = getPartLanguage(entry, part);
+    return entry[part] && (partLanguage ? partLanguage !== language : includeUnknown) && !entry.translations?.[language]?.[part];
+  });
+
+// Known to be in another language: what the herbarium translates and counts.
+export const needsTranslation = (entry: HistoryEntry, language: string): boolean => getPartsToTranslate(entry, language).length > 0;
+
+// What a single entry offers to translate, unknown languages included.
+export const canTranslate = (entry: HistoryEntry, language: string): boolean => getPartsToTranslate(entry, language, { includeUnknown: true }).length > 0;
+
+// The entry as it should be read in `language`: translated parts replace the originals, the rest
+// is shown as saved. Returns the same object when there is nothing to replace.
+export const localizeEntry = (entry: HistoryEntry, language: string): HistoryEntry => {
+  const translation = entry.translations?.[language];
+  if (!translation) return entry;
+  const replaced = TRANSLATABLE_PARTS.filter(part => entry[part] && translation[part] && getPartLanguage(entry, part) !== language);
+  if (replaced.length === 0) return entry;
+  return replaced.reduce((localized, part) => ({ ...localized, [part]: translation[part] }), entry);
+};
+
+// Drops translated copies of parts that were regenerated, in every language.
+export const discardTranslations = (translations: HistoryEntry['translations'], ...parts: TranslatablePart[]): HistoryEntry['translations'] => {
+  if (!translations) return undefined;
+  const kept = Object.entries(translations)
+    .map(([language, translation]) => {
+      const remaining = { ...translation };
+      parts.forEach(part => delete remaining[part]);
+      return [language, remaining] as [string, EntryTranslation];
+    })
+    .filter(([, translation]) => TRANSLATABLE_PARTS.some(part => translation[part]));
+  return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+};
+
+// Scientific names and the toxicity level are identifiers, not prose: whatever the model did with
+// them, the translation keeps the original values.
+const keepIdentifiers = (original: TranslatableContent, translated: TranslatableContent): TranslatableContent => {
+  const { plantInfo } = original;
+  if (!plantInfo || !translated.plantInfo) return translated;
+  return {
+    ...translated,
+    plantInfo: {
+      ...translated.plantInfo,
+      nombreCientifico: plantInfo.nombreCientifico,
+      toxicidad: { ...translated.plantInfo.toxicidad, nivelToxicidad: plantInfo.toxicidad.nivelToxicidad },
+    },
+  };
+};
+
+const translateParts = async (apiKeys: string[], entry: HistoryEntry, parts: TranslatablePart[], language: string, options: RequestOptions): Promise<HistoryEntry> => {
+  if (parts.length === 0) return entry;
+  const content: TranslatableContent = Object.fromEntries(parts.map(part => [part, entry[part]]));
+  const result = await translateEntryContent(apiKeys, content, language, options);
+  const translated = keepIdentifiers(content, result.content);
+  return {
+    ...entry,
+    translations: {
+      ...entry.translations,
+      [language]: { ...entry.translations?.[language], ...translated, promptVersion: result.promptVersion, translatedAt: Date.now() },
+    },
+  };
+};
+
+// Translates whatever `entry` is missing in `language` and returns the entry with the translation stored.
+export const translateEntry = (apiKeys: string[], entry: HistoryEntry, language: string, options: RequestOptions = {}): Promise<HistoryEntry> =>
+  translateParts(apiKeys, entry, getPartsToTranslate(entry, language, { includeUnknown: true }), language, options);
+
+// Translates several entries one after another, only the parts known to be in another language,
+// reporting each one as soon as it is done so a cancelled or failed batch keeps what it already paid
+// for. Stops at the first error.
+export const translateEntries = async (
+  apiKeys: string[],
+  entries: HistoryEntry[],
+  language: string,
+  onTranslated: (entry: HistoryEntry, done: number, total: number) => void,
+  options: RequestOptions = {}
+): Promise<void> => {
+  const pending = entries.filter(entry => needsTranslation(entry, language));
+  for (const [index, entry] of pending.entries()) {
+    throwIfAborted(options.signal);
+    onTranslated(await translateParts(apiKeys, entry, getPartsToTranslate(entry, language), language, options), index + 1, pending.length);
+  }
+};
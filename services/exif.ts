@@ -0,0 +1,143 @@
+import { CaptureLocation, PhotoExif } from '../types';
+
+// --- EXIF READER ---
+// Pulls capture time, GPS and camera out of a JPEG's APP1 segment. It has to run on the
+// original file: our thumbnails go through a canvas, which strips all metadata.
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+  gpsHPositioningError: 0x001f,
+};
+
+// Byte size of one value for each TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, ..., SRATIONAL).
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, littleEndian: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(tiffStart + offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = tiffStart + offset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const length = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 0) * length;
+    if (!size) continue;
+    // Values up to 4 bytes are stored inline; larger ones live at an offset.
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < length; j++) {
+        const code = view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < length; j++) {
+      const at = valueOffset + j * TYPE_SIZES[type];
+      switch (type) {
+        case 1: case 7: values.push(view.getUint8(at)); break;
+        case 3: values.push(view.getUint16(at, littleEndian)); break;
+        case 4: values.push(view.getUint32(at, littleEndian)); break;
+        case 9: values.push(view.getInt32(at, littleEndian)); break;
+        case 5: { const den = view.getUint32(at + 4, littleEndian); values.push(den ? view.getUint32(at, littleEndian) / den : 0); break; }
+        case 10: { const den = view.getInt32(at + 4, littleEndian); values.push(den ? view.getInt32(at, littleEndian) / den : 0); break; }
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  return tags;
+};
+
+const toDegrees = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// "YYYY:MM:DD HH:MM:SS" in the camera's local time, optionally with an offset like "+02:00".
+const parseExifDate = (value: TagValue | undefined, offset: TagValue | undefined): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  const iso = `${y}-${mo}-${d}T${h}:${mi}:${s}${typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ''}`;
+  const time = new Date(iso).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const parseTiff = (view: DataView, tiffStart: number): PhotoExif => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+  const exifOffset = ifd0.get(TAGS.exifIfd);
+  const gpsOffset = ifd0.get(TAGS.gpsIfd);
+  const exifIfd = typeof exifOffset === 'number' ? readIfd(view, tiffStart, exifOffset, littleEndian) : new Map<number, TagValue>();
+  const gpsIfd = typeof gpsOffset === 'number' ? readIfd(view, tiffStart, gpsOffset, littleEndian) : new Map<number, TagValue>();
+
+  const exif: PhotoExif = {};
+  const capturedAt = parseExifDate(exifIfd.get(TAGS.dateTimeOriginal), exifIfd.get(TAGS.offsetTimeOriginal));
+  if (capturedAt !== undefined) exif.capturedAt = capturedAt;
+  const latitude = toDegrees(gpsIfd.get(TAGS.gpsLatitude), gpsIfd.get(TAGS.gpsLatitudeRef));
+  const longitude = toDegrees(gpsIfd.get(TAGS.gpsLongitude), gpsIfd.get(TAGS.gpsLongitudeRef));
+  if (latitude !== undefined && longitude !== undefined && !(latitude === 0 && longitude === 0)) {
+    exif.latitude = latitude;
+    exif.longitude = longitude;
+    const altitude = gpsIfd.get(TAGS.gpsAltitude);
+    if (typeof altitude === 'number') exif.altitude = gpsIfd.get(TAGS.gpsAltitudeRef) === 1 ? -altitude : altitude;
+    const accuracy = gpsIfd.get(TAGS.gpsHPositioningError);
+    if (typeof accuracy === 'number') exif.accuracy = accuracy;
+  }
+  const make = ifd0.get(TAGS.make);
+  const model = ifd0.get(TAGS.model);
+  if (typeof make === 'string' && make) exif.cameraMake = make;
+  if (typeof model === 'string' && model) exif.cameraModel = model;
+  return exif;
+};
+
+// Resolves to null for non-JPEG files or photos without EXIF; never rejects.
+export const readExif = async (file: Blob): Promise<PhotoExif | null> => {
+  try {
+    // EXIF lives in one APP1 segment (64 KB at most) right after the JPEG header, so the head of the file is enough.
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        const exif = parseTiff(view, offset + 10);
+        return Object.keys(exif).length > 0 ? exif : null;
+      }
+      if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break; // Image data starts; no more metadata
+      offset += 2 + length;
+    }
+  } catch (e) {
+    console.warn("Could not read EXIF metadata from the photo.", e);
+  }
+  return null;
+};
+
+// The first photo carrying GPS tags wins: it places the specimen where it was shot,
+// not where the user happened to be when uploading it.
+export const locationFromExif = (exifs: (PhotoExif | null)[]): CaptureLocation | null => {
+  const tagged = exifs.find(exif => exif?.latitude !== undefined && exif?.longitude !== undefined);
+  if (!tagged) return null;
+  return { latitude: tagged.latitude!, longitude: tagged.longitude!, accuracy: tagged.accuracy, altitude: tagged.altitude, source: 'exif' };
+};
@@ -0,0 +1,80 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, GroundingChunk } from "@google/genai";
+import { GroundingSource } from '../types';
+import { AiProvider, GenerateContentRequest, GenerateImageRequest, TokenUsage } from './aiProvider';
+import { raceWithSignal } from './requestControl';
+
+// Thinking tokens are billed as output, so they count towards it.
+const toUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount || 0,
+  outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+};
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateContent = async (request: GenerateContentRequest) => {
+    const config: any = { abortSignal: request.signal };
+    if (request.useGrounding) {
+      config.tools = [{ googleSearch: {} }];
+    }
+    if (request.responseMimeType) {
+      config.responseMimeType = request.responseMimeType;
+      if (request.responseSchema) {
+        config.responseSchema = request.responseSchema;
+      }
+    }
+
+    const toSources = (chunks: GroundingChunk[] | undefined): GroundingSource[] => chunks?.map((chunk: GroundingChunk) => ({
+      uri: chunk.web?.uri || '',
+      title: chunk.web?.title || 'Untitled Source'
+    })).filter(source => source.uri) || [];
+
+    if (!request.onPartialText) {
+      const response = await raceWithSignal(ai.models.generateContent({
+        model: request.model,
+        contents: { parts: request.parts },
+        config,
+      }), request.signal);
+      return { text: response.text || '', sources: toSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks), usage: toUsage(response.usageMetadata) };
+    }
+
+    // Streaming: grounding metadata may arrive in any chunk (usually the last), so sources are collected throughout.
+    const consumeStream = async () => {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: { parts: request.parts },
+        config,
+      });
+      let text = '';
+      let usage: TokenUsage | undefined;
+      const sources: GroundingSource[] = [];
+      for await (const chunk of stream) {
+        sources.push(...toSources(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks));
+        usage = toUsage(chunk.usageMetadata) ?? usage; // Cumulative; the last chunk has the totals
+        if (chunk.text) {
+          text += chunk.text;
+          request.onPartialText!(text);
+        }
+      }
+      return { text, sources: sources.filter((source, index) => sources.findIndex(other => other.uri === source.uri) === index), usage };
+    };
+    return raceWithSignal(consumeStream(), request.signal);
+  };
+
+  const generateImage = async (request: GenerateImageRequest) => {
+    const response = await raceWithSignal(ai.models.generateImages({
+      model: request.model,
+      prompt: request.prompt,
+      config: {
+        numberOfImages: 1,
+        outputMimeType: 'image/png',
+        abortSignal: request.signal,
+      },
+    }), request.signal);
+
+    const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    return base64ImageBytes ? `data:image/png;base64,${base64ImageBytes}` : null;
+  };
+
+  return { id: 'gemini', generateContent, generateImage };
+};
@@ -1,291 +1,155 @@
 
-import { GoogleGenAI, GroundingChunk, Type } from "@google/genai";
-import { PlantInfo, GroundingSource, Preparation, SimilarPlant, SimilarActivePlant, DiseaseInfo, ComparisonInfo, SuggestedPlant, CareGuideInfo, ToxicityInfo, ActiveCompound } from '../types';
-
-const getAiClient = (apiKey: string): GoogleGenAI => {
-  if (!apiKey) {
-    throw new Error("No API key was provided to initialize the AI client.");
+import { Schema } from "@google/genai";
+import { PlantInfo, GroundingSource, DiseaseInfo, ComparisonInfo, SuggestedPlant, CareGuideInfo, InteractionReport, IdentificationCandidate, SpecimenImage, PlantOrgan, EntryTranslation, TranslatablePart, SafetyProfile, MapFailure } from '../types';
+import { AiProvider, ContentPart, getAiProviderSettings } from './aiProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { RequestOptions, createRequestScope, throwIfAborted } from './requestControl';
+import { ApiKeysExhaustedError, withRetry } from './retry';
+import { CacheOptions, hashContent, normalizeQuery, withResponseCache } from './responseCache';
+import { parsePartialJson } from './partialJson';
+import { BudgetExceededError, assertWithinBudget, trackContentCall, trackImageCall } from './usageLog';
+import { getModelForFeature } from './modelRegistry';
+import { getSafetyProfileKey, isSafetyProfileEmpty } from './safetyProfile';
+import { plantIdentificationSchema, diseaseInfoSchema, comparisonSchema, suggestedPlantsSchema, remedySuggestionsSchema, careGuideSchema, interactionReportSchema, entryTranslationSchema, validateAgainstSchema, describeSchema, SchemaValidationError } from './schemas';
+import { getPromptLanguages, getPromptVersion, renderFragment, renderPrompt } from './promptTemplates';
+
+// Resolves the backend selected in the provider settings. Only Gemini strictly needs a key;
+// OpenAI-compatible servers accept one optionally and the mock ignores it.
+const createProvider = (apiKey: string): AiProvider => {
+  const settings = getAiProviderSettings();
+  switch (settings.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings, apiKey);
+    default:
+      if (!apiKey) {
+        throw new Error("No API key was provided to initialize the AI client.");
+      }
+      return createGeminiProvider(apiKey);
   }
-  return new GoogleGenAI({ apiKey });
 };
 
-// --- SPANISH PROMPTS ---
+// The OpenAI-compatible provider swaps in its own configured models, and the mock has none.
+const resolveModel = (requested: string, isImage: boolean): string => {
+  const settings = getAiProviderSettings();
+  if (settings.provider === 'mock') return 'mock';
+  if (settings.provider === 'openai-compatible') return (isImage ? settings.imageModel : settings.model) || requested;
+  return requested;
+};
 
-const generateJsonPrompt_es = (context: string) => `
-Eres un experto botánico y herbolario. ${context}. Después de identificarla, proporciona la siguiente información en un objeto JSON estructurado con las siguientes claves EXACTAS: "nombreComun", "nombreCientifico", "sinonimos", "descripcionGeneral", "habitat", "distribucionGeografica", "floweringSeason", "conservationStatus", "usosMedicinales", "usosCulinarios", "principiosActivos", "toxicidad", "preparaciones", "plantasSimilares" y "plantasConPrincipiosActivosSimilares".
+// Every call goes through withRetry, which backs off on transient errors and rotates through the user's keys,
+// and is logged once (retries included) under the name of the service function that made it.
+const getAiProvider = (apiKeys: string[], source: string): AiProvider => {
+  const { provider } = getAiProviderSettings();
+  const keys = provider === 'mock' ? [] : apiKeys.filter(Boolean);
+  return {
+    id: provider,
+    generateContent: (request) => trackContentCall(
+      { source, feature: request.feature, model: resolveModel(request.model, false) },
+      () => withRetry(keys, key => createProvider(key).generateContent(request), request.signal),
+    ),
+    generateImage: async (request) => {
+      await assertWithinBudget(); // Images are the most expensive calls, so they are the ones a budget stops
+      return trackImageCall(
+        { source, feature: request.feature, model: resolveModel(request.model, true) },
+        () => withRetry(keys, key => createProvider(key).generateImage(request), request.signal),
+      );
+    },
+  };
+};
 
-- Para "sinonimos", proporciona una lista de otros nombres comunes por los que se conoce la planta. Si no hay sinónimos comunes, devuelve una lista vacía [].
-- Para "habitat", describe el hábitat natural de la planta (tipo de suelo, clima, región).
-- Para "distribucionGeografica", describe las regiones del mundo donde la planta es nativa y donde ha sido introducida o se ha naturalizado.
-- Para "floweringSeason", indica la estación o meses en que la planta suele florecer.
-- Para "conservationStatus", proporciona el estado de conservación según la UICN (p. ej., 'Preocupación Menor', 'Vulnerable', 'En Peligro') y una breve explicación si es relevante. Si no está evaluada, indícalo.
-- Para "usosMedicinales", proporciona una lista de usos tradicionales y modernos.
-- Para "usosCulinarios", proporciona una lista de strings. Cada string debe ser una descripción detallada de un uso culinario. Si no tiene usos culinarios conocidos, devuelve una lista vacía [].
-- Para "principiosActivos", genera una lista de objetos. Cada objeto debe tener las claves "nombre" (el nombre del compuesto químico, p.ej., 'Aconitina') y "usos" (una descripción breve de sus principales aplicaciones o efectos, p.ej., 'Analgésico potente, pero altamente tóxico'). Esta lista no debe estar vacía si la planta es conocida por sus propiedades medicinales o toxicidad.
-- Para "toxicidad", proporciona un objeto con las claves "descripcion", "nivelToxicidad" (uno de: 'None', 'Low', 'Medium', 'High', 'Lethal'), "compuestosToxicos" (lista de strings), "sistemasAfectados" (lista de strings, p.ej. 'Sistema nervioso', 'Sistema digestivo'), y "primerosAuxilios" (instrucciones claras y concisas).
-- Para "preparaciones", genera una lista de recetas o métodos de preparación. Para cada preparación, incluye un objeto con las claves "nombre", "ingredientes", "instrucciones", "dosis", "efectosSecundarios", y "contextoHistorico". Para "dosis", si no se conoce una dosis específica, indica 'Consultar a un profesional'.
-- Para "plantasSimilares", proporciona una lista de 1 a 3 plantas con las que se confunde comúnmente. Para cada una, incluye un objeto con "nombreComun", "nombreCientifico", y "diferenciaClave".
-- Para "plantasConPrincipiosActivosSimilares", proporciona una lista de 1 a 3 plantas que compartan un principio activo clave. Para cada una, incluye un objeto con "nombreComun", "nombreCientifico" y "principioActivoCompartido".
+const getDefaultTimeoutMs = () => getAiProviderSettings().timeoutSeconds * 1000;
 
-Si no puedes identificar la planta con certeza, responde con un objeto JSON que contenga solo una clave: "error", con el valor "No se pudo identificar la planta.".
+type ServiceOptions = RequestOptions & CacheOptions;
 
-La respuesta DEBE ser únicamente el objeto JSON, sin texto introductorio ni markdown. **Todas las claves solicitadas son obligatorias.** Si no hay información para un campo de tipo array (como 'sinonimos'), devuelve una lista vacía []. Si no hay información para un campo de tipo string, devuelve una cadena vacía '' o un valor descriptivo como 'No disponible'. No omitas ninguna clave.
-`;
+// Identification and remedies are tailored to the user's safety profile when one is given.
+type SafetyOptions = { safetyProfile?: SafetyProfile };
 
-const generateDiseaseJsonPrompt_es = (context: string) => `
-Eres un experto fitopatólogo y agrónomo. ${context}. Analiza la imagen para identificar la enfermedad, plaga o deficiencia nutricional más probable. Proporciona la siguiente información en un objeto JSON estructurado con las siguientes claves EXACTAS: "nombreEnfermedad", "plantaAfectada", "sintomas", "causas", "tratamientoOrganico", "tratamientoQuimico", "prevencion".
+// Identification streams the profile; callers get the fields parsed so far to render progressively.
+type PlantStreamOptions = ServiceOptions & SafetyOptions & { onPartialPlantInfo?: (plantInfo: Partial<PlantInfo>) => void };
 
-- Si no puedes identificar el problema con certeza, responde con un objeto JSON que contenga solo una clave: "error", con el valor "No se pudo diagnosticar el problema de la planta.".
-La respuesta DEBE ser únicamente el objeto JSON, sin texto introductorio ni markdown. **Todas las claves solicitadas son obligatorias.** Si no hay información para un campo de tipo array, devuelve una lista vacía [].
-`;
+// Saved entries keep thumbnails, not the photos that were analyzed. Refreshing one from them passes
+// the hash of the original photos, so the answer cached under it is the one replaced.
+type PhotoIdentificationOptions = PlantStreamOptions & { photoHash?: string };
 
-const generateCompareJsonPrompt_es = (plantA: PlantInfo, plantB: PlantInfo) => `
-Eres un botánico comparativo y farmacólogo experto. Compara la Planta A y la Planta B y genera un análisis en un objeto JSON con las claves EXACTAS: "resumenComparativo", "usosMedicinales", "principiosActivos", "toxicidad", y "diferenciasBotanicas".
+// Organs are part of the prompt, so the same photos labelled differently are a different query.
+const hashImages = (images: SpecimenImage[]) => hashContent(...images.flatMap(image => [image.organ, image.mimeType, image.base64]));
 
-- "usosMedicinales": Un objeto con "similitudes" y "diferencias".
-- "principiosActivos": Un objeto con "compartidos" y "unicos" (con claves "plantaA" y "plantaB").
-- "toxicidad": Un objeto con "comparacion", "nivelPlantaA", y "nivelPlantaB".
-- "diferenciasBotanicas": Un objeto con "habitat" y "apariencia".
+// Rounded to ~10 km: nearby searches share answers, which is as precise as the prompts need.
+const locationKey = (location: { latitude: number; longitude: number } | null) =>
+  location ? `${location.latitude.toFixed(1)},${location.longitude.toFixed(1)}` : 'anywhere';
 
-Planta A: ${plantA.nombreComun} (${plantA.nombreCientifico})
-Planta B: ${plantB.nombreComun} (${plantB.nombreCientifico})
+// A tailored answer is a different answer, so the profile is part of the cache key.
+const safetyKey = (profile?: SafetyProfile) => profile && !isSafetyProfileEmpty(profile) ? `#${getSafetyProfileKey(profile)}` : '';
 
-La respuesta DEBE ser únicamente el objeto JSON, sin texto introductorio ni markdown. **Todas las claves solicitadas son obligatorias.**
-`;
+// The profile as one line of the prompt, e.g. "pregnant; allergic to Asteraceae".
+const describeSafetyProfile = (profile: SafetyProfile, language: string): string => [
+  profile.pregnancy !== 'none' ? renderFragment(`safety.${profile.pregnancy}`, language) : '',
+  profile.childrenAtHome ? renderFragment('safety.children', language) : '',
+  profile.pets.length > 0 ? renderFragment('safety.pets', language, { pets: profile.pets.join(', ') }) : '',
+  profile.allergies.length > 0 ? renderFragment('safety.allergies', language, { allergies: profile.allergies.join(', ') }) : '',
+  profile.conditions.length > 0 ? renderFragment('safety.conditions', language, { conditions: profile.conditions.join(', ') }) : '',
+].filter(Boolean).join('; ');
 
-const generateFindPlantsPrompt_es = (usage: string, location: { latitude: number; longitude: number } | null) => {
-  let prompt = `Eres un etnobotánico experto. Basado en la indicación "${usage}", genera una lista de hasta 5 plantas útiles.`;
-  if (location) {
-    prompt += ` Prioriza plantas nativas de la región alrededor de la latitud ${location.latitude} y longitud ${location.longitude}.`;
-  }
-  prompt += `\nLa respuesta DEBE ser un array JSON de objetos, cada uno con claves "nombreComun" y "relevancia", las cuales son obligatorias. No incluyas markdown.
-  Ejemplo: [{"nombreComun": "Manzanilla", "relevancia": "Conocida por sus propiedades calmantes y digestivas."}]`;
-  return prompt;
-};
+const renderSafetyHint = (fragment: string, profile: SafetyProfile | undefined, language: string) =>
+  profile && !isSafetyProfileEmpty(profile) ? renderFragment(fragment, language, { profile: describeSafetyProfile(profile, language) }) : '';
 
-const generateCareGuidePrompt_es = (plant: PlantInfo) => `
-Eres un horticultor y jardinero experto. Genera una guía de cuidado detallada para la planta "${plant.nombreComun} (${plant.nombreCientifico})".
-La respuesta DEBE ser un objeto JSON con las siguientes claves EXACTAS: "riego", "luz", "suelo", "temperaturaHumedad", "fertilizacion", "podaPestes", "trasplante", "propagacion", y "consejosAdicionales".
-- Cada clave debe contener un objeto con sub-claves que describan el cuidado de forma concisa y práctica.
-- Para "trasplante", incluye "frecuencia", "instrucciones" y "consejo".
-- Para "propagacion", incluye "metodos", "instrucciones" y "consejo".
-- Para "consejosAdicionales", incluye "purificacionAire" (si la planta purifica el aire), "seguridadMascotas" (si es segura para mascotas y niños) y "datoCurioso".
-- Sé específico y da consejos prácticos para un jardinero aficionado.
-La respuesta DEBE ser únicamente el objeto JSON, sin texto introductorio ni markdown. **Todas las claves solicitadas son obligatorias.**
-`;
-
-const generateLocalPlantsPrompt_es = (location: { latitude: number; longitude: number }) => `
-Eres un etnobotánico experto. Basado en la ubicación geográfica (latitud ${location.latitude}, longitud ${location.longitude}), genera una lista de 3 a 4 plantas medicinales comunes y notables nativas o que crecen abundantemente en esa región.
-La respuesta DEBE ser un array JSON de objetos, cada uno con claves "nombreComun" y "relevancia", las cuales son obligatorias. No incluyas markdown.
-Ejemplo: [{"nombreComun": "Diente de León", "relevancia": "Crece comúnmente en praderas y céspedes de la zona, conocido por sus propiedades diuréticas."}]
-`;
-
-
-// --- ENGLISH PROMPTS ---
-
-const generateJsonPrompt_en = (context: string) => `
-You are an expert botanist and herbalist. ${context}. After identifying it, provide the following information in a structured JSON object with the following EXACT keys: "nombreComun", "nombreCientifico", "sinonimos", "descripcionGeneral", "habitat", "distribucionGeografica", "floweringSeason", "conservationStatus", "usosMedicinales", "usosCulinarios", "principiosActivos", "toxicidad", "preparaciones", "plantasSimilares", and "plantasConPrincipiosActivosSimilares".
-
-- For "sinonimos", provide a list of other common names. If none, return an empty list [].
-- For "habitat", describe the natural habitat.
-- For "distribucionGeografica", describe the regions where the plant is native and introduced.
-- For "floweringSeason", indicate the season or months of flowering.
-- For "conservationStatus", provide the IUCN conservation status (e.g., 'Least Concern', 'Vulnerable'). If not assessed, state that.
-- For "usosMedicinales", provide a list of traditional and modern uses.
-- For "usosCulinarios", provide a list of strings, each being a detailed description of a culinary use. If not edible, return an empty list [].
-- For "principiosActivos", generate a list of objects. Each object must have the keys "nombre" (the name of the chemical compound, e.g., 'Aconitine') and "usos" (a brief description of its main applications or effects, e.g., 'Potent analgesic, but highly toxic'). This list must not be empty if the plant is known for its medicinal properties or toxicity.
-- For "toxicidad", provide an object with the keys "descripcion", "nivelToxicidad" (one of: 'None', 'Low', 'Medium', 'High', 'Lethal'), "compuestosToxicos" (list of strings), "sistemasAfectados" (list of strings, e.g., 'Nervous system', 'Digestive system'), and "primerosAuxilios" (clear and concise instructions).
-- For "preparaciones", generate a list of preparation methods. For each, include an object with "nombre", "ingredientes", "instrucciones", "dosis", "efectosSecundarios", and "contextoHistorico". For "dosis", if a specific dosage is unknown, state 'Consult a professional'.
-- For "plantasSimilares", provide a list of 1-3 commonly confused plants. For each, include an object with "nombreComun", "nombreCientifico", and "diferenciaClave".
-- For "plantasConPrincipiosActivosSimilares", provide a list of 1-3 plants that share a key active compound. For each, include an object with "nombreComun", "nombreCientifico", and "principioActivoCompartido".
-
-If you cannot identify the plant with certainty, respond with a JSON object containing only one key: "error", with the value "Could not identify the plant.".
-
-The response MUST be only the JSON object, without introductory text or markdown. **All requested keys are mandatory.** If there's no information for an array-type field (like 'sinonimos'), return an empty list []. If there's no information for a string-type field, return an empty string '' or a descriptive value like 'Not available'. Do not omit any keys.
-`;
-
-const generateDiseaseJsonPrompt_en = (context: string) => `
-You are an expert plant pathologist and agronomist. ${context}. Analyze the image to identify the most likely disease, pest, or nutritional deficiency. Provide the following information in a structured JSON object with the following EXACT keys: "nombreEnfermedad", "plantaAfectada", "sintomas", "causas", "tratamientoOrganico", "tratamientoQuimico", "prevencion".
-
-- If you cannot identify the problem with certainty, respond with a JSON object containing only one key: "error", with the value "Could not identify the plant problem.".
-The response MUST be only the JSON object, without introductory text or markdown. **All requested keys are mandatory.** If there is no information for an array-type field, return an empty list [].
-`;
-
-const generateCompareJsonPrompt_en = (plantA: PlantInfo, plantB: PlantInfo) => `
-You are an expert comparative botanist and pharmacologist. Compare Plant A and Plant B and generate an analysis in a JSON object with the EXACT keys: "resumenComparativo", "usosMedicinales", "principiosActivos", "toxicidad", and "diferenciasBotanicas".
-
-- "usosMedicinales": An object with "similitudes" and "diferencias".
-- "principiosActivos": An object with "compartidos" and "unicos" (with keys "plantaA" and "plantaB").
-- "toxicidad": An object with "comparacion", "nivelPlantaA", and "nivelPlantaB".
-- "diferenciasBotanicas": An object with "habitat" and "apariencia".
-
-Plant A: ${plantA.nombreComun} (${plantA.nombreCientifico})
-Plant B: ${plantB.nombreComun} (${plantB.nombreCientifico})
-
-The response MUST be only the JSON object, without introductory text or markdown. **All requested keys are mandatory.**
-`;
-
-const generateFindPlantsPrompt_en = (usage: string, location: { latitude: number; longitude: number } | null) => {
-  let prompt = `You are an expert ethnobotanist. Based on the indication "${usage}", generate a list of up to 5 useful plants.`;
-  if (location) {
-    prompt += ` Prioritize plants native to the region around latitude ${location.latitude} and longitude ${location.longitude}.`;
-  }
-  prompt += `\nThe response MUST be a JSON array of objects, each with keys "nombreComun" and "relevancia", which are mandatory. Do not include markdown.
-  Example: [{"nombreComun": "Chamomile", "relevancia": "Known for its calming and digestive properties."}]`;
-  return prompt;
-};
+const renderIdentifyPrompt = (context: string, language: string, safetyProfile?: SafetyProfile) =>
+  renderPrompt('identify', language, {
+    context,
+    schema: describeSchema(plantIdentificationSchema),
+    notAvailable: renderFragment('notAvailable', language),
+    safetyProfile: renderSafetyHint('identifySafetyProfile', safetyProfile, language),
+  });
 
-const generateCareGuidePrompt_en = (plant: PlantInfo) => `
-You are an expert horticulturist and gardener. Generate a detailed care guide for the plant "${plant.nombreComun} (${plant.nombreCientifico})".
-The response MUST be a JSON object with the following EXACT keys: "riego", "luz", "suelo", "temperaturaHumedad", "fertilizacion", "podaPestes", "trasplante", "propagacion", and "consejosAdicionales".
-- Each key must contain an object with sub-keys describing care concisely and practically.
-- For "trasplante" (repotting), include "frecuencia", "instrucciones", and "consejo".
-- For "propagacion" (propagation), include "metodos", "instrucciones", and "consejo".
-- For "consejosAdicionales" (additional tips), include "purificacionAire" (if the plant purifies air), "seguridadMascotas" (if it's safe for pets and children), and "datoCurioso" (fun fact).
-- Be specific and provide practical tips for an amateur gardener.
-The response MUST be only the JSON object, without introductory text or markdown. **All requested keys are mandatory.**
-`;
-
-const generateLocalPlantsPrompt_en = (location: { latitude: number; longitude: number }) => `
-You are an expert ethnobotanist. Based on the geographic location (latitude ${location.latitude}, longitude ${location.longitude}), generate a list of 3 to 4 common and notable medicinal plants native to or growing abundantly in that region.
-The response MUST be a JSON array of objects, each with "nombreComun" and "relevancia" keys, which are mandatory. Do not include markdown.
-Example: [{"nombreComun": "Dandelion", "relevancia": "Grows commonly in meadows and lawns in the area, known for its diuretic properties."}]
-`;
-
-
-// --- SCHEMA & SANITIZERS (Language-agnostic) ---
-
-function sanitizePlantInfo(data: any): PlantInfo | null {
-    if (!data || typeof data !== 'object') return null;
-    if (data.error) return null;
-
-    const toxData = data.toxicidad && typeof data.toxicidad === 'object' ? data.toxicidad : {};
-    const sanitizedToxicity: ToxicityInfo = {
-        descripcion: String(toxData.descripcion || (typeof data.toxicidad === 'string' ? data.toxicidad : 'Toxicity information not available.')),
-        nivelToxicidad: ['None', 'Low', 'Medium', 'High', 'Lethal'].includes(toxData.nivelToxicidad) ? toxData.nivelToxicidad : 'Low',
-        compuestosToxicos: Array.isArray(toxData.compuestosToxicos) ? toxData.compuestosToxicos.filter((c: any) => typeof c === 'string') : [],
-        sistemasAfectados: Array.isArray(toxData.sistemasAfectados) ? toxData.sistemasAfectados.filter((s: any) => typeof s === 'string') : [],
-        primerosAuxilios: String(toxData.primerosAuxilios || 'Seek immediate medical attention if ingestion or adverse reaction is suspected.'),
-    };
-
-    const sanitizedPrincipiosActivos: ActiveCompound[] = [];
-    if (Array.isArray(data.principiosActivos)) {
-        for (const p of data.principiosActivos) {
-            if (p && typeof p === 'object' && typeof p.nombre === 'string' && typeof p.usos === 'string') {
-                sanitizedPrincipiosActivos.push({
-                    nombre: p.nombre,
-                    usos: p.usos,
-                });
-            }
-        }
-    }
+// --- RESPONSE PARSING (Language-agnostic) ---
 
-    const sanitized: PlantInfo = {
-        nombreComun: String(data.nombreComun || 'Name not available'),
-        nombreCientifico: String(data.nombreCientifico || 'Scientific name not available'),
-        sinonimos: Array.isArray(data.sinonimos) ? data.sinonimos.filter((s: any) => typeof s === 'string') : [],
-        descripcionGeneral: String(data.descripcionGeneral || 'No description available.'),
-        habitat: String(data.habitat || 'Habitat not available.'),
-        distribucionGeografica: String(data.distribucionGeografica || 'Geographic distribution not available.'),
-        floweringSeason: String(data.floweringSeason || 'Flowering season not available.'),
-        conservationStatus: String(data.conservationStatus || 'Not assessed.'),
-        toxicidad: sanitizedToxicity,
-        usosMedicinales: Array.isArray(data.usosMedicinales) ? data.usosMedicinales.filter((u: any) => typeof u === 'string') : [],
-        usosCulinarios: Array.isArray(data.usosCulinarios) ? data.usosCulinarios.filter((u: any) => typeof u === 'string') : [],
-        principiosActivos: sanitizedPrincipiosActivos,
-        preparaciones: [],
-        plantasSimilares: [],
-        plantasConPrincipiosActivosSimilares: [],
-    };
-    if (Array.isArray(data.preparaciones)) {
-        sanitized.preparaciones = data.preparaciones.map((p: any): Preparation | null => {
-                if (!p || typeof p !== 'object') return null;
-                return {
-                    nombre: String(p.nombre || 'Unnamed Preparation'),
-                    ingredientes: Array.isArray(p.ingredientes) ? p.ingredientes.filter((i: any) => typeof i === 'string') : [],
-                    instrucciones: String(p.instrucciones || 'No instructions.'),
-                    dosis: String(p.dosis || ''),
-                    efectosSecundarios: String(p.efectosSecundarios || 'No known side effects reported.'),
-                    contextoHistorico: String(p.contextoHistorico || 'No historical context.'),
-                };
-            }).filter((p): p is Preparation => p !== null);
+function rankCandidates(candidates: IdentificationCandidate[], plantInfo: PlantInfo): IdentificationCandidate[] {
+    const ranked = candidates
+        .map(c => ({ ...c, confianza: Math.min(1, Math.max(0, c.confianza > 1 ? c.confianza / 100 : c.confianza)) })) // Models sometimes answer in percent
+        .sort((a, b) => b.confianza - a.confianza);
+    // The described species must always be reachable from the list, even if the model left it out.
+    const hasMain = ranked.some(c => c.nombreCientifico.toLowerCase() === plantInfo.nombreCientifico.toLowerCase());
+    if (ranked.length > 0 && !hasMain) {
+        ranked.unshift({ nombreComun: plantInfo.nombreComun, nombreCientifico: plantInfo.nombreCientifico, confianza: ranked[0].confianza });
     }
-    if (Array.isArray(data.plantasSimilares)) {
-        sanitized.plantasSimilares = data.plantasSimilares.map((p: any): SimilarPlant | null => {
-                if (!p || typeof p !== 'object' || !p.nombreComun || !p.diferenciaClave) return null;
-                return {
-                    nombreComun: String(p.nombreComun),
-                    nombreCientifico: String(p.nombreCientifico || 'N/A'),
-                    diferenciaClave: String(p.diferenciaClave),
-                };
-            }).filter((p): p is SimilarPlant => p !== null);
-    }
-    if (Array.isArray(data.plantasConPrincipiosActivosSimilares)) {
-        sanitized.plantasConPrincipiosActivosSimilares = data.plantasConPrincipiosActivosSimilares.map((p: any): SimilarActivePlant | null => {
-                if (!p || typeof p !== 'object' || !p.nombreComun || !p.principioActivoCompartido) return null;
-                return {
-                    nombreComun: String(p.nombreComun),
-                    nombreCientifico: String(p.nombreCientifico || 'N/A'),
-                    principioActivoCompartido: String(p.principioActivoCompartido),
-                };
-            }).filter((p): p is SimilarActivePlant => p !== null);
-    }
-    if (sanitized.nombreComun === 'Name not available' && sanitized.nombreCientifico === 'Scientific name not available') {
-        return null;
-    }
-    return sanitized;
+    return ranked.slice(0, 5);
 }
 
-function sanitizeDiseaseInfo(data: any): DiseaseInfo | null {
-    if (!data || typeof data !== 'object') return null;
-    if (data.error) return null;
-    const sanitized: DiseaseInfo = {
-        nombreEnfermedad: String(data.nombreEnfermedad || 'Diagnosis not available'),
-        plantaAfectada: Array.isArray(data.plantaAfectada) ? data.plantaAfectada.filter((s: any) => typeof s === 'string') : [],
-        sintomas: Array.isArray(data.sintomas) ? data.sintomas.filter((s: any) => typeof s === 'string') : [],
-        causas: Array.isArray(data.causas) ? data.causas.filter((c: any) => typeof c === 'string') : [],
-        tratamientoOrganico: Array.isArray(data.tratamientoOrganico) ? data.tratamientoOrganico.filter((t: any) => typeof t === 'string') : [],
-        tratamientoQuimico: Array.isArray(data.tratamientoQuimico) ? data.tratamientoQuimico.filter((t: any) => typeof t === 'string') : [],
-        prevencion: Array.isArray(data.prevencion) ? data.prevencion.filter((p: any) => typeof p === 'string') : [],
-    };
-    if (sanitized.nombreEnfermedad === 'Diagnosis not available' || sanitized.sintomas.length === 0) {
-        return null;
-    }
-    return sanitized;
-}
+// --- UTILITY FUNCTIONS ---
 
+// Grounded calls cannot use structured output, so their JSON may come wrapped in a fence.
+const unfence = (text: string): string => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
 
-// --- UTILITY FUNCTIONS ---
+const isJson = (text: string): boolean => {
+    try { JSON.parse(unfence(text)); return true; } catch { return false; }
+};
 
-const getJsonFromResponse = (text: string) => {
+// Parses a JSON response and validates it against the schema the model was asked to follow.
+const parseStructuredResponse = <T>(text: string, schema: Schema): T => {
+    let data: any;
     try {
-        return JSON.parse(text);
-    } catch (e) {
-        const match = text.match(/```json\s*([\s\S]*?)\s*```/);
-        if (match && match[1]) {
-            try { return JSON.parse(match[1]); } catch (parseError) { throw new Error("Model response contained malformed JSON inside a code block."); }
-        }
-        const startIndex = text.indexOf('{');
-        const endIndex = text.lastIndexOf('}');
-        if (startIndex !== -1 && endIndex !== -1 && endIndex > startIndex) {
-            const jsonString = text.substring(startIndex, endIndex + 1);
-            try { return JSON.parse(jsonString); } catch (finalParseError) { /* continue to array check */ }
-        }
-        const arrayStartIndex = text.indexOf('[');
-        const arrayEndIndex = text.lastIndexOf(']');
-        if (arrayStartIndex !== -1 && arrayEndIndex !== -1 && arrayEndIndex > arrayStartIndex) {
-            const arrayString = text.substring(arrayStartIndex, arrayEndIndex + 1);
-            try { return JSON.parse(arrayString); } catch (arrayParseError) { throw new Error("Model response is not a valid JSON array. Please try again."); }
-        }
-        throw new Error("Model response is not valid JSON. Please try again.");
+        data = JSON.parse(unfence(text));
+    } catch {
+        throw new SchemaValidationError('', 'the response is not a JSON document');
+    }
+    if (data && typeof data === 'object' && typeof data.error === 'string' && data.error.trim()) {
+        throw new Error(data.error);
     }
+    return validateAgainstSchema<T>(data, schema);
 };
 
-const handleApiError = (error: unknown) => {
+const handleApiError = (error: unknown, signal?: AbortSignal) => {
+    // A cancelled or timed-out call reports why it was aborted, not whatever the transport threw.
+    throwIfAborted(signal);
     console.error("API call error:", error);
     if (error instanceof Error) {
-        if (error.message.includes('429') || error.message.toLowerCase().includes('resource has been exhausted')) {
-            throw new Error("The free query limit has been reached. Please enter your own API key to continue.");
+        // Retries and key rotation already happened in withRetry; a quota error here means every key is spent.
+        if (!(error instanceof ApiKeysExhaustedError) && (error.message.includes('429') || error.message.toLowerCase().includes('resource has been exhausted'))) {
+            throw new ApiKeysExhaustedError(1);
         }
         throw error;
     }
@@ -294,100 +158,90 @@ const handleApiError = (error: unknown) => {
 
 // --- CORE API FUNCTIONS ---
 
-const getPlantInfo = async (apiKey: string, parts: any[], useGrounding: boolean): Promise<{ plantInfo: PlantInfo; sources: GroundingSource[] }> => {
+const getPlantInfo = async (apiKeys: string[], parts: ContentPart[], useGrounding: boolean, language: string, signal?: AbortSignal, onPartial?: (plantInfo: Partial<PlantInfo>) => void): Promise<{ plantInfo: PlantInfo; sources: GroundingSource[]; candidates: IdentificationCandidate[]; structureVersion?: string }> => {
   try {
-    const ai = getAiClient(apiKey);
-    const config: any = {};
-    if (useGrounding) {
-      config.tools = [{ googleSearch: {} }];
-    } else {
-      config.responseMimeType = 'application/json';
-    }
-
-    // Switched to gemini-2.5-flash for better stability and quota limits
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts },
-      config: config,
+    const provider = getAiProvider(apiKeys, 'getPlantInfo');
+
+    const response = await provider.generateContent({
+      feature: 'identify',
+      model: getModelForFeature('identify'),
+      parts,
+      useGrounding,
+      responseMimeType: useGrounding ? undefined : 'application/json',
+      responseSchema: plantIdentificationSchema,
+      signal,
+      onPartialText: onPartial && ((text) => {
+        const partial = parsePartialJson(text);
+        if (partial && typeof partial === 'object' && !Array.isArray(partial)) {
+          const { candidatos, error, ...plantInfo } = partial as Partial<PlantInfo> & { candidatos?: unknown; error?: unknown };
+          onPartial(plantInfo);
+        }
+      }),
     });
 
-    const data = getJsonFromResponse(response.text);
-    if (!data) throw new Error("Could not extract structured information from the model's response.");
-    if (data.error) throw new Error(data.error);
-
-    const sanitizedData = sanitizePlantInfo(data);
-    if (!sanitizedData) {
-        throw new Error("The model's response was not in the expected format. The plant may not have been recognized.");
+    // A grounded answer that is not the bare JSON asked for is restructured by a second call, which
+    // can use structured output as it does not search. Its prompt version is returned to be recorded too.
+    let text = response.text;
+    let structureVersion: string | undefined;
+    if (useGrounding && !isJson(text)) {
+      const prompt = renderPrompt('structure', language, { schema: describeSchema(plantIdentificationSchema) });
+      structureVersion = prompt.version;
+      text = (await provider.generateContent({
+        feature: 'identify',
+        model: getModelForFeature('identify'),
+        parts: [{ text: prompt.text }, { text }],
+        responseMimeType: 'application/json',
+        responseSchema: plantIdentificationSchema,
+        signal,
+      })).text;
     }
-    
-    const sources: GroundingSource[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: GroundingChunk) => ({
-            uri: chunk.web?.uri || '',
-            title: chunk.web?.title || 'Untitled Source'
-        })).filter(source => source.uri) || [];
 
-    return { plantInfo: sanitizedData, sources };
+    const { candidatos, error, ...plantInfo } = parseStructuredResponse<PlantInfo & { candidatos: IdentificationCandidate[]; error?: string }>(text, plantIdentificationSchema);
+    const candidates = rankCandidates(candidatos, plantInfo);
+
+    return { plantInfo, sources: response.sources, candidates, structureVersion };
   } catch (error) {
-    handleApiError(error);
+    handleApiError(error, signal);
     throw new Error("Unhandled API error");
   }
 };
 
-async function generateDistributionMap(apiKey: string, plantInfo: PlantInfo, language: 'es' | 'en'): Promise<string | null> {
-    if (!plantInfo.distribucionGeografica || plantInfo.distribucionGeografica.includes('no disponible') || plantInfo.distribucionGeografica.includes('not available')) {
-        return null;
+// The model fills empty fields with the "not available" wording of whichever language it was asked in.
+const isUnavailable = (text: string) =>
+    !text || getPromptLanguages().some(language => text.toLowerCase().includes(renderFragment('notAvailable', language).toLowerCase()));
+
+// A missing map says why, so the app can tell a paused budget from a failure and the answer isn't cached without it.
+async function generateDistributionMap(apiKeys: string[], plantInfo: PlantInfo, language: string, signal?: AbortSignal): Promise<{ src: string | null; failure?: MapFailure }> {
+    if (isUnavailable(plantInfo.distribucionGeografica)) {
+        return { src: null };
     }
     try {
-        const ai = getAiClient(apiKey);
-        const prompt_text = language === 'es' 
-            ? `Mapa del mundo estilo atlas que muestra la distribución geográfica de ${plantInfo.nombreCientifico}. Descripción: "${plantInfo.distribucionGeografica}". Resalta claramente las áreas mencionadas.`
-            : `Atlas-style world map showing the geographic distribution of ${plantInfo.nombreCientifico}. Description: "${plantInfo.distribucionGeografica}". Clearly highlight the mentioned areas on the map.`;
-
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt_text,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/png',
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-            return `data:image/png;base64,${base64ImageBytes}`;
-        }
+        const provider = getAiProvider(apiKeys, 'generateDistributionMap');
+        const prompt = renderPrompt('mapImage', language, { scientificName: plantInfo.nombreCientifico, distribution: plantInfo.distribucionGeografica });
 
-        return null;
+        return { src: await provider.generateImage({ feature: 'map', model: getModelForFeature('map'), prompt: prompt.text, signal }) };
     } catch (error) {
+        throwIfAborted(signal); // The map is optional, but a cancellation must still stop the whole request
+        if (error instanceof BudgetExceededError) {
+            return { src: null, failure: 'budget' };
+        }
         console.error("Error generating distribution map:", error);
-        return null;
+        return { src: null, failure: 'error' };
     }
 }
 
+const hasFullMap = (result: { mapFailure?: MapFailure }) => !result.mapFailure;
+
 // NOTE: This function is kept for code structure but should be used cautiously 
 // as generative AI often "hallucinates" specific plant details.
-async function generatePlantImage(apiKey: string, plantInfo: PlantInfo, language: 'es' | 'en'): Promise<string | null> {
+async function generatePlantImage(apiKeys: string[], plantInfo: PlantInfo, language: string, signal?: AbortSignal): Promise<string | null> {
     try {
-        const ai = getAiClient(apiKey);
-        const prompt_text = language === 'es'
-            ? `Fotografía realista y detallada de la planta ${plantInfo.nombreComun} (${plantInfo.nombreCientifico}) en su hábitat natural. Descripción: "${plantInfo.descripcionGeneral}".`
-            : `Realistic and detailed photograph of the plant ${plantInfo.nombreComun} (${plantInfo.nombreCientifico}) in its natural habitat. Description: "${plantInfo.descripcionGeneral}".`;
-
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt_text,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/png',
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-            return `data:image/png;base64,${base64ImageBytes}`;
-        }
-        
-        return null;
+        const provider = getAiProvider(apiKeys, 'generatePlantImage');
+        const prompt = renderPrompt('plantImage', language, { commonName: plantInfo.nombreComun, scientificName: plantInfo.nombreCientifico, description: plantInfo.descripcionGeneral });
+
+        return await provider.generateImage({ feature: 'plantImage', model: getModelForFeature('plantImage'), prompt: prompt.text, signal });
     } catch (error) {
+        throwIfAborted(signal);
         console.error("Graceful Error: Could not generate plant image. This is expected if the image model is not enabled for the API key. Falling back to placeholder.", error);
         return null; // Return null on any error to allow fallback.
     }
@@ -395,267 +249,314 @@ async function generatePlantImage(apiKey: string, plantInfo: PlantInfo, language
 
 
 export const identifyPlantFromImage = async (
-  apiKey: string,
-  base64Image: string,
-  mimeType: string,
+  apiKeys: string[],
+  images: SpecimenImage[],
   location: { latitude: number; longitude: number } | null,
-  language: 'es' | 'en'
-): Promise<{ plantInfo: PlantInfo; sources: GroundingSource[], mapaDistribucionSrc: string | null }> => {
-  const imagePart = { inlineData: { data: base64Image, mimeType } };
-  let context: string;
-  if (language === 'es') {
-      context = "Identifica la planta en la siguiente imagen";
-      if (location) context += ` y considera que fue encontrada cerca de la latitud ${location.latitude} y longitud ${location.longitude} para mejorar la precisión.`;
-  } else {
-      context = "Identify the plant in the following image";
-      if (location) context += ` and consider it was found near latitude ${location.latitude} and longitude ${location.longitude} to improve accuracy.`;
-  }
-  const promptGenerator = language === 'es' ? generateJsonPrompt_es : generateJsonPrompt_en;
-  const textPart = { text: promptGenerator(context) };
-  const { plantInfo, sources } = await getPlantInfo(apiKey, [imagePart, textPart], true);
-  const mapaDistribucionSrc = await generateDistributionMap(apiKey, plantInfo, language);
-  return { plantInfo, sources, mapaDistribucionSrc };
+  language: string,
+  options: PhotoIdentificationOptions = {}
+): Promise<{ plantInfo: PlantInfo; sources: GroundingSource[]; candidates: IdentificationCandidate[]; mapaDistribucionSrc: string | null; mapFailure?: MapFailure; promptVersion: string; photoHash: string }> => {
+  const photoHash = options.photoHash ?? await hashImages(images);
+  // The grounded answer may go through the structure prompt, so a change to either one is a new answer.
+  const promptVersions = `${getPromptVersion('identify', language)}+${getPromptVersion('structure', language)}`;
+  const result = await withResponseCache({ feature: 'identify', language, promptVersion: promptVersions, input: `photos:${photoHash}@${locationKey(location)}${safetyKey(options.safetyProfile)}` }, options, async () => {
+    if (images.length === 0) {
+      throw new Error("At least one photo is required to identify a plant.");
+    }
+    // Each photo is preceded by a short label so the model knows which organ it is looking at.
+    const imageParts: ContentPart[] = images.flatMap((image, index): ContentPart[] => [
+      { text: renderFragment('photoLabel', language, { index: index + 1, organ: renderFragment(`organ.${image.organ}`, language) }) },
+      { inlineData: { data: image.base64, mimeType: image.mimeType } },
+    ]);
+    let context = images.length > 1 ? renderFragment('identifyManyPhotos', language, { count: images.length }) : renderFragment('identifyOnePhoto', language);
+    if (location) context += renderFragment('identifyNearLocation', language, location);
+    const prompt = renderIdentifyPrompt(context, language, options.safetyProfile);
+    const textPart = { text: prompt.text };
+    const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+    try {
+      const { plantInfo, sources, candidates, structureVersion } = await getPlantInfo(apiKeys, [...imageParts, textPart], true, language, signal, options.onPartialPlantInfo);
+      const map = await generateDistributionMap(apiKeys, plantInfo, language, signal);
+      const promptVersion = structureVersion ? `${prompt.version}+${structureVersion}` : prompt.version;
+      return { plantInfo, sources, candidates, mapaDistribucionSrc: map.src, mapFailure: map.failure, promptVersion };
+    } finally {
+      dispose();
+    }
+  }, hasFullMap);
+  return { ...result, photoHash };
 };
 
 export const identifyPlantFromText = async (
-  apiKey: string,
+  apiKeys: string[],
   plantName: string,
-  language: 'es' | 'en'
-): Promise<{ plantInfo: PlantInfo; sources: GroundingSource[]; imageSrc: string | null; mapaDistribucionSrc: string | null; imageGenerationFailed: boolean }> => {
-    const context = language === 'es' ? `Busca información sobre la planta llamada "${plantName}"` : `Find information about the plant named "${plantName}"`;
-    const promptGenerator = language === 'es' ? generateJsonPrompt_es : generateJsonPrompt_en;
-    const textPart = { text: promptGenerator(context) };
-    const { plantInfo, sources } = await getPlantInfo(apiKey, [textPart], false);
-
-    // CHANGE: Disabled image generation for text searches to avoid hallucinations (e.g. incorrect Jasonia glutinosa).
-    // The app will render a safe SVG placeholder instead.
-    // const imageSrc = await generatePlantImage(apiKey, plantInfo, language);
-    const imageSrc = null; 
-    
-    const mapaDistribucionSrc = await generateDistributionMap(apiKey, plantInfo, language);
-    const imageGenerationFailed = false; // Intentionally skipped, not failed.
-
-    return { plantInfo, sources, imageSrc, mapaDistribucionSrc, imageGenerationFailed };
+  language: string,
+  options: PlantStreamOptions = {}
+): Promise<{ plantInfo: PlantInfo; sources: GroundingSource[]; candidates: IdentificationCandidate[]; imageSrc: string | null; mapaDistribucionSrc: string | null; mapFailure?: MapFailure; imageGenerationFailed: boolean; promptVersion: string }> => {
+    return withResponseCache({ feature: 'identify', language, promptVersion: getPromptVersion('identify', language), input: `text:${normalizeQuery(plantName)}${safetyKey(options.safetyProfile)}` }, options, async () => {
+        const prompt = renderIdentifyPrompt(renderFragment('identifyByName', language, { name: plantName }), language, options.safetyProfile);
+        const textPart = { text: prompt.text };
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const { plantInfo, sources, candidates } = await getPlantInfo(apiKeys, [textPart], false, language, signal, options.onPartialPlantInfo);
+
+            // CHANGE: Disabled image generation for text searches to avoid hallucinations (e.g. incorrect Jasonia glutinosa).
+            // The app will render a safe SVG placeholder instead.
+            // const imageSrc = await generatePlantImage(apiKeys, plantInfo, language, signal);
+            const imageSrc = null; 
+        
+            const map = await generateDistributionMap(apiKeys, plantInfo, language, signal);
+            const imageGenerationFailed = false; // Intentionally skipped, not failed.
+
+            return { plantInfo, sources, candidates, imageSrc, mapaDistribucionSrc: map.src, mapFailure: map.failure, imageGenerationFailed, promptVersion: prompt.version };
+        } finally {
+            dispose();
+        }
+    }, hasFullMap);
 };
 
 export const diagnosePlantDiseaseFromImage = async (
-    apiKey: string,
+    apiKeys: string[],
     base64Image: string,
     mimeType: string,
-    language: 'es' | 'en'
-): Promise<{ diseaseInfo: DiseaseInfo; sources: GroundingSource[] }> => {
-    try {
-        const ai = getAiClient(apiKey);
-        const imagePart = { inlineData: { data: base64Image, mimeType } };
-        const context = language === 'es' ? "Analiza la siguiente imagen de una planta que parece enferma o dañada." : "Analyze the following image of a plant that appears sick or damaged.";
-        const promptGenerator = language === 'es' ? generateDiseaseJsonPrompt_es : generateDiseaseJsonPrompt_en;
-        const textPart = { text: promptGenerator(context) };
-
-        // Using gemini-2.5-flash for reliability
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
-            config: { responseMimeType: 'application/json' },
-        });
-
-        const data = getJsonFromResponse(response.text);
-        if (!data) throw new Error("Could not extract structured information from the model's response.");
-        if (data.error) throw new Error(data.error);
-        
-        const sanitizedData = sanitizeDiseaseInfo(data);
-        if (!sanitizedData) {
-            throw new Error("The model's response for the disease was not in the expected format.");
+    language: string,
+    options: ServiceOptions = {}
+): Promise<{ diseaseInfo: DiseaseInfo; sources: GroundingSource[]; promptVersion: string }> => {
+    return withResponseCache({ feature: 'diagnose', language, promptVersion: getPromptVersion('diagnose', language), input: await hashContent(mimeType, base64Image) }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'diagnosePlantDiseaseFromImage');
+            const imagePart: ContentPart = { inlineData: { data: base64Image, mimeType } };
+            const prompt = renderPrompt('diagnose', language, { schema: describeSchema(diseaseInfoSchema) });
+            const textPart = { text: prompt.text };
+
+            const response = await provider.generateContent({
+                feature: 'diagnose',
+                model: getModelForFeature('diagnose'),
+                parts: [imagePart, textPart],
+                responseMimeType: 'application/json',
+                responseSchema: diseaseInfoSchema,
+                signal,
+            });
+
+            const { error, ...diseaseInfo } = parseStructuredResponse<DiseaseInfo & { error?: string }>(response.text, diseaseInfoSchema);
+            return { diseaseInfo, sources: response.sources, promptVersion: prompt.version };
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled API error in diagnosis");
+        } finally {
+            dispose();
         }
-        const sources: GroundingSource[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: GroundingChunk) => ({
-            uri: chunk.web?.uri || '',
-            title: chunk.web?.title || 'Untitled Source'
-        })).filter(source => source.uri) || [];
-        return { diseaseInfo: sanitizedData, sources };
-    } catch (error) {
-        handleApiError(error);
-        throw new Error("Unhandled API error in diagnosis");
-    }
+    });
 };
 
-function sanitizeComparisonInfo(data: any): ComparisonInfo | null {
-    if (!data || typeof data !== 'object') return null;
-    const getString = (val: any, defaultVal = 'N/A'): string => String(val || defaultVal);
-    const getStringArray = (val: any): string[] => Array.isArray(val) ? val.filter(item => typeof item === 'string') : [];
-    return {
-        resumenComparativo: getString(data.resumenComparativo),
-        usosMedicinales: { similitudes: getStringArray(data.usosMedicinales?.similitudes), diferencias: getStringArray(data.usosMedicinales?.diferencias) },
-        principiosActivos: { compartidos: getStringArray(data.principiosActivos?.compartidos), unicos: { plantaA: getStringArray(data.principiosActivos?.unicos?.plantaA), plantaB: getStringArray(data.principiosActivos?.unicos?.plantaB) } },
-        toxicidad: { comparacion: getString(data.toxicidad?.comparacion), nivelPlantaA: getString(data.toxicidad?.nivelPlantaA, 'N/A'), nivelPlantaB: getString(data.toxicidad?.nivelPlantaB, 'N/A') },
-        diferenciasBotanicas: { habitat: getString(data.diferenciasBotanicas?.habitat), apariencia: getString(data.diferenciasBotanicas?.apariencia) },
-    };
-}
-
 export const comparePlants = async (
-    apiKey: string,
+    apiKeys: string[],
     plantA: PlantInfo,
     plantB: PlantInfo,
-    language: 'es' | 'en'
+    language: string,
+    options: ServiceOptions = {}
 ): Promise<ComparisonInfo> => {
-    try {
-        const ai = getAiClient(apiKey);
-        const promptGenerator = language === 'es' ? generateCompareJsonPrompt_es : generateCompareJsonPrompt_en;
-        const textPart = { text: promptGenerator(plantA, plantB) };
-
-        // Using gemini-2.5-flash for reliability
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart] },
-            config: { responseMimeType: 'application/json' },
-        });
-
-        const data = getJsonFromResponse(response.text);
-        if (!data) throw new Error("The model's response for the comparison is empty.");
-        if (data.error) throw new Error(data.error);
-        
-        const sanitizedData = sanitizeComparisonInfo(data);
-        if (!sanitizedData) {
-            throw new Error("Could not process the comparison from the model.");
+    return withResponseCache({ feature: 'compare', language, promptVersion: getPromptVersion('compare', language), input: [plantA.nombreCientifico, plantB.nombreCientifico].map(normalizeQuery).join('+') }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'comparePlants');
+            const textPart = { text: renderPrompt('compare', language, {
+                schema: describeSchema(comparisonSchema),
+                plantA: `${plantA.nombreComun} (${plantA.nombreCientifico})`,
+                plantB: `${plantB.nombreComun} (${plantB.nombreCientifico})`,
+            }).text };
+
+            const response = await provider.generateContent({
+                feature: 'compare',
+                model: getModelForFeature('compare'),
+                parts: [textPart],
+                responseMimeType: 'application/json',
+                responseSchema: comparisonSchema,
+                signal,
+            });
+
+            return parseStructuredResponse<ComparisonInfo>(response.text, comparisonSchema);
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled error in plant comparison");
+        } finally {
+            dispose();
         }
-        return sanitizedData;
-    } catch (error) {
-        handleApiError(error);
-        throw new Error("Unhandled error in plant comparison");
-    }
+    });
 };
 
-function sanitizeSuggestedPlants(data: any): SuggestedPlant[] | null {
-  if (!Array.isArray(data)) return null;
-  const sanitized: SuggestedPlant[] = data.map((item: any): SuggestedPlant | null => {
-      if (typeof item === 'object' && item !== null && typeof item.nombreComun === 'string' && typeof item.relevancia === 'string') {
-        return { nombreComun: item.nombreComun, relevancia: item.relevancia };
-      }
-      return null;
-    }).filter((item): item is SuggestedPlant => item !== null);
-  return sanitized.length > 0 ? sanitized : null;
-}
-
 export const findPlantsByUsage = async (
-    apiKey: string,
+    apiKeys: string[],
     usage: string,
     location: { latitude: number; longitude: number } | null,
-    language: 'es' | 'en'
+    language: string,
+    options: ServiceOptions & SafetyOptions = {}
 ): Promise<SuggestedPlant[]> => {
-    try {
-        const ai = getAiClient(apiKey);
-        const promptGenerator = language === 'es' ? generateFindPlantsPrompt_es : generateFindPlantsPrompt_en;
-        const textPart = { text: promptGenerator(usage, location) };
+    return withResponseCache({ feature: 'remedy', language, promptVersion: getPromptVersion('remedy', language), input: `${normalizeQuery(usage)}@${locationKey(location)}${safetyKey(options.safetyProfile)}` }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'findPlantsByUsage');
+            const textPart = { text: renderPrompt('remedy', language, {
+                usage,
+                locationHint: location ? renderFragment('remedyNearLocation', language, location) : '',
+                safetyProfile: renderSafetyHint('remedySafetyProfile', options.safetyProfile, language),
+                schema: describeSchema(remedySuggestionsSchema),
+            }).text };
         
-        // Using gemini-2.5-flash for reliability
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart] },
-            config: { responseMimeType: 'application/json' },
-        });
-
-        const data = getJsonFromResponse(response.text);
-        if (!data) throw new Error("The model's response for remedy search is empty.");
-        if (data.error) throw new Error(data.error);
-
-        const sanitizedData = sanitizeSuggestedPlants(data);
-        if (!sanitizedData) {
-            throw new Error("Could not find valid suggestions from the model.");
+            const response = await provider.generateContent({
+                feature: 'remedy',
+                model: getModelForFeature('remedy'),
+                parts: [textPart],
+                responseMimeType: 'application/json',
+                responseSchema: remedySuggestionsSchema,
+                signal,
+            });
+
+            return parseStructuredResponse<SuggestedPlant[]>(response.text, remedySuggestionsSchema);
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled error in remedy search.");
+        } finally {
+            dispose();
         }
-        return sanitizedData;
-    } catch (error) {
-        handleApiError(error);
-        throw new Error("Unhandled error in remedy search.");
-    }
+    });
 };
 
 export const findLocalPlants = async (
-    apiKey: string,
+    apiKeys: string[],
     location: { latitude: number; longitude: number },
-    language: 'es' | 'en'
+    language: string,
+    options: ServiceOptions = {}
 ): Promise<SuggestedPlant[]> => {
-    try {
-        const ai = getAiClient(apiKey);
-        const promptGenerator = language === 'es' ? generateLocalPlantsPrompt_es : generateLocalPlantsPrompt_en;
-        const textPart = { text: promptGenerator(location) };
+    return withResponseCache({ feature: 'local', language, promptVersion: getPromptVersion('local', language), input: locationKey(location) }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'findLocalPlants');
+            const textPart = { text: renderPrompt('local', language, { ...location, schema: describeSchema(suggestedPlantsSchema) }).text };
         
-        // Using gemini-2.5-flash for reliability
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart] },
-            config: { responseMimeType: 'application/json' },
-        });
-
-        const data = getJsonFromResponse(response.text);
-        if (!data) throw new Error("The model's response for local plants search is empty.");
-        if (data.error) throw new Error(data.error);
-
-        const sanitizedData = sanitizeSuggestedPlants(data);
-        if (!sanitizedData) {
-            throw new Error("Could not find valid local plant suggestions from the model.");
+            const response = await provider.generateContent({
+                feature: 'local',
+                model: getModelForFeature('local'),
+                parts: [textPart],
+                responseMimeType: 'application/json',
+                responseSchema: suggestedPlantsSchema,
+                signal,
+            });
+
+            return parseStructuredResponse<SuggestedPlant[]>(response.text, suggestedPlantsSchema);
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled error in local plants search.");
+        } finally {
+            dispose();
         }
-        return sanitizedData;
-    } catch (error) {
-        handleApiError(error);
-        throw new Error("Unhandled error in local plants search.");
-    }
+    });
 };
 
-function sanitizeCareGuide(data: any): CareGuideInfo | null {
-    if (!data || typeof data !== 'object') return null;
-    const s = (val: any, defaultVal = 'N/A') => String(val || defaultVal);
-    const getObj = (obj: any) => obj && typeof obj === 'object' ? obj : {};
-    
-    const riego = getObj(data.riego);
-    const luz = getObj(data.luz);
-    const suelo = getObj(data.suelo);
-    const temperaturaHumedad = getObj(data.temperaturaHumedad);
-    const fertilizacion = getObj(data.fertilizacion);
-    const podaPestes = getObj(data.podaPestes);
-    const trasplante = getObj(data.trasplante);
-    const propagacion = getObj(data.propagacion);
-    const consejosAdicionales = getObj(data.consejosAdicionales);
-
-    return {
-        riego: { frecuencia: s(riego.frecuencia), metodo: s(riego.metodo), consejo: s(riego.consejo) },
-        luz: { nivel: s(luz.nivel), ubicacion: s(luz.ubicacion), consejo: s(luz.consejo) },
-        suelo: { tipo: s(suelo.tipo), drenaje: s(suelo.drenaje), consejo: s(suelo.consejo) },
-        temperaturaHumedad: { temperatura: s(temperaturaHumedad.temperatura), humedad: s(temperaturaHumedad.humedad), consejo: s(temperaturaHumedad.consejo) },
-        fertilizacion: { frecuencia: s(fertilizacion.frecuencia), tipo: s(fertilizacion.tipo), consejo: s(fertilizacion.consejo) },
-        podaPestes: { poda: s(podaPestes.poda), pestesComunes: s(podaPestes.pestesComunes), consejo: s(podaPestes.consejo) },
-        trasplante: { frecuencia: s(trasplante.frecuencia), instrucciones: s(trasplante.instrucciones), consejo: s(trasplante.consejo) },
-        propagacion: { metodos: s(propagacion.metodos), instrucciones: s(propagacion.instrucciones), consejo: s(propagacion.consejo) },
-        consejosAdicionales: { purificacionAire: s(consejosAdicionales.purificacionAire), seguridadMascotas: s(consejosAdicionales.seguridadMascotas), datoCurioso: s(consejosAdicionales.datoCurioso) },
-    };
-}
-
-
 export const generateCareGuide = async (
-    apiKey: string,
+    apiKeys: string[],
     plant: PlantInfo,
-    language: 'es' | 'en'
-): Promise<CareGuideInfo> => {
-    try {
-        const ai = getAiClient(apiKey);
-        const promptGenerator = language === 'es' ? generateCareGuidePrompt_es : generateCareGuidePrompt_en;
-        const textPart = { text: promptGenerator(plant) };
-
-        // Using gemini-2.5-flash for reliability
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart] },
-            config: { responseMimeType: 'application/json' },
-        });
-
-        const data = getJsonFromResponse(response.text);
-        if (!data) throw new Error("The model's response for the care guide is empty.");
-        if (data.error) throw new Error(data.error);
-
-        const sanitizedData = sanitizeCareGuide(data);
-        if (!sanitizedData) {
-            throw new Error("Could not process the care guide from the model.");
+    language: string,
+    options: ServiceOptions = {}
+): Promise<{ careGuide: CareGuideInfo; promptVersion: string }> => {
+    return withResponseCache({ feature: 'careGuide', language, promptVersion: getPromptVersion('careGuide', language), input: normalizeQuery(plant.nombreCientifico) }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'generateCareGuide');
+            const prompt = renderPrompt('careGuide', language, { plant: `${plant.nombreComun} (${plant.nombreCientifico})`, schema: describeSchema(careGuideSchema) });
+            const textPart = { text: prompt.text };
+
+            const response = await provider.generateContent({
+                feature: 'careGuide',
+                model: getModelForFeature('careGuide'),
+                parts: [textPart],
+                responseMimeType: 'application/json',
+                responseSchema: careGuideSchema,
+                signal,
+            });
+
+            return { careGuide: parseStructuredResponse<CareGuideInfo>(response.text, careGuideSchema), promptVersion: prompt.version };
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled error in care guide generation.");
+        } finally {
+            dispose();
         }
-        return sanitizedData;
-    } catch (error) {
-        handleApiError(error);
-        throw new Error("Unhandled error in care guide generation.");
-    }
+    });
+};
+
+// Every medication is checked against every plant in one call. Plants are passed as
+// "Common name (Scientific name)" when known, so the records can be matched back to them.
+export const checkInteractions = async (
+    apiKeys: string[],
+    medications: string[],
+    plants: string[],
+    language: string,
+    options: ServiceOptions = {}
+): Promise<InteractionReport> => {
+    const listKey = (items: string[]) => items.map(normalizeQuery).sort().join('+');
+    return withResponseCache({ feature: 'interactions', language, promptVersion: getPromptVersion('interactions', language), input: `${listKey(medications)}|${listKey(plants)}` }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'checkInteractions');
+            const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+            const textPart = { text: renderPrompt('interactions', language, {
+                schema: describeSchema(interactionReportSchema),
+                medications: bulletList(medications),
+                plants: bulletList(plants),
+            }).text };
+
+            const response = await provider.generateContent({
+                feature: 'interactions',
+                model: getModelForFeature('interactions'),
+                parts: [textPart],
+                responseMimeType: 'application/json',
+                responseSchema: interactionReportSchema,
+                signal,
+            });
+
+            return parseStructuredResponse<InteractionReport>(response.text, interactionReportSchema);
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled error in interaction check.");
+        } finally {
+            dispose();
+        }
+    });
+};
+
+export type TranslatableContent = Pick<EntryTranslation, TranslatablePart>;
+
+// Translates the stored parts of an entry into `language`. The content travels as its own part after
+// the instructions, so the same saved entry always hashes to the same cache key.
+export const translateEntryContent = async (
+    apiKeys: string[],
+    content: TranslatableContent,
+    language: string,
+    options: ServiceOptions = {}
+): Promise<{ content: TranslatableContent; promptVersion: string }> => {
+    const parts = (Object.keys(content) as TranslatablePart[]).filter(part => content[part]);
+    const schema = entryTranslationSchema(parts);
+    const document = JSON.stringify(content);
+    return withResponseCache({ feature: 'translate', language, promptVersion: getPromptVersion('translate', language), input: await hashContent(document) }, options, async () => {
+        const { signal, dispose } = createRequestScope(options, getDefaultTimeoutMs());
+        try {
+            const provider = getAiProvider(apiKeys, 'translateEntryContent');
+            const prompt = renderPrompt('translate', language, { schema: describeSchema(schema) });
+
+            const response = await provider.generateContent({
+                feature: 'translate',
+                model: getModelForFeature('translate'),
+                parts: [{ text: prompt.text }, { text: document }],
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+                signal,
+            });
+
+            return { content: parseStructuredResponse<TranslatableContent>(response.text, schema), promptVersion: prompt.version };
+        } catch (error) {
+            handleApiError(error, signal);
+            throw new Error("Unhandled error in entry translation.");
+        } finally {
+            dispose();
+        }
+    });
 };
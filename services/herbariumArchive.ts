@@ -0,0 +1,80 @@
+import { HistoryEntry } from '../types';
+
+// --- HERBARIUM ARCHIVE ---
+// A self-contained JSON bundle with the complete entries (photos and maps embedded as data URLs),
+// so a collection can be moved between devices or shared without losing anything.
+
+export const ARCHIVE_FORMAT = 'herbario-ia/herbarium';
+export const ARCHIVE_VERSION = 1;
+
+interface HerbariumArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: HistoryEntry[];
+}
+
+export interface MergeResult {
+  entries: HistoryEntry[];
+  added: number;
+  updated: number;
+}
+
+export const createHerbariumArchive = (entries: HistoryEntry[]): Blob => {
+  const archive: HerbariumArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+const isHistoryEntry = (value: any): value is HistoryEntry =>
+  !!value && typeof value === 'object'
+  && typeof value.id === 'string' && value.id.length > 0
+  && typeof value.timestamp === 'number'
+  && typeof value.imageSrc === 'string'
+  && ((value.type === 'plant' && !!value.plantInfo) || (value.type === 'disease' && !!value.diseaseInfo));
+
+export const parseHerbariumArchive = (text: string): HistoryEntry[] => {
+  let archive: any;
+  try {
+    archive = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The selected file is not a valid herbarium archive.");
+  }
+  if (!archive || archive.format !== ARCHIVE_FORMAT || !Array.isArray(archive.entries)) {
+    throw new Error("The selected file is not a valid herbarium archive.");
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new Error("This herbarium archive was created by a newer version of the app.");
+  }
+  const entries = archive.entries.filter(isHistoryEntry);
+  if (entries.length < archive.entries.length) {
+    console.warn(`Skipped ${archive.entries.length - entries.length} malformed entries in the herbarium archive.`);
+  }
+  return entries;
+};
+
+// Entries are matched by id. On a collision the local copy wins, but anything it lacks
+// (e.g. a care guide generated on the other device) is filled in from the archive.
+export const mergeEntries = (existing: HistoryEntry[], incoming: HistoryEntry[]): MergeResult => {
+  const byId = new Map(existing.map(entry => [entry.id, entry]));
+  let added = 0;
+  let updated = 0;
+  for (const entry of incoming) {
+    const local = byId.get(entry.id);
+    if (!local) {
+      byId.set(entry.id, entry);
+      added++;
+      continue;
+    }
+    const missing = (Object.keys(entry) as (keyof HistoryEntry)[]).filter(key => local[key] === undefined && entry[key] !== undefined);
+    if (missing.length > 0) {
+      byId.set(entry.id, { ...local, ...Object.fromEntries(missing.map(key => [key, entry[key]])) });
+      updated++;
+    }
+  }
+  return { entries: Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp), added, updated };
+};
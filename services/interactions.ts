@@ -0,0 +1,56 @@
+import { HerbDrugInteraction, InteractionSeverity, PlantInfo } from '../types';
+import { INTERACTION_SEVERITIES } from './schemas';
+import { normalizeQuery } from './responseCache';
+
+// --- HERB-DRUG INTERACTIONS ---
+// The user's medication list stays on this device, in localStorage; it is only sent to the model
+// together with the plants being checked.
+
+const MEDICATIONS_STORAGE_KEY = 'medications';
+
+export const loadMedications = (): string[] => {
+  try {
+    const stored = localStorage.getItem(MEDICATIONS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed.filter((item): item is string => typeof item === 'string');
+    }
+  } catch (e) {
+    console.error("Failed to read the medication list from localStorage", e);
+  }
+  return [];
+};
+
+export const saveMedications = (medications: string[]) => {
+  localStorage.setItem(MEDICATIONS_STORAGE_KEY, JSON.stringify(medications));
+};
+
+// Adds a name (a medication, a plant, an allergy...) unless the list already has it, written any other way.
+export const addListItem = (items: string[], item: string): string[] => {
+  const trimmed = item.trim();
+  if (!trimmed || items.some(existing => normalizeQuery(existing) === normalizeQuery(trimmed))) return items;
+  return [...items, trimmed];
+};
+
+// How a plant is named in the request, and so in the records that come back.
+export const plantLabel = (plantInfo: PlantInfo): string => `${plantInfo.nombreComun} (${plantInfo.nombreCientifico})`;
+
+// Results are remembered per plant, by scientific name.
+export const plantKey = (plantInfo: PlantInfo): string => normalizeQuery(plantInfo.nombreCientifico);
+
+// The model is asked to repeat the plant as it was sent, but it sometimes drops or rewords the
+// common name, so a record also matches on the scientific name alone.
+export const interactionsForPlant = (interactions: HerbDrugInteraction[], plantInfo: PlantInfo): HerbDrugInteraction[] => {
+  const scientificName = normalizeQuery(plantInfo.nombreCientifico);
+  const label = normalizeQuery(plantLabel(plantInfo));
+  return interactions.filter(interaction => {
+    const planta = normalizeQuery(interaction.planta);
+    return planta === label || planta.includes(scientificName);
+  });
+};
+
+export const severityRank = (severity: InteractionSeverity): number => INTERACTION_SEVERITIES.indexOf(severity);
+
+// Most serious first.
+export const sortBySeverity = (interactions: HerbDrugInteraction[]): HerbDrugInteraction[] =>
+  [...interactions].sort((a, b) => severityRank(b.severidad) - severityRank(a.severidad));
@@ -0,0 +1,129 @@
+import { PlantInfo, IdentificationCandidate, DiseaseInfo, ComparisonInfo, SuggestedPlant, CareGuideInfo, InteractionReport } from '../types';
+
+// Deterministic responses served by the mock provider. They mirror the JSON the prompts
+// ask for, so the whole UI can be demoed and exercised offline without spending quota.
+
+export const MOCK_PLANT: PlantInfo = {
+  nombreComun: 'Manzanilla',
+  nombreCientifico: 'Matricaria chamomilla',
+  sinonimos: ['Camomila', 'Manzanilla común', 'Manzanilla alemana'],
+  descripcionGeneral: 'Hierba anual aromática de la familia Asteraceae, de hasta 50 cm, con hojas finamente divididas y capítulos con lígulas blancas y disco amarillo.',
+  habitat: 'Campos de cultivo, bordes de caminos y terrenos baldíos con suelos arenosos o arcillosos y clima templado.',
+  distribucionGeografica: 'Nativa del sur y este de Europa y Asia occidental; naturalizada en América, Australia y norte de África.',
+  floweringSeason: 'De abril a septiembre.',
+  conservationStatus: 'Preocupación Menor (no amenazada).',
+  usosMedicinales: [
+    'Infusión digestiva para gases, cólicos y digestiones pesadas.',
+    'Sedante suave para la ansiedad leve y el insomnio.',
+    'Uso tópico antiinflamatorio en irritaciones de piel y mucosas.',
+  ],
+  usosCulinarios: ['Infusiones y tisanas aromáticas.', 'Aromatizante en licores y postres.'],
+  principiosActivos: [
+    { nombre: 'Bisabolol', usos: 'Antiinflamatorio y cicatrizante.' },
+    { nombre: 'Apigenina', usos: 'Flavonoide con efecto ansiolítico suave.' },
+    { nombre: 'Camazuleno', usos: 'Antiinflamatorio y antialérgico.' },
+  ],
+  toxicidad: {
+    descripcion: 'Generalmente segura en dosis habituales. Puede causar reacciones alérgicas en personas sensibles a las Asteráceas.',
+    nivelToxicidad: 'Low',
+    compuestosToxicos: ['Lactonas sesquiterpénicas (alérgenos)'],
+    sistemasAfectados: ['Piel', 'Sistema respiratorio'],
+    primerosAuxilios: 'Suspender su uso ante cualquier reacción alérgica y consultar a un médico si los síntomas persisten.',
+  },
+  preparaciones: [
+    {
+      nombre: 'Infusión digestiva',
+      ingredientes: ['1 cucharada de flores secas', '250 ml de agua'],
+      instrucciones: 'Verter el agua hirviendo sobre las flores, tapar y dejar reposar 5-10 minutos. Colar.',
+      dosis: '1 taza hasta 3 veces al día, después de las comidas.',
+      dosificacion: { cantidad: 2, unidad: 'g', tomasAlDia: 3, dosisMaximaDiaria: 6, poblacion: 'adult', pesoReferencia: 70, gramosPorCucharadita: 1, contraindicadoEn: ['infant'] },
+      efectosSecundarios: 'Raramente reacciones alérgicas.',
+      contextoHistorico: 'Usada desde el antiguo Egipto y la Grecia clásica como remedio digestivo.',
+    },
+  ],
+  plantasSimilares: [
+    { nombreComun: 'Manzanilla hedionda', nombreCientifico: 'Anthemis cotula', diferenciaClave: 'Olor desagradable y receptáculo macizo, no hueco.' },
+  ],
+  plantasConPrincipiosActivosSimilares: [
+    { nombreComun: 'Milenrama', nombreCientifico: 'Achillea millefolium', principioActivoCompartido: 'Camazuleno' },
+  ],
+};
+
+export const MOCK_CANDIDATES: IdentificationCandidate[] = [
+  { nombreComun: 'Manzanilla', nombreCientifico: 'Matricaria chamomilla', confianza: 0.82 },
+  { nombreComun: 'Manzanilla romana', nombreCientifico: 'Chamaemelum nobile', confianza: 0.11 },
+  { nombreComun: 'Manzanilla hedionda', nombreCientifico: 'Anthemis cotula', confianza: 0.05 },
+];
+
+export const MOCK_DISEASE: DiseaseInfo = {
+  nombreEnfermedad: 'Oídio',
+  plantaAfectada: ['Rosales', 'Calabacín', 'Vid'],
+  sintomas: ['Polvo blanco sobre hojas y tallos.', 'Hojas que amarillean y se enrollan.'],
+  causas: ['Hongos de la familia Erysiphaceae.', 'Ambiente cálido con humedad alta y poca ventilación.'],
+  tratamientoOrganico: ['Pulverizar bicarbonato sódico (5 g/l) con unas gotas de jabón potásico.', 'Aplicar azufre mojable.'],
+  tratamientoQuimico: ['Fungicidas a base de miclobutanil o tebuconazol siguiendo la etiqueta.'],
+  prevencion: ['Mejorar la ventilación.', 'Evitar mojar las hojas al regar.'],
+};
+
+export const MOCK_COMPARISON: ComparisonInfo = {
+  resumenComparativo: 'Ambas plantas son Asteráceas con uso digestivo y antiinflamatorio, aunque difieren en potencia y perfil de seguridad.',
+  usosMedicinales: { similitudes: ['Digestivas', 'Antiinflamatorias'], diferencias: ['Una se emplea más como sedante suave.'] },
+  principiosActivos: { compartidos: ['Camazuleno'], unicos: { plantaA: ['Apigenina'], plantaB: ['Aquileína'] } },
+  toxicidad: { comparacion: 'Ambas presentan baja toxicidad, con posibles alergias cruzadas.', nivelPlantaA: 'Low', nivelPlantaB: 'Low' },
+  diferenciasBotanicas: { habitat: 'Campos de cultivo frente a prados y taludes.', apariencia: 'Capítulos solitarios frente a corimbos densos.' },
+};
+
+export const MOCK_SUGGESTIONS: SuggestedPlant[] = [
+  { nombreComun: 'Manzanilla', relevancia: 'Conocida por sus propiedades calmantes y digestivas.', nivelToxicidad: 'Low', advertencia: '' },
+  { nombreComun: 'Melisa', relevancia: 'Tradicionalmente usada para la ansiedad y el nerviosismo.', nivelToxicidad: 'None', advertencia: '' },
+  { nombreComun: 'Lavanda', relevancia: 'Su aroma ayuda a relajarse y conciliar el sueño.', nivelToxicidad: 'Low', advertencia: 'El aceite esencial no debe ingerirse.' },
+  { nombreComun: 'Valeriana', relevancia: 'Sedante tradicional para el insomnio.', nivelToxicidad: 'Medium', advertencia: 'No combinar con alcohol ni sedantes.' },
+  { nombreComun: 'Adormidera', relevancia: 'Históricamente usada como sedante y analgésico.', nivelToxicidad: 'High', advertencia: 'Contiene alcaloides opiáceos; peligrosa sin control médico.' },
+];
+
+export const MOCK_LOCAL_PLANTS: SuggestedPlant[] = [
+  { nombreComun: 'Diente de León', relevancia: 'Crece comúnmente en praderas y céspedes, conocido por sus propiedades diuréticas.' },
+  { nombreComun: 'Ortiga', relevancia: 'Abundante en bordes de caminos; remineralizante.' },
+  { nombreComun: 'Romero', relevancia: 'Frecuente en matorrales soleados; tónico y digestivo.' },
+];
+
+export const MOCK_CARE_GUIDE: CareGuideInfo = {
+  riego: { frecuencia: 'Cada 3-4 días en verano, semanal en invierno.', metodo: 'Riego al pie, sin mojar las flores.', consejo: 'Deja secar la capa superficial entre riegos.' },
+  luz: { nivel: 'Sol directo', ubicacion: 'Exterior soleado o ventana orientada al sur.', consejo: 'Con poca luz florece menos.' },
+  suelo: { tipo: 'Suelto y arenoso', drenaje: 'Excelente', consejo: 'Evita suelos encharcados.' },
+  temperaturaHumedad: { temperatura: '10-25 °C', humedad: 'Baja a media', consejo: 'Tolera heladas ligeras.' },
+  fertilizacion: { frecuencia: 'Una vez al mes en primavera.', tipo: 'Abono orgánico suave', consejo: 'El exceso de abono reduce su aroma.' },
+  podaPestes: { poda: 'Recolecta las flores abiertas para estimular nuevas.', pestesComunes: 'Pulgón', consejo: 'Usa jabón potásico ante pulgones.' },
+  trasplante: { frecuencia: 'No suele necesitarlo (anual).', instrucciones: 'Siembra directa en primavera.', consejo: 'Las semillas necesitan luz para germinar.' },
+  propagacion: { metodos: 'Semillas', instrucciones: 'Esparce las semillas sin enterrarlas.', consejo: 'Se resiembra sola con facilidad.' },
+  consejosAdicionales: { purificacionAire: 'No destacable.', seguridadMascotas: 'Levemente tóxica para perros y gatos en grandes cantidades.', datoCurioso: 'Su nombre deriva del griego "manzana de tierra" por su aroma.' },
+  calendario: {
+    riego: { primavera: 4, verano: 3, otono: 5, invierno: 7 },
+    fertilizacion: { primavera: 30, verano: 0, otono: 0, invierno: 0 },
+    trasplante: { primavera: 365, verano: 0, otono: 0, invierno: 0 },
+  },
+};
+
+export const MOCK_INTERACTIONS: InteractionReport = {
+  resumen: 'La manzanilla puede potenciar el efecto anticoagulante de la warfarina; el resto de combinaciones no tiene interacciones documentadas relevantes.',
+  interacciones: [
+    {
+      planta: 'Manzanilla (Matricaria chamomilla)',
+      medicamento: 'Warfarina',
+      severidad: 'Major',
+      mecanismo: 'Las cumarinas de la planta suman efecto anticoagulante y puede inhibir el CYP2C9, que metaboliza la warfarina.',
+      compuestoAfectado: 'Cumarinas (herniarina, umbeliferona)',
+      recomendacion: 'Evita las infusiones concentradas y consulta a tu médico antes de tomarla; vigila el INR si la consumes a diario.',
+    },
+    {
+      planta: 'Manzanilla (Matricaria chamomilla)',
+      medicamento: 'Lorazepam',
+      severidad: 'Moderate',
+      mecanismo: 'La apigenina se une a los receptores benzodiacepínicos y puede sumar efecto sedante.',
+      compuestoAfectado: 'Apigenina',
+      recomendacion: 'No la tomes antes de conducir y evita dosis altas por la noche junto al medicamento.',
+    },
+  ],
+};
+
+export const MOCK_MAP_IMAGE = `data:image/svg+xml;base64,${btoa('<svg xmlns="http://www.w3.org/2000/svg" width="800" height="400" viewBox="0 0 800 400"><rect width="100%" height="100%" fill="#e0f2fe"/><ellipse cx="420" cy="150" rx="120" ry="60" fill="#86efac"/><text x="400" y="360" font-family="sans-serif" font-size="20" fill="#065f46" text-anchor="middle">Mock map</text></svg>')}`;
@@ -0,0 +1,56 @@
+import { AiProvider, AiFeature, GenerateContentRequest, GenerateImageRequest } from './aiProvider';
+import { raceWithSignal } from './requestControl';
+import { MOCK_PLANT, MOCK_CANDIDATES, MOCK_DISEASE, MOCK_COMPARISON, MOCK_SUGGESTIONS, MOCK_LOCAL_PLANTS, MOCK_CARE_GUIDE, MOCK_INTERACTIONS, MOCK_MAP_IMAGE } from './mockFixtures';
+
+// Simulated network latency so loaders and transitions behave like they do online.
+const MOCK_LATENCY_MS = 600;
+const MOCK_STREAM_CHUNKS = 12;
+
+// Fixtures may depend on the request: translation echoes back the content it was sent, untranslated.
+const fixtures: Record<AiFeature, unknown | ((request: GenerateContentRequest) => unknown)> = {
+  identify: { ...MOCK_PLANT, candidatos: MOCK_CANDIDATES },
+  diagnose: MOCK_DISEASE,
+  compare: MOCK_COMPARISON,
+  remedy: MOCK_SUGGESTIONS,
+  local: MOCK_LOCAL_PLANTS,
+  careGuide: MOCK_CARE_GUIDE,
+  interactions: MOCK_INTERACTIONS,
+  map: null,
+  plantImage: null,
+  translate: (request: GenerateContentRequest) => {
+    const content = request.parts[request.parts.length - 1];
+    return 'text' in content ? JSON.parse(content.text) : null;
+  },
+};
+
+const wait = (ms: number, signal?: AbortSignal) => raceWithSignal(new Promise(resolve => setTimeout(resolve, ms)), signal);
+
+export const createMockProvider = (): AiProvider => {
+  const generateContent = async (request: GenerateContentRequest) => {
+    await wait(MOCK_LATENCY_MS, request.signal);
+    const entry = fixtures[request.feature];
+    const fixture = typeof entry === 'function' ? entry(request) : entry;
+    if (!fixture) {
+      throw new Error(`The mock provider has no fixture for "${request.feature}".`);
+    }
+    const sources = request.useGrounding ? [{ title: 'Mock source (offline fixture)', uri: 'https://example.org/herbario-mock' }] : [];
+    const text = JSON.stringify(fixture);
+    if (request.onPartialText) {
+      const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+      for (let end = chunkSize; end < text.length; end += chunkSize) {
+        request.onPartialText(text.slice(0, end));
+        await wait(MOCK_LATENCY_MS / MOCK_STREAM_CHUNKS, request.signal);
+      }
+    }
+    // Rough "4 characters per token" estimate, so the usage dashboard has something to show in demo mode.
+    const promptLength = request.parts.reduce((length, part) => length + ('text' in part ? part.text.length : 1000), 0);
+    return { text, sources, usage: { inputTokens: Math.ceil(promptLength / 4), outputTokens: Math.ceil(text.length / 4) } };
+  };
+
+  const generateImage = async (request: GenerateImageRequest) => {
+    await wait(MOCK_LATENCY_MS, request.signal);
+    return request.feature === 'map' ? MOCK_MAP_IMAGE : null;
+  };
+
+  return { id: 'mock', generateContent, generateImage };
+};
@@ -0,0 +1,31 @@
+import { AiFeature, getAiProviderSettings } from './aiProvider';
+
+// --- MODEL REGISTRY ---
+// Which Gemini model serves each feature. The defaults live here instead of at every call site,
+// and any of them can be overridden from the settings dialog, e.g. a pro model for identification
+// or a newer model once one of these is deprecated. OpenAI-compatible servers keep using the
+// chat and image models from their own settings.
+
+export const MODEL_FEATURES: AiFeature[] = ['identify', 'diagnose', 'compare', 'remedy', 'local', 'careGuide', 'interactions', 'translate', 'map', 'plantImage'];
+
+export const DEFAULT_MODELS: Record<AiFeature, string> = {
+  identify: 'gemini-2.5-flash',
+  diagnose: 'gemini-2.5-flash',
+  compare: 'gemini-2.5-flash',
+  remedy: 'gemini-2.5-flash',
+  local: 'gemini-2.5-flash',
+  careGuide: 'gemini-2.5-flash',
+  interactions: 'gemini-2.5-flash',
+  translate: 'gemini-2.5-flash',
+  map: 'imagen-4.0-generate-001',
+  plantImage: 'imagen-4.0-generate-001',
+};
+
+// Suggestions for the settings dialog; any other model name is accepted as typed.
+export const KNOWN_TEXT_MODELS = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+export const KNOWN_IMAGE_MODELS = ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001'];
+
+export const isImageFeature = (feature: AiFeature): boolean => feature === 'map' || feature === 'plantImage';
+
+export const getModelForFeature = (feature: AiFeature): string =>
+  getAiProviderSettings().modelOverrides[feature]?.trim() || DEFAULT_MODELS[feature];
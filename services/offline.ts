@@ -0,0 +1,35 @@
+import { PendingAnalysis, SpecimenImage, SpecimenPhoto } from '../types';
+import { isNetworkError } from './retry';
+
+// --- OFFLINE ---
+// The service worker (public/sw.js) caches the app shell, so the app, the history and the herbarium
+// open without a connection. Photo analyses started offline are queued and run once it returns.
+
+// Only the built app gets the worker: under the dev server it would cache modules and hot updates
+// and serve stale copies of them.
+export const isServiceWorkerEnabled = (): boolean => !!(import.meta as any).env?.PROD && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = () => {
+  if (!isServiceWorkerEnabled()) return;
+  navigator.serviceWorker.register('/sw.js').catch(e => console.error("Failed to register the service worker", e));
+};
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// A request that failed for lack of a connection, as opposed to one the model or the API rejected.
+export const isConnectionError = (error: unknown): boolean => isNetworkError(error) || isOffline();
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPendingAnalysis = (type: PendingAnalysis['type'], photos: SpecimenPhoto[], details: Pick<PendingAnalysis, 'location' | 'exif' | 'capturedAt' | 'trackedPlantId'>): PendingAnalysis =>
+  ({ id: newId(), createdAt: Date.now(), type, photos, ...details });
+
+// The queued photos as the identification service takes them.
+export const toSpecimenImages = (photos: SpecimenPhoto[]): SpecimenImage[] => photos.map(({ src, organ }) => {
+  const [header, base64] = src.split(',');
+  return { base64, mimeType: header.match(/^data:([^;,]+)/)?.[1] || 'image/jpeg', organ };
+});
+
+// Analyses that failed for another reason than the connection wait for the user to retry them.
+export const nextPendingAnalysis = (queue: PendingAnalysis[]): PendingAnalysis | undefined =>
+  queue.find(pending => !pending.error);
@@ -0,0 +1,104 @@
+import { toJsonSchema } from './schemas';
+import { AiProvider, AiProviderSettings, GenerateContentRequest, GenerateImageRequest, TokenUsage } from './aiProvider';
+
+// Talks to any server exposing the OpenAI REST surface (Ollama, LM Studio, vLLM, llama.cpp...).
+// Grounding is not available here, so results never carry sources.
+export const createOpenAiCompatibleProvider = (settings: AiProviderSettings, apiKey: string): AiProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error("No base URL was configured for the OpenAI-compatible provider.");
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const send = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Local AI endpoint returned ${response.status}: ${detail || response.statusText}`);
+    }
+    return response;
+  };
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => (await send(path, body, signal)).json();
+
+  const toUsage = (usage: any): TokenUsage | undefined => usage && {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+  };
+
+  // Reads a server-sent events stream of chat completion chunks ("data: {...}" lines, ended by "data: [DONE]").
+  const postStream = async (path: string, body: unknown, onPartialText: (text: string) => void, signal?: AbortSignal) => {
+    const response = await send(path, { ...(body as object), stream: true, stream_options: { include_usage: true } }, signal);
+    if (!response.body) {
+      const data = await response.json();
+      return { text: data?.choices?.[0]?.message?.content, usage: toUsage(data?.usage) };
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: TokenUsage | undefined;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+        const chunk = JSON.parse(data);
+        usage = toUsage(chunk?.usage) ?? usage; // Only the final chunk carries usage
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onPartialText(text);
+        }
+      }
+    }
+    return { text, usage };
+  };
+
+  const generateContent = async (request: GenerateContentRequest) => {
+    const content = request.parts.map(part => 'text' in part
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+
+    const body: any = {
+      model: settings.model || request.model,
+      messages: [{ role: 'user', content }],
+    };
+    if (request.responseMimeType === 'application/json') {
+      body.response_format = request.responseSchema
+        ? { type: 'json_schema', json_schema: { name: request.feature, schema: toJsonSchema(request.responseSchema) } }
+        : { type: 'json_object' };
+    }
+
+    let text: unknown;
+    let usage: TokenUsage | undefined;
+    if (request.onPartialText) {
+      ({ text, usage } = await postStream('/chat/completions', body, request.onPartialText, request.signal));
+    } else {
+      const data = await post('/chat/completions', body, request.signal);
+      text = data?.choices?.[0]?.message?.content;
+      usage = toUsage(data?.usage);
+    }
+    if (typeof text !== 'string') {
+      throw new Error("The local AI endpoint returned an empty response.");
+    }
+    return { text, sources: [], usage };
+  };
+
+  const generateImage = async (request: GenerateImageRequest) => {
+    if (!settings.imageModel) return null;
+    const data = await post('/images/generations', { model: settings.imageModel, prompt: request.prompt, n: 1, response_format: 'b64_json' }, request.signal);
+    const base64ImageBytes = data?.data?.[0]?.b64_json;
+    return base64ImageBytes ? `data:image/png;base64,${base64ImageBytes}` : null;
+  };
+
+  return { id: 'openai-compatible', generateContent, generateImage };
+};
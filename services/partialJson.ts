@@ -0,0 +1,66 @@
+// --- PARTIAL JSON ---
+// Parses a JSON document that is still being streamed. Open strings, arrays and objects are closed
+// as they stand, so a half-written description already shows up; tokens that cannot be completed
+// (a key without its value, "tru") are cut back to the last comma or opening bracket.
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+interface CutPoint {
+  index: number; // Slice the text here...
+  closers: string; // ...and append these to make it well-formed
+}
+
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.search(/[{[]/);
+  if (start < 0) return undefined;
+  const source = text.slice(start);
+
+  const stack: string[] = [];
+  const cuts: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+  const closeStack = () => stack.map(open => CLOSERS[open]).reverse().join('');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+      cuts.push({ index: i + 1, closers: closeStack() });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        // The document is complete; anything after it (a closing code fence) is not JSON.
+        return tryParse(source.slice(0, i + 1));
+      }
+      cuts.push({ index: i + 1, closers: closeStack() });
+    } else if (char === ',') {
+      cuts.push({ index: i, closers: closeStack() });
+    }
+  }
+
+  // Best case: only strings and brackets are missing.
+  const completed = tryParse(source + (inString && !escaped ? '"' : '') + closeStack());
+  if (completed !== undefined) return completed;
+
+  for (let c = cuts.length - 1; c >= 0; c--) {
+    const value = tryParse(source.slice(0, cuts[c].index) + cuts[c].closers);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
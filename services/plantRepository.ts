@@ -0,0 +1,370 @@
+import { HistoryEntry, PendingAnalysis, PlantOrgan, TrackedPlant, UsageRecord } from '../types';
+
+// --- INDEXEDDB REPOSITORY ---
+// History and herbarium live in IndexedDB instead of localStorage: images are kept as Blobs
+// (no base64 overhead) and the ~5 MB localStorage quota no longer caps the collection.
+
+const DB_NAME = 'herbario-ia';
+export const DB_VERSION = 5;
+
+export type EntryCollection = 'history' | 'herbarium';
+
+const META_STORE = 'meta';
+const RESPONSE_CACHE_STORE = 'responseCache';
+const USAGE_STORE = 'usage';
+const TRACKED_PLANTS_STORE = 'trackedPlants';
+const PENDING_ANALYSES_STORE = 'pendingAnalyses';
+const LEGACY_STORAGE_KEYS: Record<EntryCollection, string> = { history: 'plantHistory', herbarium: 'plantHerbarium' };
+const LEGACY_IMPORT_FLAG = 'legacyLocalStorageImported';
+const LEGACY_UNREADABLE_PREFIX = 'legacyUnreadable:';
+
+// Images are Blobs when they came from a data URL; any other source (e.g. a remote URL) is kept as-is.
+type StoredImage = Blob | string;
+
+interface StoredEntry extends Omit<HistoryEntry, 'imageSrc' | 'photos' | 'mapaDistribucionSrc'> {
+  position: number; // Preserves the list order the app saved
+  image: StoredImage;
+  photos?: { image: StoredImage; organ: PlantOrgan }[];
+  map?: StoredImage;
+}
+
+interface StoredTrackedPlant extends Omit<TrackedPlant, 'entries' | 'photos'> {
+  entries: StoredEntry[];
+  photos: { id: string; takenAt: number; image: StoredImage }[];
+}
+
+interface StoredPendingAnalysis extends Omit<PendingAnalysis, 'photos'> {
+  photos: { image: StoredImage; organ: PlantOrgan }[];
+}
+
+// Each entry upgrades the database from the previous version. Append new steps, never edit old ones.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: one store per collection plus a small key/value store for bookkeeping
+  (db) => {
+    for (const collection of Object.keys(LEGACY_STORAGE_KEYS)) {
+      const store = db.createObjectStore(collection, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp');
+      store.createIndex('position', 'position');
+    }
+    db.createObjectStore(META_STORE);
+  },
+  // v2: cached AI responses, pruned oldest-first by storedAt
+  (db) => {
+    db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+  },
+  // v3: one record per AI call, for the usage and cost dashboard
+  (db) => {
+    db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  },
+  // v4: the plants of "My Plants", each with its own copies of entries and its timeline
+  (db) => {
+    db.createObjectStore(TRACKED_PLANTS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  },
+  // v5: photo analyses waiting for a connection
+  (db) => {
+    db.createObjectStore(PENDING_ANALYSES_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  },
+];
+
+// --- LOW-LEVEL HELPERS ---
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new Error("The storage transaction was aborted."));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; drop our handle so its upgrade is not blocked.
+        db.onversionchange = () => { db.close(); dbPromise = null; };
+        resolve(db);
+      };
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const dataUrlToBlob = async (src: string): Promise<StoredImage> => {
+  if (!src.startsWith('data:')) return src;
+  const response = await fetch(src);
+  return response.blob();
+};
+
+const blobToDataUrl = (image: StoredImage): Promise<string> => {
+  if (typeof image === 'string') return Promise.resolve(image);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(image);
+  });
+};
+
+const toStoredEntry = async (entry: HistoryEntry, position: number): Promise<StoredEntry> => {
+  const { imageSrc, photos, mapaDistribucionSrc, ...rest } = entry;
+  return {
+    ...rest,
+    position,
+    image: await dataUrlToBlob(imageSrc),
+    photos: photos ? await Promise.all(photos.map(async (photo) => ({ image: await dataUrlToBlob(photo.src), organ: photo.organ }))) : undefined,
+    map: mapaDistribucionSrc ? await dataUrlToBlob(mapaDistribucionSrc) : undefined,
+  };
+};
+
+const fromStoredEntry = async (stored: StoredEntry): Promise<HistoryEntry> => {
+  const { position, image, photos, map, ...rest } = stored;
+  return {
+    ...rest,
+    imageSrc: await blobToDataUrl(image),
+    photos: photos ? await Promise.all(photos.map(async (photo) => ({ src: await blobToDataUrl(photo.image), organ: photo.organ }))) : undefined,
+    mapaDistribucionSrc: map ? await blobToDataUrl(map) : undefined,
+  };
+};
+
+const writeCollection = async (db: IDBDatabase, collection: EntryCollection, stored: StoredEntry[]) => {
+  const transaction = db.transaction(collection, 'readwrite');
+  const store = transaction.objectStore(collection);
+  store.clear();
+  stored.forEach(entry => store.put(entry));
+  await completeTransaction(transaction);
+};
+
+// --- LEGACY IMPORT ---
+
+// Copies whatever the localStorage-based versions of the app left behind, once. A key is removed only
+// after its data is safely committed to IndexedDB; one that cannot be read stays where it is, and a
+// copy of it is kept in the meta store, so it can still be recovered.
+const importLegacyStorage = async (db: IDBDatabase) => {
+  const meta = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  if (await promisifyRequest(meta.get(LEGACY_IMPORT_FLAG))) return;
+
+  const imported: string[] = [];
+  const unreadable: Record<string, string> = {};
+  for (const collection of Object.keys(LEGACY_STORAGE_KEYS) as EntryCollection[]) {
+    const legacyKey = LEGACY_STORAGE_KEYS[collection];
+    const raw = localStorage.getItem(legacyKey);
+    if (!raw) continue;
+    let entries: unknown;
+    try {
+      entries = JSON.parse(raw);
+    } catch (e) {
+      console.error(`Failed to parse legacy ${collection} from localStorage. It is kept for recovery.`, e);
+    }
+    if (!Array.isArray(entries)) { unreadable[legacyKey] = raw; continue; }
+    await writeCollection(db, collection, await Promise.all((entries as HistoryEntry[]).map(toStoredEntry)));
+    imported.push(legacyKey);
+  }
+
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  const metaStore = transaction.objectStore(META_STORE);
+  Object.entries(unreadable).forEach(([legacyKey, raw]) => metaStore.put(raw, `${LEGACY_UNREADABLE_PREFIX}${legacyKey}`));
+  metaStore.put(true, LEGACY_IMPORT_FLAG);
+  await completeTransaction(transaction);
+  imported.forEach(key => localStorage.removeItem(key));
+};
+
+let readyPromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!readyPromise) {
+    readyPromise = openDatabase().then(async (db) => {
+      await importLegacyStorage(db);
+      return db;
+    }).catch((error) => {
+      readyPromise = null;
+      throw error;
+    });
+  }
+  return readyPromise;
+};
+
+// --- PUBLIC API ---
+
+export const loadEntries = async (collection: EntryCollection): Promise<HistoryEntry[]> => {
+  const db = await getDatabase();
+  const index = db.transaction(collection, 'readonly').objectStore(collection).index('position');
+  const stored = await promisifyRequest(index.getAll() as IDBRequest<StoredEntry[]>);
+  return Promise.all(stored.map(fromStoredEntry));
+};
+
+// Writes are chained per collection so a slow image conversion can never let an older
+// snapshot overwrite a newer one.
+const pendingWrites: Record<EntryCollection, Promise<void>> = { history: Promise.resolve(), herbarium: Promise.resolve() };
+
+export const saveEntries = (collection: EntryCollection, entries: HistoryEntry[]): Promise<void> => {
+  const write = pendingWrites[collection].catch(() => undefined).then(async () => {
+    const db = await getDatabase();
+    const stored = await Promise.all(entries.map(toStoredEntry));
+    await writeCollection(db, collection, stored);
+  });
+  pendingWrites[collection] = write;
+  return write;
+};
+
+// --- TRACKED PLANTS ---
+
+const toStoredTrackedPlant = async (plant: TrackedPlant): Promise<StoredTrackedPlant> => ({
+  ...plant,
+  entries: await Promise.all(plant.entries.map(toStoredEntry)),
+  photos: await Promise.all(plant.photos.map(async ({ src, ...photo }) => ({ ...photo, image: await dataUrlToBlob(src) }))),
+});
+
+const fromStoredTrackedPlant = async (stored: StoredTrackedPlant): Promise<TrackedPlant> => ({
+  ...stored,
+  entries: await Promise.all(stored.entries.map(fromStoredEntry)),
+  photos: await Promise.all(stored.photos.map(async ({ image, ...photo }) => ({ ...photo, src: await blobToDataUrl(image) }))),
+});
+
+// Oldest first, the order they were created in.
+export const loadTrackedPlants = async (): Promise<TrackedPlant[]> => {
+  const db = await getDatabase();
+  const index = db.transaction(TRACKED_PLANTS_STORE, 'readonly').objectStore(TRACKED_PLANTS_STORE).index('createdAt');
+  const stored = await promisifyRequest(index.getAll() as IDBRequest<StoredTrackedPlant[]>);
+  return Promise.all(stored.map(fromStoredTrackedPlant));
+};
+
+let pendingTrackedPlantsWrite: Promise<void> = Promise.resolve();
+
+// Replaces every tracked plant, chained like saveEntries.
+export const saveTrackedPlants = (plants: TrackedPlant[]): Promise<void> => {
+  const write = pendingTrackedPlantsWrite.catch(() => undefined).then(async () => {
+    const db = await getDatabase();
+    const stored = await Promise.all(plants.map(toStoredTrackedPlant));
+    const transaction = db.transaction(TRACKED_PLANTS_STORE, 'readwrite');
+    const store = transaction.objectStore(TRACKED_PLANTS_STORE);
+    store.clear();
+    stored.forEach(plant => store.put(plant));
+    await completeTransaction(transaction);
+  });
+  pendingTrackedPlantsWrite = write;
+  return write;
+};
+
+// --- PENDING ANALYSES ---
+
+const toStoredPendingAnalysis = async (pending: PendingAnalysis): Promise<StoredPendingAnalysis> => ({
+  ...pending,
+  photos: await Promise.all(pending.photos.map(async ({ src, organ }) => ({ image: await dataUrlToBlob(src), organ }))),
+});
+
+const fromStoredPendingAnalysis = async (stored: StoredPendingAnalysis): Promise<PendingAnalysis> => ({
+  ...stored,
+  photos: await Promise.all(stored.photos.map(async ({ image, organ }) => ({ src: await blobToDataUrl(image), organ }))),
+});
+
+// Oldest first, the order they will run in.
+export const loadPendingAnalyses = async (): Promise<PendingAnalysis[]> => {
+  const db = await getDatabase();
+  const index = db.transaction(PENDING_ANALYSES_STORE, 'readonly').objectStore(PENDING_ANALYSES_STORE).index('createdAt');
+  const stored = await promisifyRequest(index.getAll() as IDBRequest<StoredPendingAnalysis[]>);
+  return Promise.all(stored.map(fromStoredPendingAnalysis));
+};
+
+let pendingAnalysesWrite: Promise<void> = Promise.resolve();
+
+// Replaces the whole queue, chained like saveEntries.
+export const savePendingAnalyses = (analyses: PendingAnalysis[]): Promise<void> => {
+  const write = pendingAnalysesWrite.catch(() => undefined).then(async () => {
+    const db = await getDatabase();
+    const stored = await Promise.all(analyses.map(toStoredPendingAnalysis));
+    const transaction = db.transaction(PENDING_ANALYSES_STORE, 'readwrite');
+    const store = transaction.objectStore(PENDING_ANALYSES_STORE);
+    store.clear();
+    stored.forEach(pending => store.put(pending));
+    await completeTransaction(transaction);
+  });
+  pendingAnalysesWrite = write;
+  return write;
+};
+
+// --- RESPONSE CACHE ---
+
+export interface CachedResponseRecord {
+  key: string;
+  value: unknown;
+  storedAt: number;
+}
+
+export const readCachedResponse = async (key: string): Promise<CachedResponseRecord | undefined> => {
+  const db = await getDatabase();
+  return promisifyRequest(db.transaction(RESPONSE_CACHE_STORE, 'readonly').objectStore(RESPONSE_CACHE_STORE).get(key));
+};
+
+// Stores the record, then drops everything stored before `expiredBefore` and, past `maxEntries`,
+// the oldest records, all in the same transaction.
+export const writeCachedResponse = async (record: CachedResponseRecord, maxEntries: number, expiredBefore: number): Promise<void> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+  store.put(record);
+  const index = store.index('storedAt');
+  index.openCursor(IDBKeyRange.upperBound(expiredBefore, true)).onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) { cursor.delete(); cursor.continue(); return; }
+    store.count().onsuccess = (countEvent) => {
+      let excess = (countEvent.target as IDBRequest<number>).result - maxEntries;
+      if (excess <= 0) return;
+      index.openCursor().onsuccess = (oldestEvent) => {
+        const oldest = (oldestEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!oldest || excess-- <= 0) return;
+        oldest.delete();
+        oldest.continue();
+      };
+    };
+  };
+  await completeTransaction(transaction);
+};
+
+// --- USAGE LOG ---
+
+// Appends a record and drops the ones older than `expiredBefore` in the same transaction.
+export const appendUsageRecord = async (record: UsageRecord, expiredBefore: number): Promise<void> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(USAGE_STORE, 'readwrite');
+  const store = transaction.objectStore(USAGE_STORE);
+  store.put(record);
+  store.index('timestamp').openCursor(IDBKeyRange.upperBound(expiredBefore, true)).onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await completeTransaction(transaction);
+};
+
+export const readUsageRecords = async (since: number): Promise<UsageRecord[]> => {
+  const db = await getDatabase();
+  const index = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE).index('timestamp');
+  return promisifyRequest(index.getAll(IDBKeyRange.lowerBound(since)) as IDBRequest<UsageRecord[]>);
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(USAGE_STORE, 'readwrite');
+  transaction.objectStore(USAGE_STORE).clear();
+  await completeTransaction(transaction);
+};
@@ -0,0 +1,89 @@
+// --- PROMPT TEMPLATES ---
+// Prompts live in prompts/<language>/ as plain text, so adding a language means adding a folder:
+//  - <name>.md: a full prompt, with a "version" header that is bumped whenever its wording changes;
+//  - fragments.json: the short phrases (photo labels, search contexts...) prompts are assembled from.
+// Placeholders are written {{name}}. Templates missing in a language fall back to English.
+
+export type PromptName = 'identify' | 'diagnose' | 'compare' | 'remedy' | 'local' | 'careGuide' | 'mapImage' | 'plantImage' | 'translate' | 'interactions' | 'structure';
+
+export interface PromptTemplate {
+  name: PromptName;
+  language: string;
+  version: number;
+  text: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: string; // e.g. "identify@2/es", recorded with results and used in cache keys
+}
+
+type PromptValues = Record<string, string | number>;
+
+export const FALLBACK_PROMPT_LANGUAGE = 'en';
+
+const TEMPLATE_FILES = import.meta.glob<string>('../prompts/*/*.md', { query: '?raw', import: 'default', eager: true });
+const FRAGMENT_FILES = import.meta.glob<Record<string, string>>('../prompts/*/fragments.json', { import: 'default', eager: true });
+
+const pathParts = (path: string) => {
+  const [, language, file] = path.match(/prompts\/([^/]+)\/([^/]+)$/) || [];
+  return { language, file };
+};
+
+// A template starts with a "---" header block holding at least "version: <n>".
+const parseTemplate = (path: string, source: string): PromptTemplate => {
+  const { language, file } = pathParts(path);
+  const match = source.match(/^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/);
+  const version = Number(match?.[1].match(/^version:\s*(\d+)\s*$/m)?.[1]);
+  if (!match || !Number.isInteger(version)) {
+    throw new Error(`Prompt template ${path} is missing its "version" header.`);
+  }
+  return { name: file.replace(/\.md$/, '') as PromptName, language, version, text: match[2].trim() };
+};
+
+const templates = new Map<string, PromptTemplate>(
+  Object.entries(TEMPLATE_FILES).map(([path, source]) => {
+    const template = parseTemplate(path, source);
+    return [`${template.language}/${template.name}`, template];
+  })
+);
+
+const fragments = new Map<string, Record<string, string>>(
+  Object.entries(FRAGMENT_FILES).map(([path, strings]) => [pathParts(path).language, strings])
+);
+
+export const getPromptLanguages = (): string[] => Array.from(new Set(Array.from(templates.values(), template => template.language))).sort();
+
+const getTemplate = (name: PromptName, language: string): PromptTemplate => {
+  const template = templates.get(`${language}/${name}`) || templates.get(`${FALLBACK_PROMPT_LANGUAGE}/${name}`);
+  if (!template) {
+    throw new Error(`No prompt template named "${name}".`);
+  }
+  return template;
+};
+
+const fill = (text: string, values: PromptValues, source: string): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    if (!(key in values)) {
+      throw new Error(`Prompt ${source} uses {{${key}}}, but no value was provided for it.`);
+    }
+    return String(values[key]);
+  });
+
+const versionOf = (template: PromptTemplate) => `${template.name}@${template.version}/${template.language}`;
+
+// Known before rendering, so the response cache can be checked without building the prompt.
+export const getPromptVersion = (name: PromptName, language: string): string => versionOf(getTemplate(name, language));
+
+export const renderPrompt = (name: PromptName, language: string, values: PromptValues = {}): RenderedPrompt => {
+  const template = getTemplate(name, language);
+  return { text: fill(template.text, values, versionOf(template)), version: versionOf(template) };
+};
+
+export const renderFragment = (key: string, language: string, values: PromptValues = {}): string => {
+  const text = fragments.get(language)?.[key] ?? fragments.get(FALLBACK_PROMPT_LANGUAGE)?.[key];
+  if (text === undefined) {
+    throw new Error(`No prompt fragment named "${key}".`);
+  }
+  return fill(text, values, `fragment "${key}"`);
+};
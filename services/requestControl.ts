@@ -0,0 +1,75 @@
+// --- CANCELLATION AND TIMEOUTS ---
+// Every AI call runs inside a request scope that merges the caller's AbortSignal with a timeout,
+// so a hung backend or an impatient user can always stop it.
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("The request was cancelled.");
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The AI service did not answer within ${Math.ceil(timeoutMs / 1000)} seconds.`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Plain `controller.abort()` reasons (DOMException "AbortError") are reported as a cancellation.
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof RequestTimeoutError || signal.reason instanceof RequestCancelledError ? signal.reason : new RequestCancelledError();
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Overrides the timeout from the provider settings
+}
+
+export interface RequestScope {
+  signal: AbortSignal;
+  dispose: () => void;
+}
+
+export const createRequestScope = (options: RequestOptions, defaultTimeoutMs: number): RequestScope => {
+  const controller = new AbortController();
+  const { signal: parent } = options;
+  const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+
+  const onParentAbort = () => controller.abort(abortReason(parent!));
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = timeoutMs > 0 ? setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs) : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+// Providers surface aborts in their own way (DOMException, SDK errors...). Once the scope is
+// aborted, its reason is the error callers should see.
+export const throwIfAborted = (signal: AbortSignal | undefined) => {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+};
+
+// Rejects as soon as the signal aborts, for work that cannot be interrupted natively.
+export const raceWithSignal = <T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    if (signal.aborted) { onAbort(); return; }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+export const isCancellation = (error: unknown): boolean => error instanceof RequestCancelledError;
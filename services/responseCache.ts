@@ -0,0 +1,92 @@
+import { AiFeature, getAiProviderSettings } from './aiProvider';
+import { getModelForFeature } from './modelRegistry';
+import { readCachedResponse, writeCachedResponse } from './plantRepository';
+
+// --- RESPONSE CACHE ---
+// Answers are cached in IndexedDB so repeating a search, or reopening a plant from a suggestion
+// list, doesn't spend quota again. Keys combine the feature, the normalized query or a hash of the
+// photos, the language, the prompt version and the backend that produced the answer.
+
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 150;
+
+export interface CacheOptions {
+  refresh?: boolean; // Skip the cached answer and overwrite it with a fresh one
+}
+
+export interface CacheKeyParts {
+  feature: AiFeature;
+  language: string;
+  promptVersion: string; // From promptTemplates, e.g. "identify@2/es"
+  input: string;
+}
+
+// "  Lavanda " and "lavanda" are the same search; so are queries that only differ in accents.
+export const normalizeQuery = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[\s.,;:!?¿¡"']+/g, ' ').trim();
+
+// Two FNV-1a passes with different seeds, for insecure contexts where crypto.subtle is missing.
+const fallbackHash = (text: string): string => {
+  const fnv = (seed: number) => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  };
+  return `${fnv(0x811c9dc5)}${fnv(0x050c5d1f)}-${text.length}`;
+};
+
+// Content hash of the photo data: the same file uploaded again hits the cache.
+export const hashContent = async (...parts: string[]): Promise<string> => {
+  const text = parts.join('\u0000');
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// A different backend or model gives different answers, so it is part of the key.
+const backendId = (feature: AiFeature): string => {
+  const settings = getAiProviderSettings();
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return `${settings.provider}@${settings.baseUrl}#${settings.model}`;
+    case 'gemini':
+      return `${settings.provider}#${getModelForFeature(feature)}`;
+    default:
+      return settings.provider;
+  }
+};
+
+export const buildCacheKey = ({ feature, language, promptVersion, input }: CacheKeyParts): string =>
+  [feature, backendId(feature), promptVersion, language, input].join('|');
+
+// Returns the cached answer or runs `compute` and stores its result, unless `isCacheable` turns it down
+// (an answer missing a part that failed for now). Cache failures are never fatal: without IndexedDB the
+// app simply asks the model every time.
+export const withResponseCache = async <T>(
+  parts: CacheKeyParts,
+  options: CacheOptions,
+  compute: () => Promise<T>,
+  isCacheable: (value: NoInfer<T>) => boolean = () => true,
+): Promise<T> => {
+  const key = buildCacheKey(parts);
+  if (!options.refresh) {
+    try {
+      const record = await readCachedResponse(key);
+      if (record && Date.now() - record.storedAt < CACHE_TTL_MS) {
+        return record.value as T;
+      }
+    } catch (e) {
+      console.warn("Could not read the response cache.", e);
+    }
+  }
+
+  const value = await compute();
+  if (!isCacheable(value)) return value;
+  const now = Date.now();
+  writeCachedResponse({ key, value, storedAt: now }, CACHE_MAX_ENTRIES, now - CACHE_TTL_MS)
+    .catch(e => console.warn("Could not store the response in the cache.", e));
+  return value;
+};
@@ -0,0 +1,104 @@
+import { raceWithSignal, throwIfAborted } from './requestControl';
+
+// --- RETRIES AND KEY ROTATION ---
+// Transient failures (rate limits, 5xx, dropped connections) are retried with jittered exponential
+// backoff. When several API keys are configured, a key that runs out of quota is set aside and the
+// call moves on to the next one, so the user only hears about it once every key has failed.
+
+export class ApiKeysExhaustedError extends Error {
+  keyCount: number;
+
+  constructor(keyCount: number) {
+    super(keyCount > 1
+      ? "All of your API keys have reached their query limit. Add another key or try again later."
+      : "The free query limit has been reached. Please enter your own API key to continue.");
+    this.name = 'ApiKeysExhaustedError';
+    this.keyCount = keyCount;
+  }
+}
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+const KEY_COOLDOWN_MS = 60 * 1000; // How long an exhausted key is skipped before it is tried again
+
+// The Gemini SDK exposes the HTTP status on its errors; other transports only mention it in the message.
+const getErrorStatus = (error: unknown): number | undefined => {
+  const status = (error as any)?.status ?? (error as any)?.code;
+  if (typeof status === 'number') return status;
+  const match = error instanceof Error ? error.message.match(/\b(429|5\d\d)\b/) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  if (getErrorStatus(error) === 429) return true;
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return message.includes('resource has been exhausted') || message.includes('resource_exhausted') || message.includes('quota');
+};
+
+const isInvalidKeyError = (error: unknown): boolean =>
+  error instanceof Error && /api key not valid|api_key_invalid|permission_denied/i.test(error.message);
+
+// fetch() reports a dropped connection as a TypeError whose wording depends on the browser.
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+export const isTransientError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return isQuotaError(error) || (status !== undefined && status >= 500 && status < 600) || isNetworkError(error);
+};
+
+// "Full jitter": a random delay up to the exponential ceiling, so clients that failed together don't retry together.
+export const backoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  raceWithSignal(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+const exhaustedUntil = new Map<string, number>();
+
+// Keys still in their cooldown go last instead of being dropped: if every key is cooling down,
+// trying one anyway beats failing without a request.
+const orderKeys = (keys: string[]): string[] => {
+  const now = Date.now();
+  const isCoolingDown = (key: string) => (exhaustedUntil.get(key) ?? 0) > now;
+  return [...keys.filter(key => !isCoolingDown(key)), ...keys.filter(isCoolingDown)];
+};
+
+// Runs `call` with the first usable key. Quota and invalid-key errors rotate to the next key right away;
+// other transient errors back off before retrying. Cancellations and timeouts are never retried.
+export const withRetry = async <T>(keys: string[], call: (key: string) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const candidates = keys.length > 0 ? keys : [''];
+  let queue = orderKeys(candidates);
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS + candidates.length - 1; attempt++) {
+    const key = queue[0];
+    try {
+      const result = await call(key);
+      exhaustedUntil.delete(key);
+      return result;
+    } catch (error) {
+      throwIfAborted(signal);
+      lastError = error;
+
+      const keyFailed = isQuotaError(error) || isInvalidKeyError(error);
+      if (keyFailed && key) {
+        exhaustedUntil.set(key, Date.now() + KEY_COOLDOWN_MS);
+        if (queue.length > 1) {
+          console.warn(`API key ****${key.slice(-4)} is unavailable, rotating to the next one.`);
+          queue = queue.slice(1);
+          continue;
+        }
+      }
+      if (!isTransientError(error)) break;
+      if (keyFailed) queue = orderKeys(candidates); // Every key has failed; start over after the backoff
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+
+  if (isQuotaError(lastError)) {
+    throw new ApiKeysExhaustedError(candidates.length);
+  }
+  throw lastError;
+};
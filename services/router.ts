@@ -0,0 +1,81 @@
+// --- ROUTES ---
+// The state lives in the app; the address mirrors what is on screen, so a reload keeps it, the back
+// button walks through it and a link opens the same entry or search. Plain History API: every path is
+// the same page, served as such by Vite in development and by the service worker offline.
+
+export type Route =
+  | { name: 'identify'; query?: string } // With a query, a text search for the plant
+  | { name: 'diagnose' }
+  | { name: 'remedy'; query?: string }
+  | { name: 'interactions' }
+  | { name: 'discover' }
+  | { name: 'compare'; a: string; b?: string } // Scientific names, which mean the same on any device
+  | { name: 'entry'; id: string } // A saved entry, found only on the device that saved it
+  | { name: 'herbarium'; filter?: string };
+
+const decodeSegment = (segment: string): string => {
+  try { return decodeURIComponent(segment); } catch { return segment; }
+};
+
+// Anything unknown, the root included, opens the identification.
+export const parseRoute = ({ pathname, search }: Pick<Location, 'pathname' | 'search'>): Route => {
+  const [name, ...params] = pathname.split('/').filter(Boolean).map(decodeSegment);
+  const query = new URLSearchParams(search);
+  switch (name) {
+    case 'identify':
+    case 'remedy': return { name, query: query.get('q')?.trim() || undefined };
+    case 'diagnose':
+    case 'interactions':
+    case 'discover': return { name };
+    case 'compare': if (params[0]) return { name, a: params[0], b: params[1] || undefined }; break;
+    case 'entry': if (params[0]) return { name, id: params[0] }; break;
+    case 'herbarium': return { name, filter: query.get('filter') || undefined };
+  }
+  return { name: 'identify' };
+};
+
+const withSearch = (path: string, params: Record<string, string | undefined>): string => {
+  const search = new URLSearchParams(Object.entries(params).filter((param): param is [string, string] => !!param[1])).toString();
+  return search ? `${path}?${search}` : path;
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'identify':
+    case 'remedy': return withSearch(`/${route.name}`, { q: route.query });
+    case 'compare': return `/compare/${[route.a, route.b].filter(Boolean).map(encodeURIComponent).join('/')}`;
+    case 'entry': return `/entry/${encodeURIComponent(route.id)}`;
+    case 'herbarium': return withSearch('/herbarium', { filter: route.filter });
+    default: return `/${route.name}`;
+  }
+};
+
+// The full address, to share.
+export const routeUrl = (route: Route): string => new URL(formatRoute(route), window.location.origin).href;
+
+export const currentRoute = (): Route => parseRoute(window.location);
+
+// Pages the app adds carry this mark: the page before one of them is the app's too.
+const PUSHED_STATE = { pushedByApp: true };
+
+export const navigate = (route: Route, { replace = false } = {}) => {
+  const path = formatRoute(route);
+  if (path === `${window.location.pathname}${window.location.search}`) return;
+  if (replace) window.history.replaceState(window.history.state, '', path);
+  else window.history.pushState(PUSHED_STATE, '', path);
+};
+
+// Goes back when the app added the current page, so closing what it opened doesn't leave the page
+// behind for the back button to open again. False when the page was opened from outside.
+export const stepBack = (): boolean => {
+  if (!window.history.state?.pushedByApp) return false;
+  window.history.back();
+  return true;
+};
+
+// Back and forward. Returns the function that stops listening.
+export const onRouteChange = (listener: (route: Route) => void): (() => void) => {
+  const handlePopState = () => listener(currentRoute());
+  window.addEventListener('popstate', handlePopState);
+  return () => window.removeEventListener('popstate', handlePopState);
+};
@@ -0,0 +1,58 @@
+import { SafetyProfile, ToxicityInfo } from '../types';
+import { TOXICITY_LEVELS } from './schemas';
+import { normalizeQuery } from './responseCache';
+
+// --- SAFETY PROFILE ---
+// Pregnancy, children and pets at home, allergies and chronic conditions. The profile is stored in
+// localStorage only and sent along with identification and remedy requests.
+
+const SAFETY_PROFILE_STORAGE_KEY = 'safetyProfile';
+
+export const EMPTY_SAFETY_PROFILE: SafetyProfile = { pregnancy: 'none', childrenAtHome: false, pets: [], allergies: [], conditions: [] };
+
+export const loadSafetyProfile = (): SafetyProfile => {
+  try {
+    const stored = localStorage.getItem(SAFETY_PROFILE_STORAGE_KEY);
+    if (stored) {
+      return { ...EMPTY_SAFETY_PROFILE, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to read the safety profile from localStorage", e);
+  }
+  return { ...EMPTY_SAFETY_PROFILE };
+};
+
+export const saveSafetyProfile = (profile: SafetyProfile) => {
+  localStorage.setItem(SAFETY_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+};
+
+export const isSafetyProfileEmpty = (profile: SafetyProfile): boolean =>
+  profile.pregnancy === 'none' && !profile.childrenAtHome && profile.pets.length === 0 && profile.allergies.length === 0 && profile.conditions.length === 0;
+
+// Identifies a profile regardless of order and spelling, for cache keys and to tell whether a saved
+// entry was tailored to the current profile. Empty for an empty profile.
+export const getSafetyProfileKey = (profile: SafetyProfile): string => {
+  if (isSafetyProfileEmpty(profile)) return '';
+  const list = (items: string[]) => items.map(normalizeQuery).sort().join(',');
+  return [profile.pregnancy, profile.childrenAtHome ? 'children' : '', list(profile.pets), list(profile.allergies), list(profile.conditions)].join('|');
+};
+
+type ToxicityLevel = ToxicityInfo['nivelToxicidad'];
+
+const isAtLeast = (level: ToxicityLevel | undefined, threshold: ToxicityLevel): boolean =>
+  !!level && TOXICITY_LEVELS.indexOf(level) >= TOXICITY_LEVELS.indexOf(threshold);
+
+// Remedies this toxic are never listed openly, whatever the profile.
+export const isGatedToxicity = (level: ToxicityLevel | undefined): boolean => isAtLeast(level, 'High');
+
+export type SafetyWarning = 'pregnant' | 'breastfeeding' | 'children' | 'pets';
+
+// Warnings that follow from the toxicity level alone, so they are shown even for results the model
+// did not tailor to the profile.
+export const getToxicityWarnings = (profile: SafetyProfile, level: ToxicityLevel | undefined): SafetyWarning[] => {
+  const warnings: SafetyWarning[] = [];
+  if (profile.pregnancy !== 'none' && isAtLeast(level, 'Medium')) warnings.push(profile.pregnancy);
+  if (profile.childrenAtHome && isAtLeast(level, 'Medium')) warnings.push('children');
+  if (profile.pets.length > 0 && isAtLeast(level, 'Medium')) warnings.push('pets');
+  return warnings;
+};
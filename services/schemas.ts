@@ -0,0 +1,265 @@
+import { Schema, Type } from "@google/genai";
+import { TranslatablePart } from '../types';
+
+// --- RESPONSE SCHEMAS ---
+// Sent to the model as structured-output contracts and reused to validate every response,
+// so a malformed answer fails loudly with the offending field instead of being patched up.
+
+const stringArray = (minItems?: number): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, ...(minItems ? { minItems: String(minItems) } : {}) });
+
+const objectOf = (properties: Record<string, Schema>, optional: string[] = []): Schema => ({
+  type: Type.OBJECT,
+  properties,
+  required: Object.keys(properties).filter(key => !optional.includes(key)),
+  propertyOrdering: Object.keys(properties),
+});
+
+const stringFields = (...keys: string[]): Record<string, Schema> =>
+  keys.reduce((acc, key) => ({ ...acc, [key]: { type: Type.STRING } }), {} as Record<string, Schema>);
+
+export const TOXICITY_LEVELS = ['None', 'Low', 'Medium', 'High', 'Lethal'];
+
+export const toxicitySchema: Schema = objectOf({
+  descripcion: { type: Type.STRING },
+  nivelToxicidad: { type: Type.STRING, enum: TOXICITY_LEVELS },
+  compuestosToxicos: stringArray(),
+  sistemasAfectados: stringArray(),
+  primerosAuxilios: { type: Type.STRING },
+});
+
+export const DOSE_UNITS = ['g', 'ml', 'tsp', 'drops'];
+export const AGE_BANDS = ['infant', 'child', 'adolescent', 'adult', 'elderly'];
+export const DOSE_POPULATIONS = [...AGE_BANDS, 'pregnant', 'breastfeeding'];
+
+const quantity: Schema = { type: Type.NUMBER, minimum: 0 };
+
+export const dosageSchema: Schema = objectOf({
+  cantidad: quantity,
+  unidad: { type: Type.STRING, enum: DOSE_UNITS },
+  tomasAlDia: quantity,
+  dosisMaximaDiaria: quantity,
+  poblacion: { type: Type.STRING, enum: AGE_BANDS },
+  pesoReferencia: quantity,
+  gramosPorCucharadita: quantity,
+  contraindicadoEn: { type: Type.ARRAY, items: { type: Type.STRING, enum: DOSE_POPULATIONS } },
+}, ['gramosPorCucharadita']);
+
+export const preparationSchema: Schema = objectOf({
+  ...stringFields('nombre'),
+  ingredientes: stringArray(),
+  ...stringFields('instrucciones', 'dosis'),
+  dosificacion: dosageSchema,
+  ...stringFields('efectosSecundarios', 'contextoHistorico'),
+}, ['dosificacion']);
+
+export const candidateSchema: Schema = objectOf({
+  ...stringFields('nombreComun', 'nombreCientifico'),
+  confianza: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+});
+
+export const plantInfoProperties: Record<string, Schema> = {
+  ...stringFields('nombreComun', 'nombreCientifico'),
+  sinonimos: stringArray(),
+  ...stringFields('descripcionGeneral', 'habitat', 'distribucionGeografica', 'floweringSeason', 'conservationStatus'),
+  usosMedicinales: stringArray(),
+  usosCulinarios: stringArray(),
+  principiosActivos: { type: Type.ARRAY, items: objectOf(stringFields('nombre', 'usos')) },
+  toxicidad: toxicitySchema,
+  preparaciones: { type: Type.ARRAY, items: preparationSchema },
+  plantasSimilares: { type: Type.ARRAY, items: objectOf(stringFields('nombreComun', 'nombreCientifico', 'diferenciaClave')) },
+  plantasConPrincipiosActivosSimilares: { type: Type.ARRAY, items: objectOf(stringFields('nombreComun', 'nombreCientifico', 'principioActivoCompartido')) },
+  alertasPerfil: stringArray(),
+};
+
+// Only asked for when the request carries a safety profile.
+const PROFILE_FIELDS = ['alertasPerfil'];
+
+export const plantInfoSchema: Schema = objectOf(plantInfoProperties, PROFILE_FIELDS);
+
+// Identification responses carry the ranked candidates, plus an optional "error" the model
+// fills in when it cannot recognise a plant at all.
+export const plantIdentificationSchema: Schema = objectOf({
+  ...plantInfoProperties,
+  candidatos: { type: Type.ARRAY, items: candidateSchema },
+  error: { type: Type.STRING },
+}, ['error', ...PROFILE_FIELDS]);
+
+export const diseaseInfoSchema: Schema = objectOf({
+  nombreEnfermedad: { type: Type.STRING },
+  plantaAfectada: stringArray(),
+  sintomas: stringArray(1),
+  causas: stringArray(),
+  tratamientoOrganico: stringArray(),
+  tratamientoQuimico: stringArray(),
+  prevencion: stringArray(),
+  error: { type: Type.STRING },
+}, ['error']);
+
+export const comparisonSchema: Schema = objectOf({
+  resumenComparativo: { type: Type.STRING },
+  usosMedicinales: objectOf({ similitudes: stringArray(), diferencias: stringArray() }),
+  principiosActivos: objectOf({
+    compartidos: stringArray(),
+    unicos: objectOf({ plantaA: stringArray(), plantaB: stringArray() }),
+  }),
+  toxicidad: objectOf(stringFields('comparacion', 'nivelPlantaA', 'nivelPlantaB')),
+  diferenciasBotanicas: objectOf(stringFields('habitat', 'apariencia')),
+});
+
+export const suggestedPlantsSchema: Schema = {
+  type: Type.ARRAY,
+  items: objectOf(stringFields('nombreComun', 'relevancia')),
+  minItems: '1',
+};
+
+// Remedies also carry their toxicity, so dangerous suggestions can be held back behind a warning.
+export const remedySuggestionsSchema: Schema = {
+  type: Type.ARRAY,
+  items: objectOf({
+    ...stringFields('nombreComun', 'relevancia'),
+    nivelToxicidad: { type: Type.STRING, enum: TOXICITY_LEVELS },
+    advertencia: { type: Type.STRING },
+  }),
+  minItems: '1',
+};
+
+export const SEASONS = ['primavera', 'verano', 'otono', 'invierno'];
+
+const seasonalIntervalSchema: Schema = objectOf(Object.fromEntries(SEASONS.map(season => [season, quantity])));
+
+export const careCalendarSchema: Schema = objectOf({
+  riego: seasonalIntervalSchema,
+  fertilizacion: seasonalIntervalSchema,
+  trasplante: seasonalIntervalSchema,
+});
+
+export const careGuideSchema: Schema = objectOf({
+  riego: objectOf(stringFields('frecuencia', 'metodo', 'consejo')),
+  luz: objectOf(stringFields('nivel', 'ubicacion', 'consejo')),
+  suelo: objectOf(stringFields('tipo', 'drenaje', 'consejo')),
+  temperaturaHumedad: objectOf(stringFields('temperatura', 'humedad', 'consejo')),
+  fertilizacion: objectOf(stringFields('frecuencia', 'tipo', 'consejo')),
+  podaPestes: objectOf(stringFields('poda', 'pestesComunes', 'consejo')),
+  trasplante: objectOf(stringFields('frecuencia', 'instrucciones', 'consejo')),
+  propagacion: objectOf(stringFields('metodos', 'instrucciones', 'consejo')),
+  consejosAdicionales: objectOf(stringFields('purificacionAire', 'seguridadMascotas', 'datoCurioso')),
+  calendario: careCalendarSchema,
+}, ['calendario']);
+
+export const INTERACTION_SEVERITIES = ['Minor', 'Moderate', 'Major', 'Contraindicated'];
+
+export const interactionReportSchema: Schema = objectOf({
+  resumen: { type: Type.STRING },
+  interacciones: {
+    type: Type.ARRAY,
+    items: objectOf({
+      ...stringFields('planta', 'medicamento'),
+      severidad: { type: Type.STRING, enum: INTERACTION_SEVERITIES },
+      ...stringFields('mecanismo', 'compuestoAfectado', 'recomendacion'),
+    }),
+  },
+});
+
+// Saved entries are translated as one document holding whichever of their parts need it.
+export const entryTranslationSchema = (parts: TranslatablePart[]): Schema => {
+  const schemas: Record<TranslatablePart, Schema> = { plantInfo: plantInfoSchema, diseaseInfo: diseaseInfoSchema, careGuide: careGuideSchema };
+  return objectOf(Object.fromEntries(parts.map(part => [part, schemas[part]])));
+};
+
+// --- VALIDATION ---
+
+export class SchemaValidationError extends Error {
+  field: string;
+
+  constructor(field: string, expectation: string) {
+    super(`The model's response is invalid at "${field || '(root)'}": ${expectation}.`);
+    this.name = 'SchemaValidationError';
+    this.field = field;
+  }
+}
+
+const joinPath = (path: string, key: string | number) => typeof key === 'number' ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+
+export function validateAgainstSchema<T>(value: unknown, schema: Schema, path = ''): T {
+  if (value === null || value === undefined) {
+    if (schema.nullable) return value as T;
+    throw new SchemaValidationError(path, 'value is missing');
+  }
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) throw new SchemaValidationError(path, 'expected an object');
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record) || record[key] === undefined) throw new SchemaValidationError(joinPath(path, key), 'required field is missing');
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) validateAgainstSchema(record[key], propertySchema, joinPath(path, key));
+      }
+      break;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) throw new SchemaValidationError(path, 'expected a list');
+      if (schema.minItems && value.length < Number(schema.minItems)) throw new SchemaValidationError(path, `expected at least ${schema.minItems} item(s)`);
+      if (schema.items) value.forEach((item, index) => validateAgainstSchema(item, schema.items!, joinPath(path, index)));
+      break;
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') throw new SchemaValidationError(path, 'expected text');
+      if (schema.enum && !schema.enum.includes(value)) throw new SchemaValidationError(path, `expected one of ${schema.enum.join(', ')}`);
+      break;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaValidationError(path, 'expected a number');
+      break;
+    }
+    case Type.BOOLEAN: {
+      if (typeof value !== 'boolean') throw new SchemaValidationError(path, 'expected true or false');
+      break;
+    }
+  }
+  return value as T;
+}
+
+// Converts a Gemini schema into plain JSON Schema for OpenAI-compatible servers.
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = String(schema.type).toLowerCase();
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.minimum !== undefined) json.minimum = schema.minimum;
+  if (schema.maximum !== undefined) json.maximum = schema.maximum;
+  if (schema.minItems) json.minItems = Number(schema.minItems);
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    json.required = schema.required || [];
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+// Renders a schema as a compact, TypeScript-like outline for prompt templates. It is the same in
+// every language (the keys are part of the contract), so templates only describe what each field means.
+// Optional keys are marked with "?", e.g. { "nombreComun": string, "error"?: string }.
+export function describeSchema(schema: Schema, indent = ''): string {
+  const inner = `${indent}  `;
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const required = schema.required || [];
+      const fields = Object.entries(schema.properties || {}).map(([key, value]) =>
+        `${inner}"${key}"${required.includes(key) ? '' : '?'}: ${describeSchema(value, inner)}`);
+      return `{\n${fields.join(',\n')}\n${indent}}`;
+    }
+    case Type.ARRAY:
+      return `[${schema.items ? describeSchema(schema.items, indent) : 'unknown'}, ...]`;
+    case Type.STRING:
+      return schema.enum ? schema.enum.map(value => `"${value}"`).join(' | ') : 'string';
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return schema.minimum !== undefined && schema.maximum !== undefined ? `number (${schema.minimum}-${schema.maximum})` : 'number';
+    case Type.BOOLEAN:
+      return 'boolean';
+    default:
+      return 'unknown';
+  }
+}
@@ -0,0 +1,74 @@
+import { AppliedTreatment, CareLogEntry, CareTask, HistoryEntry, PlantPhoto, TrackedPlant, TreatmentKind } from '../types';
+import { normalizeQuery } from './responseCache';
+
+// --- MY PLANTS ---
+// Named plants the user looks after. Identifications, care guides and diagnoses attach to one as
+// copies of their entries; photos and applied treatments are recorded on the plant itself.
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTrackedPlant = (name: string): TrackedPlant =>
+  ({ id: newId(), name: name.trim(), createdAt: Date.now(), entries: [], photos: [], treatments: [], careLog: [] });
+
+// Adds the entry, or replaces its earlier copy, keeping the entries oldest first.
+export const attachEntry = (plant: TrackedPlant, entry: HistoryEntry): TrackedPlant => {
+  const attached = { ...entry, trackedPlantId: plant.id };
+  const entries = [...plant.entries.filter(other => other.id !== entry.id), attached].sort((a, b) => a.timestamp - b.timestamp);
+  return { ...plant, entries };
+};
+
+// Treatments recorded from a diagnosis go with it.
+export const detachEntry = (plant: TrackedPlant, entryId: string): TrackedPlant => ({
+  ...plant,
+  entries: plant.entries.filter(entry => entry.id !== entryId),
+  treatments: plant.treatments.filter(treatment => treatment.diagnosisId !== entryId),
+});
+
+export const addPlantPhoto = (plant: TrackedPlant, src: string, takenAt = Date.now()): TrackedPlant =>
+  ({ ...plant, photos: [...plant.photos, { id: newId(), takenAt, src }] });
+
+export const recordTreatment = (plant: TrackedPlant, diagnosis: HistoryEntry, kind: TreatmentKind, index: number, description: string): TrackedPlant => {
+  const treatment: AppliedTreatment = { id: newId(), appliedAt: Date.now(), diagnosisId: diagnosis.id, kind, index, description };
+  return { ...plant, treatments: [...plant.treatments, treatment] };
+};
+
+export const recordCareDone = (plant: TrackedPlant, task: CareTask, doneAt = Date.now()): TrackedPlant =>
+  ({ ...plant, careLog: [...(plant.careLog || []), { id: newId(), task, doneAt }] });
+
+export const findAppliedTreatment = (plant: TrackedPlant, diagnosisId: string, kind: TreatmentKind, index: number): AppliedTreatment | undefined =>
+  plant.treatments.find(treatment => treatment.diagnosisId === diagnosisId && treatment.kind === kind && treatment.index === index);
+
+// The first diagnosis made after the treatment was applied: it shows whether the problem is still there.
+export const findFollowUpDiagnosis = (plant: TrackedPlant, treatment: AppliedTreatment): HistoryEntry | undefined =>
+  plant.entries.find(entry => entry.type === 'disease' && entry.id !== treatment.diagnosisId && entry.timestamp > treatment.appliedAt);
+
+export const isSameProblem = (a: HistoryEntry, b: HistoryEntry): boolean =>
+  !!a.diseaseInfo && !!b.diseaseInfo && normalizeQuery(a.diseaseInfo.nombreEnfermedad) === normalizeQuery(b.diseaseInfo.nombreEnfermedad);
+
+export type TimelineEvent =
+  | { type: 'entry'; at: number; entry: HistoryEntry }
+  | { type: 'photo'; at: number; photo: PlantPhoto }
+  | { type: 'treatment'; at: number; treatment: AppliedTreatment; diagnosis?: HistoryEntry; followUp?: HistoryEntry }
+  | { type: 'care'; at: number; care: CareLogEntry };
+
+// Everything that happened to the plant, newest first.
+export const buildTimeline = (plant: TrackedPlant): TimelineEvent[] => {
+  const byId = new Map(plant.entries.map(entry => [entry.id, entry]));
+  const events: TimelineEvent[] = [
+    ...plant.entries.map(entry => ({ type: 'entry' as const, at: entry.timestamp, entry })),
+    ...plant.photos.map(photo => ({ type: 'photo' as const, at: photo.takenAt, photo })),
+    ...plant.treatments.map(treatment => ({ type: 'treatment' as const, at: treatment.appliedAt, treatment, diagnosis: byId.get(treatment.diagnosisId), followUp: findFollowUpDiagnosis(plant, treatment) })),
+    ...(plant.careLog || []).map(care => ({ type: 'care' as const, at: care.doneAt, care })),
+  ];
+  return events.sort((a, b) => b.at - a.at);
+};
+
+// The most recent picture of the plant, for lists.
+export const latestPlantImage = (plant: TrackedPlant): string | undefined => {
+  const images = [...plant.entries.map(entry => ({ at: entry.timestamp, src: entry.imageSrc })), ...plant.photos.map(photo => ({ at: photo.takenAt, src: photo.src }))];
+  return images.sort((a, b) => b.at - a.at)[0]?.src;
+};
+
+// The latest identification tells what the plant is.
+export const latestIdentification = (plant: TrackedPlant): HistoryEntry | undefined =>
+  [...plant.entries].reverse().find(entry => entry.type === 'plant' && entry.plantInfo);
@@ -0,0 +1,162 @@
+import { UsageRecord } from '../types';
+import { AiFeature, GenerateContentResult, getAiProviderSettings } from './aiProvider';
+import { appendUsageRecord, readUsageRecords } from './plantRepository';
+
+// --- USAGE AND COST ACCOUNTING ---
+// Every AI call is logged with its tokens, images, latency and outcome. Costs are estimates from
+// public list prices; free tiers, grounding fees and currency conversion are not taken into account.
+
+const RETENTION_MS = 400 * 24 * 60 * 60 * 1000; // A bit over a year, so last year's month can be compared
+
+interface ModelPrice {
+  inputPerMillion?: number; // USD per million input tokens
+  outputPerMillion?: number; // USD per million output tokens
+  perImage?: number; // USD per generated image
+}
+
+// Only Gemini is billed; local servers and the mock are free. Models missing here count as free too.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'imagen-4.0-generate-001': { perImage: 0.04 },
+  'imagen-4.0-fast-generate-001': { perImage: 0.02 },
+  'imagen-4.0-ultra-generate-001': { perImage: 0.06 },
+};
+
+export class BudgetExceededError extends Error {
+  constructor(budgetUsd: number) {
+    super(`The monthly budget of $${budgetUsd.toFixed(2)} has been reached, so image generation is paused.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const estimateCost = (record: Pick<UsageRecord, 'provider' | 'model' | 'inputTokens' | 'outputTokens' | 'images'>): number => {
+  if (record.provider !== 'gemini') return 0;
+  const price = MODEL_PRICES[record.model];
+  if (!price) return 0;
+  return (record.inputTokens * (price.inputPerMillion || 0) + record.outputTokens * (price.outputPerMillion || 0)) / 1_000_000
+    + record.images * (price.perImage || 0);
+};
+
+export const startOfMonth = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+export const loadUsageRecords = (since: number): Promise<UsageRecord[]> => readUsageRecords(since);
+
+export const getMonthToDateCost = async (): Promise<number> =>
+  (await readUsageRecords(startOfMonth())).reduce((total, record) => total + estimateCost(record), 0);
+
+// Expensive calls (image generation) check this first. A broken usage store never blocks a call.
+export const assertWithinBudget = async () => {
+  const { monthlyBudgetUsd } = getAiProviderSettings();
+  if (!monthlyBudgetUsd) return;
+  let spent = 0;
+  try {
+    spent = await getMonthToDateCost();
+  } catch (e) {
+    console.warn("Could not read the usage log to check the budget.", e);
+    return;
+  }
+  if (spent >= monthlyBudgetUsd) {
+    throw new BudgetExceededError(monthlyBudgetUsd);
+  }
+};
+
+interface TrackedCall {
+  source: string;
+  feature: AiFeature;
+  model: string; // The model that actually answered, not the one geminiService asked for
+}
+
+type UsageMeasure = Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'images'>;
+
+const record = (call: TrackedCall, startedAt: number, measure: UsageMeasure, error?: unknown) => {
+  const settings = getAiProviderSettings();
+  const entry: UsageRecord = {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 10)}`,
+    timestamp: startedAt,
+    source: call.source,
+    feature: call.feature,
+    provider: settings.provider,
+    model: call.model,
+    ...measure,
+    latencyMs: Date.now() - startedAt,
+    success: !error,
+    error: error ? (error instanceof Error ? error.name === 'Error' ? error.message : error.name : String(error)) : undefined,
+  };
+  appendUsageRecord(entry, Date.now() - RETENTION_MS).catch(e => console.warn("Could not write to the usage log.", e));
+};
+
+const NO_USAGE: UsageMeasure = { inputTokens: 0, outputTokens: 0, images: 0 };
+
+export const trackContentCall = async (call: TrackedCall, run: () => Promise<GenerateContentResult>): Promise<GenerateContentResult> => {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    record(call, startedAt, { ...NO_USAGE, ...result.usage });
+    return result;
+  } catch (error) {
+    record(call, startedAt, NO_USAGE, error);
+    throw error;
+  }
+};
+
+export const trackImageCall = async (call: TrackedCall, run: () => Promise<string | null>): Promise<string | null> => {
+  const startedAt = Date.now();
+  try {
+    const image = await run();
+    record(call, startedAt, { ...NO_USAGE, images: image ? 1 : 0 });
+    return image;
+  } catch (error) {
+    record(call, startedAt, NO_USAGE, error);
+    throw error;
+  }
+};
+
+// --- SUMMARIES ---
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number; // Summed; divide by requests for the average
+  cost: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, images: 0, latencyMs: 0, cost: 0 });
+
+const addRecord = (totals: UsageTotals, record: UsageRecord) => {
+  totals.requests++;
+  if (!record.success) totals.failures++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.images += record.images;
+  totals.latencyMs += record.latencyMs;
+  totals.cost += estimateCost(record);
+};
+
+const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const summarizeUsage = (records: UsageRecord[]) => {
+  const total = emptyTotals();
+  const byDay = new Map<string, UsageTotals>();
+  const byFeature = new Map<string, UsageTotals>();
+  for (const entry of records) {
+    addRecord(total, entry);
+    const day = dayKey(entry.timestamp);
+    if (!byDay.has(day)) byDay.set(day, emptyTotals());
+    addRecord(byDay.get(day)!, entry);
+    if (!byFeature.has(entry.feature)) byFeature.set(entry.feature, emptyTotals());
+    addRecord(byFeature.get(entry.feature)!, entry);
+  }
+  return {
+    total,
+    byDay: Array.from(byDay.entries()).sort(([a], [b]) => b.localeCompare(a)),
+    byFeature: Array.from(byFeature.entries()).sort(([, a], [, b]) => b.cost - a.cost || b.requests - a.requests),
+  };
+};
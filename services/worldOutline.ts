@@ -0,0 +1,43 @@
+// --- OFFLINE WORLD OUTLINE ---
+// Very coarse continent outlines as [longitude, latitude] rings. Enough to give observations a
+// geographic context without a tile server, and small enough to bundle with the app.
+
+export type Ring = [number, number][];
+
+export const WORLD_OUTLINE: Ring[] = [
+  // North America
+  [[-168, 66], [-162, 70], [-156, 71.5], [-141, 69.8], [-128, 70.2], [-115, 68.5], [-95, 71.5], [-82, 69.5], [-80, 63], [-94, 59], [-92, 57], [-82, 55], [-79, 51.5], [-76, 56], [-78, 61], [-70, 59], [-64, 60], [-61, 56], [-56, 52], [-60, 47.5], [-64, 45], [-70, 43.5], [-70, 41.5], [-74, 40.5], [-76, 37], [-76, 35], [-81, 31.5], [-80, 27], [-80.5, 25.3], [-82.5, 28], [-84, 30], [-89, 30.2], [-94, 29.5], [-97.5, 26], [-97.5, 22], [-96, 19], [-91, 18.5], [-90.5, 21], [-87, 21.5], [-88, 16], [-84, 15.5], [-83.5, 11], [-79.5, 9.3], [-77.5, 8.5], [-80, 7.3], [-83, 8.3], [-86, 11], [-88, 13.2], [-92, 14.5], [-96, 15.7], [-101, 17.3], [-105.5, 20.5], [-105.5, 23], [-110, 27.5], [-112.7, 31.5], [-114.5, 30], [-110, 23], [-112, 24.8], [-115, 28], [-117, 32.5], [-120.5, 34.5], [-123, 38], [-124.2, 42], [-124, 46.5], [-123, 49], [-128, 51], [-131, 54.5], [-136, 58], [-141, 60], [-146, 61], [-152, 59], [-157, 57.5], [-163, 55], [-158, 58.5], [-162, 60], [-165, 62.5], [-168, 66]],
+  // Greenland
+  [[-73, 78], [-60, 82], [-32, 83.5], [-20, 82], [-18, 77], [-21, 71], [-26, 68], [-35, 65.5], [-43, 60], [-48, 61], [-53, 66], [-55, 71], [-60, 76], [-73, 78]],
+  // South America
+  [[-77.5, 8.5], [-72, 12], [-63, 10.7], [-60, 8.5], [-52, 5], [-50, 1], [-48, -1.3], [-39, -3.5], [-35, -5.5], [-35, -9], [-39, -13.5], [-39, -18], [-41, -22], [-45, -23.5], [-48.5, -26.5], [-53, -33.7], [-57, -35], [-57, -38.5], [-62, -39], [-65, -41], [-63.5, -42.7], [-67.5, -46], [-66, -48], [-69, -51], [-68.5, -53], [-71.5, -54], [-74.5, -50], [-75.5, -46], [-73.5, -41], [-73.5, -37], [-71.5, -32], [-71.5, -26], [-70.3, -18.5], [-75, -15.5], [-78, -10], [-81, -6], [-80, -2], [-80.5, 1], [-78.5, 2.5], [-77.3, 6], [-77.5, 8.5]],
+  // Europe and Asia
+  [[-9.5, 43], [-1.5, 43.4], [-1, 46], [-4.5, 48.5], [-1.5, 49.5], [2, 51], [4.5, 53], [8.5, 54], [8.5, 57], [10.5, 57.7], [10.5, 54.5], [13, 54.5], [19, 54.5], [21.5, 57], [24, 57.5], [23.5, 59.5], [28.5, 60], [22.5, 60.5], [21.5, 63], [25, 65.5], [22, 65.7], [17.5, 62.5], [18.5, 60], [16.5, 56.5], [12.5, 56], [11, 58.5], [5.5, 58.5], [5, 62], [10, 64], [14, 67], [19, 70], [25, 71], [31, 70], [40, 67.5], [44, 68.5], [53, 68.5], [60, 69.5], [69, 73], [80, 73], [87, 75], [100, 78], [112, 76.5], [125, 73.5], [140, 72.5], [150, 71.5], [160, 69.5], [170, 70], [180, 69], [180, 65.5], [177, 62.5], [170, 60], [163, 58], [162, 54.5], [156, 51], [156, 57.5], [150, 59.5], [143, 59.3], [135, 54.5], [140.5, 51], [140, 46], [132, 43], [129.5, 41], [129.5, 35.5], [126.5, 34.5], [125, 39.5], [121.5, 40], [118, 39], [122, 37], [119.5, 34.5], [122, 31], [121.5, 28], [117.5, 24], [112, 21.5], [108, 21.5], [106.5, 18.5], [109, 15.5], [109, 11.5], [105, 8.6], [103, 10.5], [100.5, 13.5], [99, 10], [100.5, 7], [103.5, 2], [101, 2.7], [98, 7.5], [98.5, 13], [97.5, 17], [94.5, 16], [92, 21.5], [88, 22], [86.5, 20], [82, 16.5], [80, 15], [80, 10], [77.5, 8], [76.5, 9.5], [73, 17], [72.5, 21], [70, 22.5], [67, 24.8], [61.5, 25.2], [57, 25.8], [56, 27], [51, 29], [48, 30], [50.5, 26.5], [51.5, 24.3], [54.5, 24.2], [56.3, 26.3], [58.5, 23.5], [59.8, 22.5], [57, 18.9], [52, 16], [45, 13], [43, 14.5], [39, 21.5], [35, 28], [32.5, 30], [34.5, 31.5], [35.5, 35.5], [36, 36.8], [32.5, 36.1], [29, 36.5], [26.5, 38.5], [26.5, 40.3], [29, 41], [33.5, 42], [38, 41], [41.5, 41.5], [38, 44.5], [35, 45], [33, 46], [30, 45.5], [28.5, 43.5], [27.5, 42], [24, 40.5], [22.5, 40], [21, 38.5], [22.5, 36.5], [24, 38], [23, 40.3], [19.5, 41.8], [15.5, 44.3], [13.7, 45.7], [12.3, 45.2], [13.5, 43.5], [16, 41.5], [18.5, 40.2], [16, 38], [15.7, 40], [12, 41.9], [10, 44], [8, 44], [4, 43.5], [3, 42], [0.8, 41], [-0.5, 39], [0, 38.7], [-2, 36.7], [-5.5, 36], [-6.5, 37], [-9, 37], [-8.8, 41], [-9.5, 43]],
+  // Great Britain and Ireland
+  [[-5.7, 50], [1.5, 51], [1.7, 52.7], [0, 53.5], [-1.6, 55.6], [-3, 58.6], [-5, 58.6], [-6.2, 56.5], [-4.8, 54.8], [-3, 53.8], [-4.6, 52.8], [-5.3, 51.7], [-3.2, 51.4], [-5.7, 50]],
+  [[-6, 52], [-6, 54], [-7.5, 55.3], [-10, 54], [-10, 51.6], [-6, 52]],
+  // Africa
+  [[-17, 21], [-17, 15], [-15, 11], [-11.5, 7], [-7.5, 4.4], [-2, 4.8], [4.5, 6.2], [8.7, 4.5], [9.7, 2.5], [9, -1], [12, -5], [13.5, -11], [11.8, -17], [14.5, -22.5], [16.5, -28.5], [18.5, -34.2], [20, -34.8], [25.5, -34], [31, -29.5], [33, -25.5], [35.5, -24], [35, -20], [40.5, -15.5], [40, -10.5], [39.3, -6], [41.5, -1.5], [46, 2.2], [51, 10.5], [51.2, 12], [44, 10.5], [43.3, 12.5], [39, 16], [37.5, 18.5], [35.5, 23.7], [33.5, 28], [32.3, 31.3], [29, 30.9], [25, 31.7], [20, 31], [19.5, 30.2], [15.5, 31.5], [11.5, 33], [10, 35.2], [11, 37], [9.5, 37.3], [3, 36.8], [-1, 35.2], [-5.5, 35.8], [-6.5, 34], [-9.8, 31], [-10, 29], [-13, 27.7], [-15, 25], [-16.5, 22.5], [-17, 21]],
+  // Madagascar
+  [[49.5, -12], [50.5, -15.5], [49.5, -18], [47, -25], [45, -25.5], [43.7, -22], [44.5, -16.2], [47, -15.3], [49.5, -12]],
+  // Japan
+  [[130, 31.5], [131.5, 34], [135, 33.8], [138.5, 34.8], [140.8, 35.7], [141, 38.5], [142, 40], [141.5, 41.5], [140, 41.2], [139.8, 40], [139, 38], [136.8, 37.2], [135.5, 35.5], [132, 35.5], [130.8, 34], [130, 31.5]],
+  [[140, 41.5], [141.8, 42.6], [143.5, 42], [145.5, 43.3], [144, 44], [141.6, 45.4], [140, 43.2], [140, 41.5]],
+  // Southeast Asian islands
+  [[95.3, 5.6], [98, 4], [104, -2], [106, -6], [102.3, -4], [100, -1], [96.5, 3], [95.3, 5.6]],
+  [[105.5, -6.8], [111, -6.5], [114.5, -7.8], [108, -8], [105.5, -6.8]],
+  [[109, 1.5], [111.5, 2.7], [116.5, 7], [119, 5], [118, 1], [116, -3.8], [111.5, -3], [109.5, -1], [109, 1.5]],
+  [[119.5, 0.8], [125, 1.5], [121, -0.8], [123, -4.5], [120.5, -5.5], [119, -3], [119.5, 0.8]],
+  [[131, -1], [138, -1.5], [145, -4], [150.5, -10.5], [143, -9], [138, -8.3], [132, -3], [131, -1]],
+  [[120, 18.5], [122.5, 18.3], [124, 12.5], [126, 7], [125.5, 6], [122, 7], [123, 10], [120.5, 14], [120, 18.5]],
+  // Australia
+  [[114, -22], [114, -26], [115, -34], [117.8, -35.1], [123.5, -33.9], [129, -31.6], [135, -34.5], [137.7, -35.7], [140, -38], [146.5, -39], [150, -37.5], [153, -31], [153.5, -25], [150, -22], [146, -19], [145.3, -14.9], [142.5, -10.7], [141.5, -13.5], [141.6, -17], [139, -17.3], [136, -15], [137, -12], [132.5, -11.5], [130, -13], [129.5, -15], [125.5, -14.4], [122.5, -17.2], [121, -19.5], [117, -20.7], [114, -22]],
+  [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146, -43.6], [144.6, -40.7]],
+  // New Zealand
+  [[172.7, -34.5], [174.5, -36.5], [176, -37.6], [178.5, -37.7], [177, -39.3], [175, -41.5], [174.5, -39.8], [173.8, -39.2], [174.6, -37.5], [172.7, -34.5]],
+  [[172.7, -40.5], [174.3, -41.7], [172.8, -43.5], [171, -45], [169, -46.6], [166.5, -46], [168.5, -44], [171.3, -42], [172.7, -40.5]],
+  // Iceland
+  [[-22, 64], [-22.5, 65.5], [-18, 66.3], [-14.5, 66], [-13.5, 65], [-18.5, 63.4], [-22, 64]],
+  // Antarctica (simplified to the visible coast north of -85)
+  [[-180, -85], [-180, -78], [-160, -78], [-150, -76], [-130, -74], [-100, -73], [-75, -72], [-60, -64], [-57, -63.5], [-62, -70], [-60, -75], [-35, -78], [-20, -73], [0, -70], [30, -69], [55, -66], [70, -68], [90, -66], [110, -66], [135, -66], [160, -70], [170, -72], [180, -78], [180, -85], [-180, -85]],
+];
@@ -8,11 +8,27 @@ export interface ToxicityInfo {
   primerosAuxilios: string;
 }
 
+export type DoseUnit = 'g' | 'ml' | 'tsp' | 'drops';
+export type AgeBand = 'infant' | 'child' | 'adolescent' | 'adult' | 'elderly';
+export type DosePopulation = AgeBand | 'pregnant' | 'breastfeeding';
+
+export interface Dosage {
+  cantidad: number; // Per dose, for the reference population
+  unidad: DoseUnit;
+  tomasAlDia: number;
+  dosisMaximaDiaria: number; // In the same unit
+  poblacion: AgeBand; // Who the amounts were given for
+  pesoReferencia: number; // Body weight of that population, in kg
+  gramosPorCucharadita?: number; // For dried plant measured in grams, to convert to teaspoons
+  contraindicadoEn: DosePopulation[];
+}
+
 export interface Preparation {
   nombre: string;
   ingredientes: string[];
   instrucciones: string;
   dosis: string;
+  dosificacion?: Dosage; // Missing on older entries and when there is no established dose
   efectosSecundarios: string;
   contextoHistorico: string;
 }
@@ -50,6 +66,13 @@ export interface PlantInfo {
   preparaciones: Preparation[];
   plantasSimilares: SimilarPlant[];
   plantasConPrincipiosActivosSimilares: SimilarActivePlant[];
+  alertasPerfil?: string[]; // Contraindications for the user's safety profile, when one was sent
+}
+
+export interface IdentificationCandidate {
+  nombreComun: string;
+  nombreCientifico: string;
+  confianza: number; // 0-1, as estimated by the model
 }
 
 export interface DiseaseInfo {
@@ -72,6 +95,18 @@ export interface CareGuideInfo {
     trasplante: { frecuencia: string; instrucciones: string; consejo: string };
     propagacion: { metodos: string; instrucciones: string; consejo: string };
     consejosAdicionales: { purificacionAire: string; seguridadMascotas: string; datoCurioso: string };
+    calendario?: CareCalendar; // Structured frequencies behind the care schedule; missing in older guides
+}
+
+export type Season = 'primavera' | 'verano' | 'otono' | 'invierno';
+
+// Days between two rounds of a task in each season; 0 when it is not done that season.
+export type SeasonalInterval = Record<Season, number>;
+
+export interface CareCalendar {
+    riego: SeasonalInterval;
+    fertilizacion: SeasonalInterval;
+    trasplante: SeasonalInterval;
 }
 
 export interface GroundingSource {
@@ -79,10 +114,57 @@ export interface GroundingSource {
   uri: string;
 }
 
+export type PlantOrgan = 'whole' | 'leaf' | 'flower' | 'fruit' | 'bark' | 'other';
+
+export interface SpecimenPhoto {
+  src: string; // Data URL
+  organ: PlantOrgan;
+}
+
+// Photos to identify or diagnose that were taken without a connection. They run on their own once the
+// device is back online and then become a regular history entry.
+export interface PendingAnalysis {
+  id: string;
+  createdAt: number;
+  type: HistoryEntry['type']; // The entry it will become: an identification or a diagnosis
+  photos: SpecimenPhoto[];
+  location?: CaptureLocation;
+  exif?: PhotoExif;
+  capturedAt?: number;
+  trackedPlantId?: string;
+  error?: string; // Why the last attempt failed, when it was not the connection; it is not retried then
+}
+
+// A photo as sent to the identification service.
+export interface SpecimenImage {
+  base64: string;
+  mimeType: string;
+  organ: PlantOrgan;
+}
+
+export interface CaptureLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Horizontal error radius in meters
+  altitude?: number; // Meters above sea level
+  source?: 'exif' | 'device'; // Photo GPS tags, or the device position at upload time
+}
+
+export interface PhotoExif {
+  capturedAt?: number; // Epoch millis of DateTimeOriginal
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  accuracy?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+}
+
 export interface HistoryEntry {
   id: string;
   timestamp: number;
   imageSrc: string; // Stored as a data URL for persistence
+  photos?: SpecimenPhoto[]; // Every photo of the specimen, imageSrc being the first one
   type: 'plant' | 'disease';
   plantInfo?: PlantInfo;
   diseaseInfo?: DiseaseInfo;
@@ -90,6 +172,72 @@ export interface HistoryEntry {
   mapaDistribucionSrc?: string; // Optional data URL for the map
   careGuide?: CareGuideInfo; // Optional care guide
   imageGenerationFailed?: boolean;
+  mapFailure?: MapFailure; // Why a plant whose distribution is known has no map
+  candidates?: IdentificationCandidate[]; // Ranked alternatives for the identification, best first
+  location?: CaptureLocation; // Where the specimen was photographed, when known
+  capturedAt?: number; // When the photo was taken, from EXIF; falls back to timestamp
+  exif?: PhotoExif; // Metadata of the primary photo
+  promptVersion?: string; // Prompt templates behind plantInfo or diseaseInfo, e.g. "identify@2/es" or "identify@4/es+structure@1/es"
+  photoHash?: string; // Hash of the photos a plant was identified from, which its cached answer is keyed by
+  careGuidePromptVersion?: string; // Same for the care guide
+  translations?: Record<string, EntryTranslation>; // Stored content translated into other UI languages, by language code
+  safetyProfileKey?: string; // Safety profile plantInfo was tailored to (see getSafetyProfileKey); unset if none
+  trackedPlantId?: string; // The plant in "My Plants" this entry is about, if any
+}
+
+// The budget stopped the map, or its generation failed. Either way a later refresh can draw it.
+export type MapFailure = 'budget' | 'error';
+
+export type TreatmentKind = 'organic' | 'chemical';
+export type TreatmentOutcome = 'improved' | 'unchanged' | 'worse';
+
+// A treatment from a diagnosis, as applied to a tracked plant.
+export interface AppliedTreatment {
+  id: string;
+  appliedAt: number;
+  diagnosisId: string; // Entry whose diagnosis recommended it
+  kind: TreatmentKind; // From tratamientoOrganico or tratamientoQuimico
+  index: number; // Position in that list, which stays the same when the diagnosis is translated
+  description: string;
+  outcome?: TreatmentOutcome; // Set by the user once they can tell
+}
+
+export type CareTask = 'watering' | 'fertilizing' | 'repotting';
+
+// A care task the user marked as done.
+export interface CareLogEntry {
+  id: string;
+  task: CareTask;
+  doneAt: number;
+}
+
+export interface PlantPhoto {
+  id: string;
+  takenAt: number;
+  src: string; // Data URL
+}
+
+// A named plant the user looks after ("My Plants"). It keeps its own copies of the identifications and
+// diagnoses about it, like the herbarium does, so trimming the history never loses its timeline.
+export interface TrackedPlant {
+  id: string;
+  name: string;
+  createdAt: number;
+  entries: HistoryEntry[];
+  photos: PlantPhoto[];
+  treatments: AppliedTreatment[];
+  careLog?: CareLogEntry[]; // Missing in plants saved before the care schedule existed
+}
+
+export type TranslatablePart = 'plantInfo' | 'diseaseInfo' | 'careGuide';
+
+// The parts of an entry translated into one language. A part is missing until it has been translated.
+export interface EntryTranslation {
+  plantInfo?: PlantInfo;
+  diseaseInfo?: DiseaseInfo;
+  careGuide?: CareGuideInfo;
+  promptVersion: string; // e.g. "translate@1/en"
+  translatedAt: number;
 }
 
 export interface ComparisonInfo {
@@ -119,4 +267,48 @@ export interface ComparisonInfo {
 export interface SuggestedPlant {
   nombreComun: string;
   relevancia: string;
-}
\ No newline at end of file
+  nivelToxicidad?: ToxicityInfo['nivelToxicidad']; // Remedy suggestions only
+  advertencia?: string; // Remedy suggestions only: a precaution for the user's safety profile, or ''
+}
+
+// Who the remedies are for. Kept on the device and sent with identification and remedy requests
+// so answers and preparations take it into account.
+export interface SafetyProfile {
+  pregnancy: 'none' | 'pregnant' | 'breastfeeding';
+  childrenAtHome: boolean;
+  pets: string[]; // Species, e.g. "cat"
+  allergies: string[]; // e.g. "Asteraceae"
+  conditions: string[]; // Chronic conditions, e.g. "hypertension"
+}
+
+export type InteractionSeverity = 'Minor' | 'Moderate' | 'Major' | 'Contraindicated';
+
+// One plant/medication pair that should not be taken together as is.
+export interface HerbDrugInteraction {
+  planta: string; // As it was sent, "Common name (Scientific name)"
+  medicamento: string;
+  severidad: InteractionSeverity;
+  mecanismo: string;
+  compuestoAfectado: string;
+  recomendacion: string;
+}
+
+export interface InteractionReport {
+  resumen: string;
+  interacciones: HerbDrugInteraction[]; // Only the pairs that do interact
+}
+// One AI call as recorded by the usage log. Tokens and images are what the backend reported.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  source: string; // Service function that made the call, e.g. "getPlantInfo"
+  feature: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}